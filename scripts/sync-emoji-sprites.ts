@@ -0,0 +1,112 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { getEmojiSpriteName, splitEmojiRuns } from '../src/render/emoji.js';
+
+/** Twemoji PNGs, see assets/emoji/TWEMOJI-LICENSE.txt */
+const SPRITE_PACKAGE = 'emoji-datasource-twitter@16.0.0';
+const SPRITE_DIR = 'package/img/twitter/64';
+
+const CONFIG_DIR = 'config';
+const EMOJI_DIR = 'assets/emoji';
+
+/**
+ * All JSON files in a directory and its subdirectories
+ */
+function findJsonFiles(dirPath: string): string[] {
+    return fs.readdirSync(dirPath, { withFileTypes: true }).flatMap((entry) => {
+        const fullPath = path.join(dirPath, entry.name);
+        if (entry.isDirectory()) return findJsonFiles(fullPath);
+        return entry.name.endsWith('.json') ? [fullPath] : [];
+    });
+}
+
+/**
+ * All strings in a parsed JSON value
+ */
+function collectStrings(value: unknown): string[] {
+    if (typeof value === 'string') return [value];
+    if (Array.isArray(value)) return value.flatMap(collectStrings);
+    if (value !== null && typeof value === 'object') {
+        return Object.values(value).flatMap(collectStrings);
+    }
+    return [];
+}
+
+/**
+ * Sprite names of the emoji used in the templates and data files, with one emoji each
+ */
+function findUsedEmoji(): Map<string, string> {
+    const used = new Map<string, string>();
+
+    for (const file of findJsonFiles(CONFIG_DIR)) {
+        const content: unknown = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        for (const run of collectStrings(content).flatMap(splitEmojiRuns)) {
+            if (run.type === 'emoji') used.set(getEmojiSpriteName(run.value), run.value);
+        }
+    }
+
+    return used;
+}
+
+/**
+ * Download the sprite package and map sprite names to its PNGs
+ * ('0023-fe0f-20e3.png' is the sprite '23-20e3')
+ */
+function fetchSprites(tempDir: string): Map<string, string> {
+    const tarball = execFileSync('npm', ['pack', SPRITE_PACKAGE, '--silent'], {
+        cwd: tempDir,
+        encoding: 'utf-8',
+    }).trim();
+    execFileSync('tar', ['-xzf', tarball, SPRITE_DIR], { cwd: tempDir });
+
+    const spriteDir = path.join(tempDir, SPRITE_DIR);
+    const sprites = new Map<string, string>();
+
+    for (const file of fs.readdirSync(spriteDir).filter((f) => f.endsWith('.png'))) {
+        const emoji = String.fromCodePoint(
+            ...path
+                .basename(file, '.png')
+                .split('-')
+                .map((hex) => parseInt(hex, 16))
+        );
+        sprites.set(getEmojiSpriteName(emoji), path.join(spriteDir, file));
+    }
+
+    return sprites;
+}
+
+/**
+ * Replace the sprites in assets/emoji with the ones the config files use
+ */
+function syncEmojiSprites() {
+    const used = findUsedEmoji();
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'emoji-sprites-'));
+
+    try {
+        console.log(`Fetching ${SPRITE_PACKAGE}...`);
+        const sprites = fetchSprites(tempDir);
+
+        for (const file of fs.readdirSync(EMOJI_DIR).filter((f) => f.endsWith('.png'))) {
+            fs.rmSync(path.join(EMOJI_DIR, file));
+        }
+
+        let written = 0;
+        for (const [name, emoji] of used) {
+            const source = sprites.get(name);
+            if (source === undefined) {
+                console.warn(`No sprite for ${emoji} (${name}), it will use the emoji font`);
+                continue;
+            }
+            fs.copyFileSync(source, path.join(EMOJI_DIR, `${name}.png`));
+            written++;
+        }
+
+        console.log(`✅ ${written} emoji sprite(s) written to ${EMOJI_DIR}`);
+    } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+}
+
+syncEmojiSprites();
@@ -1,10 +1,27 @@
 import { z } from 'zod';
 import dotenv from 'dotenv';
-import type { AppConfig, LogLevel } from '../types/index.js';
+import type { AppConfig, LogLevel, PostGranularity } from '../types/index.js';
+import { ZODIAC_SIGNS } from '../utils/zodiac.js';
+import { isSupportedCalendar } from '../utils/calendar-progress.js';
+import { isValidTimezone } from '../utils/progress-calculator.js';
+import { isPostGranularity, MAX_PRECISION } from '../utils/precision.js';
+import { DEFAULT_LOCALE, isValidLocale, parsePlatformLocales } from '../utils/locale.js';
 
 // Load environment variables
 dotenv.config();
 
+/**
+ * Check whether a PLATFORM_LOCALES value can be parsed
+ */
+function isValidPlatformLocales(value: string): boolean {
+    try {
+        parsePlatformLocales(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
 /**
  * Environment variable schema with validation
  */
@@ -26,8 +43,66 @@ const envSchema = z.object({
     // Application Settings
     DRY_RUN: z.string().optional().default('false'),
     LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).optional().default('info'),
-    TIMEZONE: z.string().optional().default('UTC'),
+    TIMEZONE: z
+        .string()
+        .optional()
+        .default('UTC')
+        .refine((value) => isValidTimezone(value), { message: 'must be a valid IANA timezone' }),
+    LOCALE: z
+        .string()
+        .optional()
+        .default(DEFAULT_LOCALE)
+        .refine((value) => isValidLocale(value), { message: 'must be a valid BCP 47 locale' }),
+    PLATFORM_LOCALES: z
+        .string()
+        .optional()
+        .default('')
+        .refine((value) => isValidPlatformLocales(value), {
+            message: "must be a list like 'instagram:es,youtube:pt-BR'",
+        }),
+    THEME: z.string().optional().default('default'),
+    PROGRESS_LAYOUT: z.enum(['bar', 'ring', 'dots', 'battery', 'hourglass']).optional(),
+    SCENE: z.string().optional(),
+    ANIMATION_EASING: z
+        .enum(['linear', 'ease-out-cubic', 'ease-in-out', 'elastic', 'overshoot'])
+        .optional(),
+    ANIMATION_DELAY: z.coerce.number().min(0).optional(),
+    PROGRESS_COUNTER: z.enum(['none', 'inside', 'above', 'tip']).optional(),
+    BACKGROUND_MOTION: z.enum(['none', 'ken-burns']).optional(),
+    BACKGROUND_SLIDES: z.coerce.number().int().min(1).optional(),
     CONTENT_TYPE: z.string().optional().default('year-progress'),
+    GENERATOR_MODULES: z.string().optional().default(''),
+
+    // Year Progress Settings
+    YEAR_PERIOD: z.string().optional(),
+    PERIODS_FILE: z.string().optional(),
+    YEAR_CALENDAR: z
+        .string()
+        .optional()
+        .default('gregory')
+        .refine((value) => isSupportedCalendar(value), { message: 'unsupported calendar' }),
+    YEAR_MILESTONES: z.string().optional().default('true'),
+    YEAR_PRECISION: z.coerce.number().int().min(0).max(MAX_PRECISION).optional().default(0),
+    YEAR_GRANULARITY: z
+        .string()
+        .optional()
+        .default('percent')
+        .refine((value) => isPostGranularity(value), {
+            message: "must be 'percent', 'day' or 'tenths:N'",
+        }),
+    HOLIDAYS_FILE: z.string().optional(),
+
+    // Horoscope Settings
+    HOROSCOPE_SIGN: z.enum(ZODIAC_SIGNS).optional(),
+    HOROSCOPE_DATASET: z.string().optional(),
+
+    // Countdown Settings
+    COUNTDOWN_NAME: z.string().optional(),
+    COUNTDOWNS_FILE: z.string().optional(),
+
+    // Quote Settings
+    QUOTE_DATASET: z.string().optional(),
+    QUOTE_SHOW_PROGRESS: z.string().optional().default('true'),
 });
 
 /**
@@ -69,7 +144,39 @@ export function getConfig(): AppConfig {
             dryRun: env.DRY_RUN.toLowerCase() === 'true',
             logLevel: env.LOG_LEVEL as LogLevel,
             timezone: env.TIMEZONE,
+            locale: env.LOCALE,
+            platformLocales: parsePlatformLocales(env.PLATFORM_LOCALES),
+            theme: env.THEME,
+            progressLayout: env.PROGRESS_LAYOUT,
+            scene: env.SCENE,
+            animation: { easing: env.ANIMATION_EASING, delay: env.ANIMATION_DELAY },
+            progressCounter: env.PROGRESS_COUNTER,
+            background: { motion: env.BACKGROUND_MOTION, slides: env.BACKGROUND_SLIDES },
             contentType: env.CONTENT_TYPE,
+            generatorModules: env.GENERATOR_MODULES.split(',')
+                .map((m) => m.trim())
+                .filter((m) => m.length > 0),
+        },
+        yearProgress: {
+            period: env.YEAR_PERIOD,
+            periodsFile: env.PERIODS_FILE ?? ASSET_PATHS.periods,
+            calendar: env.YEAR_CALENDAR,
+            milestones: env.YEAR_MILESTONES.toLowerCase() === 'true',
+            precision: env.YEAR_PRECISION,
+            granularity: env.YEAR_GRANULARITY as PostGranularity,
+            holidaysFile: env.HOLIDAYS_FILE ?? ASSET_PATHS.holidays,
+        },
+        horoscope: {
+            sign: env.HOROSCOPE_SIGN,
+            dataset: env.HOROSCOPE_DATASET ?? ASSET_PATHS.horoscopes,
+        },
+        countdown: {
+            name: env.COUNTDOWN_NAME,
+            file: env.COUNTDOWNS_FILE ?? ASSET_PATHS.countdowns,
+        },
+        quote: {
+            dataset: env.QUOTE_DATASET ?? ASSET_PATHS.quotes,
+            showProgress: env.QUOTE_SHOW_PROGRESS.toLowerCase() === 'true',
         },
     };
 }
@@ -104,8 +211,30 @@ export const RENDER_CONFIG = {
     pauseDuration: 2, // Seconds to hold at the end
     fontFamily: 'Primary',
     fontSize: 80,
+    textAlign: 'center',
+    textMargin: 80,
 } as const;
 
+/**
+ * Fallback font families per language, tried after the primary font
+ * (font files in assets/fonts are registered under their file name, e.g.
+ * Noto_Naskh_Arabic-Bold.ttf -> 'Noto Naskh Arabic'; asset validation fails
+ * when none of a language's families is there)
+ */
+export const FONT_FALLBACKS: Readonly<Record<string, readonly string[]>> = {
+    ar: ['Noto Naskh Arabic', 'Noto Sans Arabic'],
+    fa: ['Vazirmatn', 'Noto Naskh Arabic', 'Noto Sans Arabic'],
+    ur: ['Noto Nastaliq Urdu', 'Noto Naskh Arabic'],
+    he: ['Noto Sans Hebrew'],
+    yi: ['Noto Sans Hebrew'],
+};
+
+/**
+ * Font family for emoji without a sprite in assets/emoji (only the emoji in config/ have one,
+ * see `npm run sync-emoji`; add e.g. Noto_Color_Emoji.ttf to assets/fonts for the others)
+ */
+export const EMOJI_FONT_FAMILY = 'Noto Color Emoji';
+
 /**
  * Default retry configuration
  */
@@ -121,7 +250,16 @@ export const ASSET_PATHS = {
     backgrounds: 'assets/backgrounds',
     audio: 'assets/audio',
     fonts: 'assets/fonts',
+    emoji: 'assets/emoji',
+    luts: 'assets/luts',
     texts: 'config/texts.json',
+    themes: 'config/themes',
+    scenes: 'config/scenes',
+    horoscopes: 'config/horoscopes.json',
+    quotes: 'config/quotes.json',
+    countdowns: 'config/countdowns.json',
+    periods: 'config/periods.json',
+    holidays: 'config/holidays.json',
     videos: 'videos',
     logs: 'logs',
 } as const;
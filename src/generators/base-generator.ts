@@ -1,6 +1,16 @@
-import type { ContentGenerator, GeneratedContent, StateData } from '../types/index.js';
+import type {
+    ContentGenerator,
+    DayCount,
+    GeneratedContent,
+    GenerateOptions,
+    StateData,
+    YearMilestone,
+} from '../types/index.js';
 import { renderVideo } from '../render/index.js';
+import type { TemplateVariables } from '../utils/template-engine.js';
+import { DEFAULT_LOCALE } from '../utils/locale.js';
 import { logger } from '../utils/logger.js';
+import { createInitialState } from '../utils/state-manager.js';
 
 /**
  * Abstract base class for content generators
@@ -9,6 +19,12 @@ import { logger } from '../utils/logger.js';
 export abstract class BaseContentGenerator implements ContentGenerator {
     abstract readonly contentType: string;
 
+    /** Locale of the content being generated (set by generate()) */
+    protected locale: string = DEFAULT_LOCALE;
+
+    /** State of the last post (set by generate()) */
+    protected lastState: StateData | null = null;
+
     /**
      * Get the text to display in the video
      */
@@ -24,6 +40,49 @@ export abstract class BaseContentGenerator implements ContentGenerator {
      */
     protected abstract getHashtags(): string[];
 
+    /**
+     * Whether the progress bar should be drawn
+     */
+    protected showProgressBar(): boolean {
+        return true;
+    }
+
+    /**
+     * Whether to render with the celebration theme (e.g., for milestones)
+     */
+    protected isCelebration(): boolean {
+        return false;
+    }
+
+    /**
+     * Milestone the content celebrates, if any (themes can be chosen per milestone)
+     */
+    getMilestone(): YearMilestone | null {
+        return null;
+    }
+
+    /**
+     * Variables of the on-video text (e.g., percent, daysLeft), for the text elements of scenes
+     */
+    protected getTemplateVariables(): TemplateVariables {
+        return {};
+    }
+
+    /**
+     * Decimal places of the percent in the text, so on-video counters match it
+     */
+    protected getPrecision(): number {
+        return 0;
+    }
+
+    /**
+     * Day of the period and its length (e.g., day 135 of 365), for the day grid layout
+     * Returns null for content that does not count days
+     */
+    protected getDayCount(): DayCount | null {
+        return null;
+    }
+
     /**
      * Get the current unique identifier for this content
      * (e.g., percentage for year progress, zodiac sign for horoscope)
@@ -35,6 +94,16 @@ export abstract class BaseContentGenerator implements ContentGenerator {
      */
     abstract shouldGenerate(lastState: StateData | null): Promise<boolean>;
 
+    /**
+     * Build the state to persist after a successful post
+     * Override to store extra data needed by shouldGenerate (e.g., year)
+     *
+     * @param _lastState - State being replaced (e.g., to continue a rotation)
+     */
+    createState(_lastState: StateData | null = null): StateData {
+        return createInitialState(this.contentType, this.getCurrentIdentifier());
+    }
+
     /**
      * Get additional metadata for the content
      */
@@ -44,8 +113,13 @@ export abstract class BaseContentGenerator implements ContentGenerator {
 
     /**
      * Generate the content (video)
+     *
+     * @param options - Generation options (e.g., the locale of a localized variant)
      */
-    async generate(): Promise<GeneratedContent> {
+    async generate(options: GenerateOptions = {}): Promise<GeneratedContent> {
+        this.locale = options.locale ?? DEFAULT_LOCALE;
+        this.lastState = options.lastState ?? null;
+
         const text = this.getText();
         const percent = this.getPercent();
         const hashtags = this.getHashtags();
@@ -53,6 +127,7 @@ export abstract class BaseContentGenerator implements ContentGenerator {
         logger.info('Generating content', {
             contentType: this.contentType,
             identifier: this.getCurrentIdentifier(),
+            locale: this.locale,
             text,
             percent,
         });
@@ -60,6 +135,19 @@ export abstract class BaseContentGenerator implements ContentGenerator {
         const renderResult = await renderVideo({
             text,
             percent,
+            showProgressBar: this.showProgressBar(),
+            celebration: this.isCelebration(),
+            theme: options.theme,
+            milestone: this.getMilestone(),
+            layout: options.layout,
+            days: this.getDayCount(),
+            scene: options.scene,
+            variables: this.getTemplateVariables(),
+            animation: options.animation,
+            counter: options.counter,
+            background: options.background,
+            precision: this.getPrecision(),
+            locale: this.locale,
         });
 
         return {
@@ -69,8 +157,13 @@ export abstract class BaseContentGenerator implements ContentGenerator {
             metadata: {
                 contentType: this.contentType,
                 identifier: this.getCurrentIdentifier(),
+                locale: this.locale,
                 background: renderResult.metadata.background,
                 audio: renderResult.metadata.audio,
+                theme: renderResult.metadata.theme,
+                layout: renderResult.metadata.layout,
+                scene: renderResult.metadata.scene,
+                contrast: renderResult.metadata.contrast,
                 generatedAt: new Date().toISOString(),
                 ...this.getAdditionalMetadata(),
             },
@@ -0,0 +1,133 @@
+import type { DayCount, PeriodProgress, StateData } from '../types/index.js';
+import { BaseContentGenerator } from './base-generator.js';
+import { getRandomText, getHashtags } from '../utils/asset-picker.js';
+import { getPercentVariables } from '../utils/locale.js';
+import { createInitialState } from '../utils/state-manager.js';
+import { logger } from '../utils/logger.js';
+import type { TemplateVariables } from '../utils/template-engine.js';
+
+/**
+ * Options for calendar period generators
+ */
+export interface CalendarPeriodGeneratorOptions {
+    /** Timezone (IANA format) used to decide the current date */
+    timezone?: string;
+    /** Date to generate for (defaults to now) */
+    date?: Date;
+}
+
+/**
+ * Variables every calendar period template is rendered with
+ * Subclasses add the ones from getPeriodVariables when they declare their text key
+ */
+export const PERIOD_VARIABLES = ['percent', 'percentLabel', 'dayOfPeriod', 'totalDays', 'daysLeft'];
+
+/**
+ * Base class for generators showing progress through a calendar period
+ * Subclasses provide the calculator, template key and duplicate-check key
+ */
+export abstract class CalendarPeriodGenerator<
+    T extends PeriodProgress,
+> extends BaseContentGenerator {
+    /** Key of the templates and hashtags in texts.json */
+    protected abstract readonly textKey: string;
+
+    protected readonly timezone?: string;
+    protected progress: T;
+
+    constructor(options: CalendarPeriodGeneratorOptions = {}) {
+        super();
+        this.timezone = options.timezone;
+        this.progress = this.calculate(options.date ?? new Date());
+    }
+
+    /**
+     * Calculate progress for a date
+     */
+    protected abstract calculate(date: Date): T;
+
+    /**
+     * Template variables specific to the period (e.g., month name)
+     */
+    protected abstract getPeriodVariables(): Record<string, string | number>;
+
+    /**
+     * Recalculate progress (useful if instance is long-lived)
+     */
+    refresh(): void {
+        this.progress = this.calculate(new Date());
+    }
+
+    /**
+     * Get the current period progress data
+     */
+    getProgress(): T {
+        return { ...this.progress };
+    }
+
+    protected override getTemplateVariables(): TemplateVariables {
+        return {
+            ...getPercentVariables(this.progress.percent, this.locale),
+            dayOfPeriod: this.progress.dayOfPeriod,
+            totalDays: this.progress.totalDays,
+            daysLeft: this.progress.totalDays - this.progress.dayOfPeriod,
+            ...this.getPeriodVariables(),
+        };
+    }
+
+    protected getText(): string {
+        return getRandomText(this.textKey, this.getTemplateVariables(), this.locale);
+    }
+
+    protected getPercent(): number {
+        return this.progress.percent;
+    }
+
+    protected getHashtags(): string[] {
+        return getHashtags(this.textKey, this.locale);
+    }
+
+    protected override getDayCount(): DayCount {
+        return { day: this.progress.dayOfPeriod, total: this.progress.totalDays };
+    }
+
+    protected override getAdditionalMetadata(): Record<string, unknown> {
+        return {
+            ...this.getPeriodVariables(),
+            dayOfPeriod: this.progress.dayOfPeriod,
+            totalDays: this.progress.totalDays,
+            startDate: this.progress.startDate,
+            endDate: this.progress.endDate,
+        };
+    }
+
+    override createState(): StateData {
+        return createInitialState(this.contentType, this.getCurrentIdentifier());
+    }
+
+    override shouldGenerate(lastState: StateData | null): Promise<boolean> {
+        // No previous state - should generate
+        if (!lastState) {
+            logger.info('No previous state - should generate');
+            return Promise.resolve(true);
+        }
+
+        // Different content type - should generate
+        if (lastState.contentType !== this.contentType) {
+            logger.info('Different content type - should generate');
+            return Promise.resolve(true);
+        }
+
+        // Different duplicate-check key - should generate
+        const currentValue = this.getCurrentIdentifier();
+        const shouldGenerate = lastState.lastValue !== currentValue;
+
+        logger.info('Checked if should generate', {
+            lastValue: lastState.lastValue,
+            currentValue,
+            shouldGenerate,
+        });
+
+        return Promise.resolve(shouldGenerate);
+    }
+}
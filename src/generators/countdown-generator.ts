@@ -0,0 +1,174 @@
+import type { CountdownDefinition, CountdownProgress, StateData } from '../types/index.js';
+import { BaseContentGenerator } from './base-generator.js';
+import { registerGenerator } from './registry.js';
+import {
+    calculateCountdownProgress,
+    formatDateKey,
+    getZonedDateParts,
+} from '../utils/progress-calculator.js';
+import { findCountdown, loadCountdowns } from '../utils/countdowns.js';
+import { getRandomText, getHashtags } from '../utils/asset-picker.js';
+import { registerTextVariables } from '../utils/text-variables.js';
+import { getPercentVariables } from '../utils/locale.js';
+import { createInitialState } from '../utils/state-manager.js';
+import { logger } from '../utils/logger.js';
+import type { TemplateVariables } from '../utils/template-engine.js';
+
+/**
+ * Options for the countdown generator
+ */
+export interface CountdownGeneratorOptions {
+    /** Countdown to post */
+    countdown: CountdownDefinition;
+    /** Timezone (IANA format) used to decide the current date */
+    timezone?: string;
+    /** Date to generate for (defaults to now) */
+    date?: Date;
+}
+
+/**
+ * Countdown Content Generator
+ * Generates daily "X days until ..." videos for a configured target date
+ */
+export class CountdownGenerator extends BaseContentGenerator {
+    readonly contentType = 'countdown';
+
+    private readonly countdown: CountdownDefinition;
+    private readonly timezone?: string;
+    private progress: CountdownProgress;
+    private dateKey: string;
+
+    constructor(options: CountdownGeneratorOptions) {
+        super();
+        this.countdown = options.countdown;
+        this.timezone = options.timezone;
+
+        const date = options.date ?? new Date();
+        this.progress = this.calculate(date);
+        this.dateKey = formatDateKey(getZonedDateParts(date, this.timezone));
+    }
+
+    /**
+     * Recalculate countdown progress (useful if instance is long-lived)
+     */
+    refresh(): void {
+        const date = new Date();
+        this.progress = this.calculate(date);
+        this.dateKey = formatDateKey(getZonedDateParts(date, this.timezone));
+    }
+
+    protected override getTemplateVariables(): TemplateVariables {
+        return {
+            label: this.countdown.label,
+            daysRemaining: this.progress.daysRemaining,
+            daysElapsed: this.progress.daysElapsed,
+            ...getPercentVariables(this.progress.percent, this.locale),
+        };
+    }
+
+    protected getText(): string {
+        const variables = this.getTemplateVariables();
+
+        return this.progress.isTargetDay
+            ? getRandomText('countdownToday', variables, this.locale)
+            : getRandomText('countdown', variables, this.locale);
+    }
+
+    protected getPercent(): number {
+        return this.progress.percent;
+    }
+
+    protected getHashtags(): string[] {
+        return getHashtags('countdown', this.locale);
+    }
+
+    override getCurrentIdentifier(): string {
+        return `${this.countdown.name}_${this.dateKey}`;
+    }
+
+    protected override getAdditionalMetadata(): Record<string, unknown> {
+        return {
+            countdown: this.countdown.name,
+            target: this.countdown.target,
+            daysRemaining: this.progress.daysRemaining,
+            isTargetDay: this.progress.isTargetDay,
+        };
+    }
+
+    override createState(): StateData {
+        return {
+            ...createInitialState(this.contentType, this.getCurrentIdentifier()),
+            countdown: this.countdown.name,
+        };
+    }
+
+    override shouldGenerate(lastState: StateData | null): Promise<boolean> {
+        // Countdown is over - nothing left to post
+        if (this.progress.isPast) {
+            logger.info('Countdown target has passed - should not generate', {
+                countdown: this.countdown.name,
+                target: this.countdown.target,
+            });
+            return Promise.resolve(false);
+        }
+
+        // No previous state - should generate
+        if (!lastState) {
+            logger.info('No previous state - should generate');
+            return Promise.resolve(true);
+        }
+
+        // Different content type - should generate
+        if (lastState.contentType !== this.contentType) {
+            logger.info('Different content type - should generate');
+            return Promise.resolve(true);
+        }
+
+        // New day (or different countdown) - should generate
+        const shouldGenerate = lastState.lastValue !== this.getCurrentIdentifier();
+
+        logger.info('Checked if should generate', {
+            lastValue: lastState.lastValue,
+            currentValue: this.getCurrentIdentifier(),
+            daysRemaining: this.progress.daysRemaining,
+            shouldGenerate,
+        });
+
+        return Promise.resolve(shouldGenerate);
+    }
+
+    /**
+     * Get the current countdown progress data
+     */
+    getCountdownProgress(): CountdownProgress {
+        return { ...this.progress };
+    }
+
+    private calculate(date: Date): CountdownProgress {
+        return calculateCountdownProgress(
+            this.countdown.start,
+            this.countdown.target,
+            date,
+            this.timezone
+        );
+    }
+}
+
+/**
+ * Factory function to create a CountdownGenerator instance
+ */
+export function createCountdownGenerator(options: CountdownGeneratorOptions): CountdownGenerator {
+    return new CountdownGenerator(options);
+}
+
+registerGenerator('countdown', (config) =>
+    createCountdownGenerator({
+        countdown: findCountdown(loadCountdowns(config.countdown.file), config.countdown.name),
+        timezone: config.app.timezone,
+    })
+);
+
+const COUNTDOWN_VARIABLES = ['label', 'daysRemaining', 'daysElapsed', 'percent', 'percentLabel'];
+
+registerTextVariables('countdown', COUNTDOWN_VARIABLES);
+registerTextVariables('countdownToday', COUNTDOWN_VARIABLES);
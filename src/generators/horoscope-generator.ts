@@ -0,0 +1,172 @@
+import type { StateData, ZodiacSeason, ZodiacSign, ZonedDateParts } from '../types/index.js';
+import { BaseContentGenerator } from './base-generator.js';
+import { registerGenerator } from './registry.js';
+import { formatDateKey, getZonedDateParts } from '../utils/progress-calculator.js';
+import { formatSignName, getSignProgress, getZodiacSeason } from '../utils/zodiac.js';
+import { getHoroscopeReading, loadHoroscopeDataset } from '../utils/horoscope-data.js';
+import { getRandomText, getHashtags } from '../utils/asset-picker.js';
+import { registerTextVariables } from '../utils/text-variables.js';
+import { createInitialState } from '../utils/state-manager.js';
+import { logger } from '../utils/logger.js';
+import type { TemplateVariables } from '../utils/template-engine.js';
+import { ASSET_PATHS } from '../config/index.js';
+
+/**
+ * Options for the horoscope generator
+ */
+export interface HoroscopeGeneratorOptions {
+    /** Sign to post (defaults to the sign whose season is running) */
+    sign?: ZodiacSign;
+    /** Dataset path (relative to project root, .json or .csv) */
+    dataset?: string;
+    /** Timezone (IANA format) used to decide the current date */
+    timezone?: string;
+    /** Date to generate for (defaults to now) */
+    date?: Date;
+}
+
+/**
+ * Horoscope Content Generator
+ * Generates daily horoscope videos from a local dataset of readings
+ */
+export class HoroscopeGenerator extends BaseContentGenerator {
+    readonly contentType = 'horoscope';
+
+    private readonly options: HoroscopeGeneratorOptions;
+    private today: ZonedDateParts;
+    private season: ZodiacSeason;
+
+    constructor(options: HoroscopeGeneratorOptions = {}) {
+        super();
+        this.options = options;
+        this.today = getZonedDateParts(options.date ?? new Date(), options.timezone);
+        this.season = getZodiacSeason(this.today);
+    }
+
+    /**
+     * Recalculate the current date (useful if instance is long-lived)
+     */
+    refresh(): void {
+        this.today = getZonedDateParts(this.options.date ?? new Date(), this.options.timezone);
+        this.season = getZodiacSeason(this.today);
+    }
+
+    /**
+     * Sign being posted
+     */
+    getSign(): ZodiacSign {
+        return this.options.sign ?? this.season.sign;
+    }
+
+    /**
+     * Current date key (YYYY-MM-DD)
+     */
+    getDateKey(): string {
+        return formatDateKey(this.today);
+    }
+
+    /**
+     * Progress through the zodiac season that is currently running
+     */
+    getSeason(): ZodiacSeason {
+        return { ...this.season };
+    }
+
+    protected override getTemplateVariables(): TemplateVariables {
+        const dataset = loadHoroscopeDataset(this.options.dataset ?? ASSET_PATHS.horoscopes);
+
+        return {
+            sign: formatSignName(this.getSign()),
+            date: this.formatDisplayDate(),
+            content: getHoroscopeReading(dataset, this.getSign(), this.getDateKey()),
+        };
+    }
+
+    protected getText(): string {
+        return getRandomText('horoscope', this.getTemplateVariables(), this.locale);
+    }
+
+    protected getPercent(): number {
+        return getSignProgress(this.getSign(), this.today);
+    }
+
+    protected getHashtags(): string[] {
+        return getHashtags('horoscope', this.locale);
+    }
+
+    override getCurrentIdentifier(): string {
+        return `${this.getSign()}_${this.getDateKey()}`;
+    }
+
+    protected override getAdditionalMetadata(): Record<string, unknown> {
+        return {
+            sign: this.getSign(),
+            date: this.getDateKey(),
+            season: this.season.sign,
+            dayOfSeason: this.season.dayOfSeason,
+        };
+    }
+
+    override createState(): StateData {
+        return {
+            ...createInitialState(this.contentType, this.getCurrentIdentifier()),
+            sign: this.getSign(),
+            date: this.getDateKey(),
+        };
+    }
+
+    override shouldGenerate(lastState: StateData | null): Promise<boolean> {
+        // No previous state - should generate
+        if (!lastState) {
+            logger.info('No previous state - should generate');
+            return Promise.resolve(true);
+        }
+
+        // Different content type - should generate
+        if (lastState.contentType !== this.contentType) {
+            logger.info('Different content type - should generate');
+            return Promise.resolve(true);
+        }
+
+        // Different date or sign - should generate
+        const shouldGenerate = lastState.lastValue !== this.getCurrentIdentifier();
+
+        logger.info('Checked if should generate', {
+            lastValue: lastState.lastValue,
+            sign: this.getSign(),
+            date: this.getDateKey(),
+            shouldGenerate,
+        });
+
+        return Promise.resolve(shouldGenerate);
+    }
+
+    /**
+     * Format the current date for templates in the active locale (e.g., 'October 19')
+     */
+    private formatDisplayDate(): string {
+        const date = new Date(Date.UTC(this.today.year, this.today.month - 1, this.today.day));
+        return new Intl.DateTimeFormat(this.locale, {
+            timeZone: 'UTC',
+            month: 'long',
+            day: 'numeric',
+        }).format(date);
+    }
+}
+
+/**
+ * Factory function to create a HoroscopeGenerator instance
+ */
+export function createHoroscopeGenerator(options?: HoroscopeGeneratorOptions): HoroscopeGenerator {
+    return new HoroscopeGenerator(options);
+}
+
+registerGenerator('horoscope', (config) =>
+    createHoroscopeGenerator({
+        sign: config.horoscope.sign,
+        dataset: config.horoscope.dataset,
+        timezone: config.app.timezone,
+    })
+);
+
+registerTextVariables('horoscope', ['sign', 'date', 'content']);
@@ -0,0 +1,30 @@
+// In-repo generators register themselves with the registry when imported
+import './year-progress-generator.js';
+import './horoscope-generator.js';
+import './quote-generator.js';
+import './countdown-generator.js';
+import './month-progress-generator.js';
+import './quarter-progress-generator.js';
+import './week-progress-generator.js';
+
+export {
+    registerGenerator,
+    unregisterGenerator,
+    hasGenerator,
+    getRegisteredContentTypes,
+    createGenerator,
+    loadGeneratorModules,
+} from './registry.js';
+export type { GeneratorFactory } from './registry.js';
+export { BaseContentGenerator } from './base-generator.js';
+export { YearProgressGenerator, createYearProgressGenerator } from './year-progress-generator.js';
+export { HoroscopeGenerator, createHoroscopeGenerator } from './horoscope-generator.js';
+export { QuoteGenerator, createQuoteGenerator } from './quote-generator.js';
+export { CountdownGenerator, createCountdownGenerator } from './countdown-generator.js';
+export { CalendarPeriodGenerator } from './calendar-period-generator.js';
+export { MonthProgressGenerator, createMonthProgressGenerator } from './month-progress-generator.js';
+export {
+    QuarterProgressGenerator,
+    createQuarterProgressGenerator,
+} from './quarter-progress-generator.js';
+export { WeekProgressGenerator, createWeekProgressGenerator } from './week-progress-generator.js';
@@ -0,0 +1,57 @@
+import type { MonthProgress } from '../types/index.js';
+import {
+    CalendarPeriodGenerator,
+    PERIOD_VARIABLES,
+    type CalendarPeriodGeneratorOptions,
+} from './calendar-period-generator.js';
+import { registerGenerator } from './registry.js';
+import { calculateMonthProgress, formatDateKey } from '../utils/progress-calculator.js';
+import { formatMonthName } from '../utils/locale.js';
+import { registerTextVariables } from '../utils/text-variables.js';
+
+/**
+ * Month Progress Content Generator
+ * Posts once per day with the percentage of the current month completed
+ */
+export class MonthProgressGenerator extends CalendarPeriodGenerator<MonthProgress> {
+    readonly contentType = 'month-progress';
+    protected readonly textKey = 'monthProgress';
+
+    protected calculate(date: Date): MonthProgress {
+        return calculateMonthProgress(date, this.timezone);
+    }
+
+    protected getPeriodVariables(): Record<string, string | number> {
+        return {
+            year: this.progress.year,
+            month: this.progress.month,
+            monthName: formatMonthName(this.progress.month, this.locale),
+        };
+    }
+
+    /**
+     * One post per day: identified by the current date
+     */
+    override getCurrentIdentifier(): string {
+        return formatDateKey({
+            year: this.progress.year,
+            month: this.progress.month,
+            day: this.progress.dayOfPeriod,
+        });
+    }
+}
+
+/**
+ * Factory function to create a MonthProgressGenerator instance
+ */
+export function createMonthProgressGenerator(
+    options?: CalendarPeriodGeneratorOptions
+): MonthProgressGenerator {
+    return new MonthProgressGenerator(options);
+}
+
+registerGenerator('month-progress', (config) =>
+    createMonthProgressGenerator({ timezone: config.app.timezone })
+);
+
+registerTextVariables('monthProgress', [...PERIOD_VARIABLES, 'year', 'month', 'monthName']);
@@ -0,0 +1,51 @@
+import type { QuarterProgress } from '../types/index.js';
+import {
+    CalendarPeriodGenerator,
+    PERIOD_VARIABLES,
+    type CalendarPeriodGeneratorOptions,
+} from './calendar-period-generator.js';
+import { registerGenerator } from './registry.js';
+import { calculateQuarterProgress } from '../utils/progress-calculator.js';
+import { registerTextVariables } from '../utils/text-variables.js';
+
+/**
+ * Quarter Progress Content Generator
+ * Posts whenever the integer percentage of the current quarter changes
+ */
+export class QuarterProgressGenerator extends CalendarPeriodGenerator<QuarterProgress> {
+    readonly contentType = 'quarter-progress';
+    protected readonly textKey = 'quarterProgress';
+
+    protected calculate(date: Date): QuarterProgress {
+        return calculateQuarterProgress(date, this.timezone);
+    }
+
+    protected getPeriodVariables(): Record<string, string | number> {
+        return {
+            year: this.progress.year,
+            quarter: this.progress.quarter,
+        };
+    }
+
+    /**
+     * One post per percentage: identified by quarter and percent (e.g., '2026-Q4_20')
+     */
+    override getCurrentIdentifier(): string {
+        return `${this.progress.year}-Q${this.progress.quarter}_${this.progress.percent}`;
+    }
+}
+
+/**
+ * Factory function to create a QuarterProgressGenerator instance
+ */
+export function createQuarterProgressGenerator(
+    options?: CalendarPeriodGeneratorOptions
+): QuarterProgressGenerator {
+    return new QuarterProgressGenerator(options);
+}
+
+registerGenerator('quarter-progress', (config) =>
+    createQuarterProgressGenerator({ timezone: config.app.timezone })
+);
+
+registerTextVariables('quarterProgress', [...PERIOD_VARIABLES, 'year', 'quarter']);
@@ -0,0 +1,159 @@
+import type { Quote, QuoteRotation, StateData, YearProgress } from '../types/index.js';
+import { BaseContentGenerator } from './base-generator.js';
+import { registerGenerator } from './registry.js';
+import {
+    calculateYearProgress,
+    formatDateKey,
+    getZonedDateParts,
+} from '../utils/progress-calculator.js';
+import { getNextRotation, getQuoteAt, getRotationFromState, loadQuotes } from '../utils/quotes.js';
+import { getRandomText, getHashtags } from '../utils/asset-picker.js';
+import { registerTextVariables } from '../utils/text-variables.js';
+import { createInitialState } from '../utils/state-manager.js';
+import { logger } from '../utils/logger.js';
+import type { TemplateVariables } from '../utils/template-engine.js';
+import { ASSET_PATHS } from '../config/index.js';
+
+/**
+ * Options for the quote generator
+ */
+export interface QuoteGeneratorOptions {
+    /** Quotes file (relative to project root) */
+    dataset?: string;
+    /** Whether to draw the year progress bar (defaults to true) */
+    showProgress?: boolean;
+    /** Timezone (IANA format) used to decide the current date */
+    timezone?: string;
+    /** Date to generate for (defaults to now) */
+    date?: Date;
+}
+
+/**
+ * Quote of the Day Content Generator
+ * Rotates through a local quotes file without repeats until every quote has been used
+ */
+export class QuoteGenerator extends BaseContentGenerator {
+    readonly contentType = 'quote';
+
+    private readonly options: QuoteGeneratorOptions;
+    private readonly quotes: Quote[];
+    private readonly dateKey: string;
+    private readonly yearProgress: YearProgress;
+
+    constructor(options: QuoteGeneratorOptions = {}) {
+        super();
+        const date = options.date ?? new Date();
+        this.options = options;
+        this.quotes = loadQuotes(options.dataset ?? ASSET_PATHS.quotes);
+        this.dateKey = formatDateKey(getZonedDateParts(date, options.timezone));
+        this.yearProgress = calculateYearProgress(date, options.timezone);
+    }
+
+    /**
+     * Quote that follows the last posted one
+     *
+     * @param lastState - State of the last post (null to start the rotation)
+     */
+    getQuote(lastState: StateData | null = null): Quote {
+        return getQuoteAt(this.quotes, this.getRotation(lastState));
+    }
+
+    /**
+     * Rotation position that follows the last posted one
+     *
+     * @param lastState - State of the last post (null to start the rotation)
+     */
+    getRotation(lastState: StateData | null = null): QuoteRotation {
+        return getNextRotation(
+            getRotationFromState(lastState, this.contentType),
+            this.quotes.length
+        );
+    }
+
+    protected override getTemplateVariables(): TemplateVariables {
+        const quote = this.getQuote(this.lastState);
+        return { quote: quote.text, author: quote.author };
+    }
+
+    protected getText(): string {
+        return getRandomText('quote', this.getTemplateVariables(), this.locale);
+    }
+
+    protected getPercent(): number {
+        return this.yearProgress.percent;
+    }
+
+    protected override showProgressBar(): boolean {
+        return this.options.showProgress ?? true;
+    }
+
+    protected getHashtags(): string[] {
+        return getHashtags('quote', this.locale);
+    }
+
+    override getCurrentIdentifier(): string {
+        return this.dateKey;
+    }
+
+    protected override getAdditionalMetadata(): Record<string, unknown> {
+        const rotation = this.getRotation(this.lastState);
+        return {
+            author: this.getQuote(this.lastState).author,
+            quotePosition: rotation.position,
+            quoteCycle: rotation.cycle,
+            poolSize: this.quotes.length,
+        };
+    }
+
+    override createState(lastState: StateData | null = null): StateData {
+        const rotation = this.getRotation(lastState);
+        return {
+            ...createInitialState(this.contentType, this.getCurrentIdentifier()),
+            quotePosition: rotation.position,
+            quoteCycle: rotation.cycle,
+        };
+    }
+
+    override shouldGenerate(lastState: StateData | null): Promise<boolean> {
+        // No previous state - should generate
+        if (!lastState) {
+            logger.info('No previous state - should generate');
+            return Promise.resolve(true);
+        }
+
+        // Different content type - should generate
+        if (lastState.contentType !== this.contentType) {
+            logger.info('Different content type - should generate');
+            return Promise.resolve(true);
+        }
+
+        // New day - should generate
+        const shouldGenerate = lastState.lastValue !== this.dateKey;
+
+        logger.info('Checked if should generate', {
+            lastDate: lastState.lastValue,
+            currentDate: this.dateKey,
+            rotation: this.getRotation(lastState),
+            shouldGenerate,
+        });
+
+        return Promise.resolve(shouldGenerate);
+    }
+}
+
+/**
+ * Factory function to create a QuoteGenerator instance
+ */
+export function createQuoteGenerator(options?: QuoteGeneratorOptions): QuoteGenerator {
+    return new QuoteGenerator(options);
+}
+
+registerGenerator('quote', (config) =>
+    createQuoteGenerator({
+        dataset: config.quote.dataset,
+        showProgress: config.quote.showProgress,
+        timezone: config.app.timezone,
+    })
+);
+
+registerTextVariables('quote', ['quote', 'author']);
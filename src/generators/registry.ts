@@ -0,0 +1,103 @@
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type { AppConfig, ContentGenerator } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Factory that builds a content generator from the application configuration
+ */
+export type GeneratorFactory = (config: AppConfig) => ContentGenerator;
+
+const factories = new Map<string, GeneratorFactory>();
+
+/**
+ * Register a content generator under its content type
+ *
+ * @param contentType - Content type the generator produces (matches CONTENT_TYPE)
+ * @param factory - Factory creating the generator
+ * @throws Error if the content type is already registered
+ */
+export function registerGenerator(contentType: string, factory: GeneratorFactory): void {
+    if (factories.has(contentType)) {
+        throw new Error(`Generator already registered for content type: ${contentType}`);
+    }
+
+    factories.set(contentType, factory);
+    logger.debug('Registered content generator', { contentType });
+}
+
+/**
+ * Remove a registered generator (mainly useful for tests)
+ */
+export function unregisterGenerator(contentType: string): void {
+    factories.delete(contentType);
+}
+
+/**
+ * Check whether a generator is registered for a content type
+ */
+export function hasGenerator(contentType: string): boolean {
+    return factories.has(contentType);
+}
+
+/**
+ * Get all registered content types
+ */
+export function getRegisteredContentTypes(): string[] {
+    return [...factories.keys()].sort();
+}
+
+/**
+ * Create the generator for the configured content type
+ *
+ * @param config - Application configuration (uses config.app.contentType)
+ * @returns Content generator instance
+ * @throws Error if no generator is registered for the content type
+ */
+export function createGenerator(config: AppConfig): ContentGenerator {
+    const contentType = config.app.contentType;
+    const factory = factories.get(contentType);
+
+    if (!factory) {
+        const available = getRegisteredContentTypes();
+        throw new Error(
+            `Unknown content type: "${contentType}". Registered content types: ${
+                available.length > 0 ? available.join(', ') : '(none)'
+            }`
+        );
+    }
+
+    const generator = factory(config);
+
+    if (generator.contentType !== contentType) {
+        throw new Error(
+            `Generator registered for "${contentType}" reports content type "${generator.contentType}"`
+        );
+    }
+
+    return generator;
+}
+
+/**
+ * Import external generator modules so they can register themselves
+ *
+ * Relative paths are resolved against the current working directory;
+ * anything else is treated as a package specifier.
+ *
+ * @param specifiers - Module paths or package names
+ */
+export async function loadGeneratorModules(specifiers: string[]): Promise<void> {
+    for (const specifier of specifiers) {
+        const target = specifier.startsWith('.') || path.isAbsolute(specifier)
+            ? pathToFileURL(path.resolve(process.cwd(), specifier)).href
+            : specifier;
+
+        try {
+            await import(target);
+            logger.info('Loaded generator module', { module: specifier });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`Failed to load generator module "${specifier}": ${message}`);
+        }
+    }
+}
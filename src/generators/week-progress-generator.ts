@@ -0,0 +1,52 @@
+import type { WeekProgress } from '../types/index.js';
+import {
+    CalendarPeriodGenerator,
+    PERIOD_VARIABLES,
+    type CalendarPeriodGeneratorOptions,
+} from './calendar-period-generator.js';
+import { registerGenerator } from './registry.js';
+import { calculateWeekProgress } from '../utils/progress-calculator.js';
+import { registerTextVariables } from '../utils/text-variables.js';
+
+/**
+ * ISO Week Progress Content Generator
+ * Posts once per day with the percentage of the current ISO week completed
+ */
+export class WeekProgressGenerator extends CalendarPeriodGenerator<WeekProgress> {
+    readonly contentType = 'week-progress';
+    protected readonly textKey = 'weekProgress';
+
+    protected calculate(date: Date): WeekProgress {
+        return calculateWeekProgress(date, this.timezone);
+    }
+
+    protected getPeriodVariables(): Record<string, string | number> {
+        return {
+            year: this.progress.isoYear,
+            week: this.progress.week,
+        };
+    }
+
+    /**
+     * One post per day: identified by ISO week and weekday (e.g., '2026-W43-1')
+     */
+    override getCurrentIdentifier(): string {
+        const week = this.progress.week.toString().padStart(2, '0');
+        return `${this.progress.isoYear}-W${week}-${this.progress.dayOfPeriod}`;
+    }
+}
+
+/**
+ * Factory function to create a WeekProgressGenerator instance
+ */
+export function createWeekProgressGenerator(
+    options?: CalendarPeriodGeneratorOptions
+): WeekProgressGenerator {
+    return new WeekProgressGenerator(options);
+}
+
+registerGenerator('week-progress', (config) =>
+    createWeekProgressGenerator({ timezone: config.app.timezone })
+);
+
+registerTextVariables('weekProgress', [...PERIOD_VARIABLES, 'year', 'week']);
@@ -1,8 +1,63 @@
-import type { StateData } from '../types/index.js';
+import type {
+    CalendarYearProgress,
+    DayCount,
+    HolidayDefinition,
+    NamedPeriodProgress,
+    PeriodDefinition,
+    PostGranularity,
+    ProgressStatistics,
+    StateData,
+    YearMilestone,
+    YearProgress,
+} from '../types/index.js';
 import { BaseContentGenerator } from './base-generator.js';
-import { calculateYearProgress } from '../utils/progress-calculator.js';
+import { registerGenerator } from './registry.js';
+import {
+    calculatePeriodProgress,
+    calculateYearProgress,
+    parseDateKey,
+} from '../utils/progress-calculator.js';
+import { findPeriod, loadPeriods } from '../utils/periods.js';
+import { calculateCalendarYearProgress, getCalendarDateNames } from '../utils/calendar-progress.js';
+import {
+    YEAR_MILESTONES,
+    getMilestoneTextKey,
+    getYearMilestone,
+    isForcedMilestone,
+} from '../utils/milestones.js';
+import { getGranularityValue } from '../utils/precision.js';
+import { formatMonthName, getPercentVariables } from '../utils/locale.js';
+import { calculateProgressStatistics } from '../utils/statistics.js';
+import { loadHolidays } from '../utils/holidays.js';
 import { getRandomText, getHashtags } from '../utils/asset-picker.js';
+import { registerTextVariables } from '../utils/text-variables.js';
 import { logger } from '../utils/logger.js';
+import type { TemplateVariables } from '../utils/template-engine.js';
+import { createInitialState } from '../utils/state-manager.js';
+
+/**
+ * Options for the year progress generator
+ */
+export interface YearProgressGeneratorOptions {
+    /** Named period to measure instead of the calendar year (e.g., a fiscal year) */
+    period?: PeriodDefinition;
+    /** Calendar to count the year in (Unicode identifier, defaults to 'gregory') */
+    calendar?: string;
+    /** Timezone (IANA format) used to decide the current date */
+    timezone?: string;
+    /** Date to generate for (defaults to now) */
+    date?: Date;
+    /** Whether milestone days of the calendar year get special editions (defaults to true) */
+    milestones?: boolean;
+    /** Decimal places shown in the percent (defaults to 0) */
+    precision?: number;
+    /** How often to post (defaults to once per integer percent) */
+    granularity?: PostGranularity;
+    /** Holidays excluded from the workdays-left count */
+    holidays?: HolidayDefinition[];
+}
+
+type Progress = YearProgress | NamedPeriodProgress | CalendarYearProgress;
 
 /**
  * Year Progress Content Generator
@@ -11,24 +66,93 @@ import { logger } from '../utils/logger.js';
 export class YearProgressGenerator extends BaseContentGenerator {
     readonly contentType = 'year-progress';
 
-    private yearProgress = calculateYearProgress();
+    private readonly period?: PeriodDefinition;
+    private readonly calendar?: string;
+    private readonly timezone?: string;
+    private readonly milestones: boolean;
+    private readonly precision: number;
+    private readonly granularity: PostGranularity;
+    private readonly holidays: HolidayDefinition[];
+    private yearProgress: Progress;
+    private milestone: YearMilestone | null;
+    private statistics: ProgressStatistics;
+
+    constructor(options: YearProgressGeneratorOptions = {}) {
+        super();
+        this.period = options.period;
+        this.calendar = options.calendar === 'gregory' ? undefined : options.calendar;
+        this.timezone = options.timezone;
+        this.milestones = options.milestones ?? true;
+        this.precision = options.precision ?? 0;
+        this.granularity = options.granularity ?? 'percent';
+        this.holidays = options.holidays ?? [];
+
+        const date = options.date ?? new Date();
+        this.yearProgress = this.calculate(date);
+        this.milestone = this.findMilestone();
+        this.statistics = this.calculateStatistics(date);
+    }
 
     /**
      * Recalculate year progress (useful if instance is long-lived)
      */
     refresh(): void {
-        this.yearProgress = calculateYearProgress();
+        const date = new Date();
+        this.yearProgress = this.calculate(date);
+        this.milestone = this.findMilestone();
+        this.statistics = this.calculateStatistics(date);
     }
 
-    protected getText(): string {
-        const daysLeft = this.yearProgress.totalDays - this.yearProgress.dayOfYear;
-        const mainText = getRandomText('yearProgress', {
-            percent: this.yearProgress.percent,
+    /**
+     * Time-left statistics for the current year or period
+     */
+    getStatistics(): ProgressStatistics {
+        return { ...this.statistics };
+    }
+
+    /**
+     * Milestone of the current day, or null for an ordinary day
+     */
+    override getMilestone(): YearMilestone | null {
+        return this.milestone;
+    }
+
+    /**
+     * Calendar name and month and year names of the other calendar, in the post locale
+     */
+    private getCalendarVariables(progress: CalendarYearProgress): TemplateVariables {
+        const names = getCalendarDateNames(
+            progress.calendar,
+            new Date(progress.date),
+            this.timezone,
+            this.locale
+        );
+        return {
+            calendarName: progress.calendarName,
+            monthName: names.monthName,
+            yearName: names.yearName ?? '',
+        };
+    }
+
+    protected override getTemplateVariables(): TemplateVariables {
+        return {
+            ...getPercentVariables(this.yearProgress.percent, this.locale, this.precision),
             year: this.yearProgress.year,
             dayOfYear: this.yearProgress.dayOfYear,
-        });
+            totalDays: this.yearProgress.totalDays,
+            ...this.statistics,
+            monthName: formatMonthName(this.statistics.month, this.locale),
+            ...(this.period && { label: this.period.label }),
+            ...('calendar' in this.yearProgress && this.getCalendarVariables(this.yearProgress)),
+        };
+    }
 
-        return `${mainText}\n${daysLeft} days left`;
+    protected getText(): string {
+        const variables = this.getTemplateVariables();
+        const mainText = getRandomText(this.getTextKey(), variables, this.locale);
+        const subtitle = getRandomText('yearSubtitle', variables, this.locale);
+
+        return `${mainText}\n${subtitle}`;
     }
 
     protected getPercent(): number {
@@ -36,11 +160,23 @@ export class YearProgressGenerator extends BaseContentGenerator {
     }
 
     protected getHashtags(): string[] {
-        return getHashtags('yearProgress');
+        return getHashtags(this.getTextKey(), this.locale);
+    }
+
+    protected override isCelebration(): boolean {
+        return this.milestone !== null;
+    }
+
+    protected override getPrecision(): number {
+        return this.precision;
+    }
+
+    protected override getDayCount(): DayCount {
+        return { day: this.yearProgress.dayOfYear, total: this.yearProgress.totalDays };
     }
 
     override getCurrentIdentifier(): number {
-        return this.yearProgress.percent;
+        return getGranularityValue(this.yearProgress, this.granularity);
     }
 
     protected override getAdditionalMetadata(): Record<string, unknown> {
@@ -49,10 +185,38 @@ export class YearProgressGenerator extends BaseContentGenerator {
             dayOfYear: this.yearProgress.dayOfYear,
             totalDays: this.yearProgress.totalDays,
             isLeapYear: this.yearProgress.isLeapYear,
+            ...(this.period && { period: this.period.name }),
+            ...(this.calendar !== undefined && { calendar: this.calendar }),
+            ...(this.milestone !== null && { milestone: this.milestone }),
+            ...(this.granularity !== 'percent' && { granularity: this.granularity }),
+        };
+    }
+
+    override createState(): StateData {
+        return {
+            ...createInitialState(
+                this.contentType,
+                this.getCurrentIdentifier(),
+                this.yearProgress.year
+            ),
+            dayOfYear: this.yearProgress.dayOfYear,
+            ...(this.period && { period: this.period.name }),
+            ...(this.calendar !== undefined && { calendar: this.calendar }),
+            ...(this.granularity !== 'percent' && { granularity: this.granularity }),
         };
     }
 
     override async shouldGenerate(lastState: StateData | null): Promise<boolean> {
+        // Outside the configured period - nothing to post
+        if ('isActive' in this.yearProgress && !this.yearProgress.isActive) {
+            logger.info('Outside the configured period - should not generate', {
+                period: this.yearProgress.period,
+                startDate: this.yearProgress.startDate,
+                endDate: this.yearProgress.endDate,
+            });
+            return false;
+        }
+
         // No previous state - should generate
         if (!lastState) {
             logger.info('No previous state - should generate');
@@ -65,6 +229,33 @@ export class YearProgressGenerator extends BaseContentGenerator {
             return true;
         }
 
+        // Different period - should generate
+        if (lastState.period !== this.period?.name) {
+            logger.info('Different period - should generate', {
+                lastPeriod: lastState.period,
+                currentPeriod: this.period?.name,
+            });
+            return true;
+        }
+
+        // Different calendar - should generate
+        if (lastState.calendar !== this.calendar) {
+            logger.info('Different calendar - should generate', {
+                lastCalendar: lastState.calendar,
+                currentCalendar: this.calendar,
+            });
+            return true;
+        }
+
+        // Different granularity - should generate
+        if ((lastState.granularity ?? 'percent') !== this.granularity) {
+            logger.info('Different granularity - should generate', {
+                lastGranularity: lastState.granularity,
+                currentGranularity: this.granularity,
+            });
+            return true;
+        }
+
         // New year - should generate
         if (lastState.year !== this.yearProgress.year) {
             logger.info('New year detected - should generate', {
@@ -74,12 +265,26 @@ export class YearProgressGenerator extends BaseContentGenerator {
             return true;
         }
 
-        // Different percentage - should generate
-        const shouldGenerate = lastState.lastValue !== this.yearProgress.percent;
+        // First and last day of the year - post even if the percent is unchanged
+        if (
+            isForcedMilestone(this.milestone) &&
+            lastState.dayOfYear !== this.yearProgress.dayOfYear
+        ) {
+            logger.info('Milestone day - should generate', {
+                milestone: this.milestone,
+                dayOfYear: this.yearProgress.dayOfYear,
+            });
+            return true;
+        }
+
+        // Different percentage (or day / step, depending on granularity) - should generate
+        const identifier = this.getCurrentIdentifier();
+        const shouldGenerate = lastState.lastValue !== identifier;
 
         logger.info('Checked if should generate', {
-            lastPercent: lastState.lastValue,
-            currentPercent: this.yearProgress.percent,
+            lastValue: lastState.lastValue,
+            currentValue: identifier,
+            granularity: this.granularity,
             shouldGenerate,
         });
 
@@ -92,11 +297,97 @@ export class YearProgressGenerator extends BaseContentGenerator {
     getYearProgress(): typeof this.yearProgress {
         return { ...this.yearProgress };
     }
+
+    /**
+     * Templates for the calendar year, a milestone, a named period or a non-Gregorian calendar
+     */
+    private getTextKey(): string {
+        if (this.milestone !== null) return getMilestoneTextKey(this.milestone);
+        if (this.period) return 'periodProgress';
+        if (this.calendar !== undefined) return 'calendarProgress';
+        return 'yearProgress';
+    }
+
+    /**
+     * Milestones only apply to the Gregorian calendar year
+     */
+    private findMilestone(): YearMilestone | null {
+        if (!this.milestones || this.period || this.calendar !== undefined) return null;
+        return getYearMilestone(this.yearProgress);
+    }
+
+    /**
+     * Statistics up to the end of the year, period or calendar year
+     */
+    private calculateStatistics(date: Date): ProgressStatistics {
+        const end = 'endDate' in this.yearProgress
+            ? parseDateKey(this.yearProgress.endDate)
+            : { year: this.yearProgress.year, month: 12, day: 31 };
+        return calculateProgressStatistics(end, date, this.timezone, this.holidays);
+    }
+
+    private calculate(date: Date): Progress {
+        if (this.period) {
+            return calculatePeriodProgress(this.period, date, this.timezone, this.precision);
+        }
+        if (this.calendar !== undefined) {
+            return calculateCalendarYearProgress(
+                this.calendar,
+                date,
+                this.timezone,
+                this.precision
+            );
+        }
+        return calculateYearProgress(date, this.timezone, this.precision);
+    }
 }
 
 /**
  * Factory function to create a YearProgressGenerator instance
  */
-export function createYearProgressGenerator(): YearProgressGenerator {
-    return new YearProgressGenerator();
+export function createYearProgressGenerator(
+    options?: YearProgressGeneratorOptions
+): YearProgressGenerator {
+    return new YearProgressGenerator(options);
+}
+
+registerGenerator('year-progress', (config) => {
+    const periodName = config.yearProgress.period;
+    return createYearProgressGenerator({
+        period:
+            periodName === undefined
+                ? undefined
+                : findPeriod(loadPeriods(config.yearProgress.periodsFile), periodName),
+        calendar: config.yearProgress.calendar,
+        timezone: config.app.timezone,
+        milestones: config.yearProgress.milestones,
+        precision: config.yearProgress.precision,
+        granularity: config.yearProgress.granularity,
+        holidays: loadHolidays(config.yearProgress.holidaysFile),
+    });
+});
+
+/** Variables of the year templates, also used by the subtitle and the milestone editions */
+const YEAR_VARIABLES = [
+    'percent',
+    'percentLabel',
+    'year',
+    'dayOfYear',
+    'totalDays',
+    'daysLeft',
+    'weeksLeft',
+    'weekendsLeft',
+    'workdaysLeft',
+    'hoursLeft',
+    'quarter',
+    'month',
+    'monthName',
+];
+
+registerTextVariables('yearProgress', YEAR_VARIABLES);
+registerTextVariables('yearSubtitle', YEAR_VARIABLES);
+for (const milestone of YEAR_MILESTONES) {
+    registerTextVariables(getMilestoneTextKey(milestone), YEAR_VARIABLES);
 }
+registerTextVariables('periodProgress', [...YEAR_VARIABLES, 'label']);
+registerTextVariables('calendarProgress', [...YEAR_VARIABLES, 'calendarName', 'yearName']);
@@ -2,9 +2,10 @@ import dotenv from 'dotenv';
 import { logger } from './utils/logger.js';
 import { getConfig, isDryRun } from './config/index.js';
 import { validateAssets } from './utils/asset-picker.js';
-import { getLastPosted, updateLastPosted, createInitialState } from './utils/state-manager.js';
-import { YearProgressGenerator } from './generators/year-progress-generator.js';
-import { uploadToAllPlatforms } from './upload/index.js';
+import { groupPlatformsByLocale } from './utils/locale.js';
+import { getLastPosted, updateLastPosted } from './utils/state-manager.js';
+import { createGenerator, loadGeneratorModules } from './generators/index.js';
+import { createUploadOrchestrator } from './upload/index.js';
 import { cleanupVideo } from './render/index.js';
 
 // Load environment variables
@@ -22,9 +23,10 @@ async function main(): Promise<void> {
         logger.info('Validating environment...');
         const config = getConfig();
 
-        // Step 2: Validate assets
+        // Step 2: Validate assets (generator modules first: they declare their text variables)
+        await loadGeneratorModules(config.app.generatorModules);
         logger.info('Validating assets...');
-        const assetValidation = validateAssets();
+        const assetValidation = validateAssets(config.app.theme, config.app.scene);
 
         if (!assetValidation.valid) {
             logger.error('Asset validation failed', { errors: assetValidation.errors });
@@ -33,10 +35,13 @@ async function main(): Promise<void> {
 
         logger.info('Assets validated', { assets: assetValidation.assets });
 
-        // Step 3: Initialize content generator
-        const generator = new YearProgressGenerator();
-        const yearProgress = generator.getYearProgress();
-        logger.info('Year progress calculated', yearProgress as unknown as Record<string, unknown>);
+        // Step 3: Resolve content generator for the configured content type
+        const generator = createGenerator(config);
+        const identifier = generator.getCurrentIdentifier();
+        logger.info('Content generator resolved', {
+            contentType: generator.contentType,
+            identifier,
+        });
 
         // Step 5: Check if we should generate new content
         const lastState = await getLastPosted(config.gist.id, config.gist.token);
@@ -44,57 +49,84 @@ async function main(): Promise<void> {
         const isForced = process.env.FORCE_POST === 'true';
 
         if (!shouldGenerate && !isForced) {
-            logger.info('Already posted for this percentage - skipping', {
-                percent: yearProgress.percent,
+            logger.info('Already posted for this identifier - skipping', {
+                contentType: generator.contentType,
+                identifier,
             });
             logSummary(startTime, false, 'skipped');
             return;
         }
 
-        // Step 6: Generate content
-        logger.info('Generating video...');
-        const content = await generator.generate();
-        logger.info('Video generated', {
-            videoPath: content.videoPath,
-            caption: content.caption,
-        });
-
-        // Step 7: Check dry run mode
-        if (isDryRun()) {
-            logger.info('DRY RUN MODE - Video generated but skipping upload and state update', {
-                percent: yearProgress.percent,
-                year: yearProgress.year,
+        // Step 6: Generate one video per locale (platforms can post in different languages)
+        const orchestrator = createUploadOrchestrator();
+        const localeGroups = groupPlatformsByLocale(
+            orchestrator.getPlatforms(),
+            config.app.locale,
+            config.app.platformLocales
+        );
+        let uploaded = false;
+
+        for (const [locale, platforms] of localeGroups) {
+            logger.info('Generating video...', { locale, platforms });
+            const content = await generator.generate({
+                locale,
+                lastState,
+                theme: config.app.theme,
+                layout: config.app.progressLayout,
+                scene: config.app.scene,
+                animation: config.app.animation,
+                counter: config.app.progressCounter,
+                background: config.app.background,
+            });
+            logger.info('Video generated', {
+                locale,
                 videoPath: content.videoPath,
+                caption: content.caption,
             });
+
+            // Step 7: Check dry run mode
+            if (isDryRun()) {
+                logger.info('DRY RUN MODE - Video generated but skipping upload', {
+                    contentType: generator.contentType,
+                    identifier,
+                    locale,
+                    videoPath: content.videoPath,
+                });
+                continue;
+            }
+
+            // Step 8: Upload to the platforms of this locale
+            logger.info('Uploading to platforms...', { locale, platforms });
+            const fullCaption = formatCaptionWithHashtags(content.caption, content.hashtags);
+            const uploadResults = await orchestrator.uploadTo(
+                content.videoPath,
+                fullCaption,
+                platforms,
+                { dryRun: isDryRun() }
+            );
+            uploaded = uploaded || uploadResults.success;
+
+            // Step 9: Cleanup video file
+            cleanupVideo(content.videoPath);
+        }
+
+        if (isDryRun()) {
+            logger.info('DRY RUN MODE - Skipping state update');
             logSummary(startTime, true, 'dry-run');
             return;
         }
 
-        // Step 8: Upload to all platforms
-        logger.info('Uploading to platforms...');
-        const fullCaption = formatCaptionWithHashtags(content.caption, content.hashtags);
-        const uploadResults = await uploadToAllPlatforms(content.videoPath, fullCaption, {
-            dryRun: isDryRun(),
-        });
-
-        // Step 8: Update state if at least one upload succeeded
-        if (uploadResults.success) {
-            const newState = createInitialState(
-                generator.contentType,
-                yearProgress.percent,
-                yearProgress.year
-            );
+        // Step 10: Update state if at least one upload succeeded
+        if (uploaded) {
+            const newState = generator.createState(lastState);
             await updateLastPosted(config.gist.id, config.gist.token, newState);
             logger.info('State updated successfully');
         } else {
             logger.error('All uploads failed - not updating state');
         }
 
-        // Step 9: Cleanup video file
-        cleanupVideo(content.videoPath);
-
-        // Step 10: Log summary
-        logSummary(startTime, uploadResults.success, 'completed');
+        // Step 11: Log summary
+        logSummary(startTime, uploaded, 'completed');
     } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         logger.error('Fatal error in main process', {
@@ -0,0 +1,103 @@
+import type { BackgroundSettings, RenderConfig } from '../types/index.js';
+import type { Bounds } from './text-layout.js';
+
+/** Angle between the pan directions of successive slides (the golden angle, in radians) */
+const PAN_ANGLE_STEP = Math.PI * (3 - Math.sqrt(5));
+
+/**
+ * A slide of the slideshow on a frame
+ */
+export interface VisibleSlide {
+    /** Index of the image */
+    index: number;
+    opacity: number;
+    /** Progress (0-1) of the slide's Ken Burns move */
+    motion: number;
+}
+
+/**
+ * Apply background settings for a single render over the theme's
+ *
+ * @param base - Theme background settings
+ * @param overrides - Values to replace (unset values are kept)
+ */
+export function mergeBackground(
+    base: BackgroundSettings,
+    overrides: Partial<BackgroundSettings> = {}
+): BackgroundSettings {
+    return {
+        filters: overrides.filters ?? base.filters,
+        motion: overrides.motion ?? base.motion,
+        zoom: overrides.zoom ?? base.zoom,
+        slides: overrides.slides ?? base.slides,
+        crossfade: overrides.crossfade ?? base.crossfade,
+    };
+}
+
+/**
+ * Slides shown at a time: each image gets an equal share of the video and crossfades
+ * into the next at the end of its share, drawn bottom first
+ *
+ * @param time - Seconds from the start of the video
+ * @param duration - Video duration in seconds
+ * @param count - Number of images
+ * @param crossfade - Seconds each crossfade takes (capped at the length of a slide)
+ */
+export function getVisibleSlides(
+    time: number,
+    duration: number,
+    count: number,
+    crossfade: number
+): VisibleSlide[] {
+    const length = duration / count;
+    const fade = Math.min(crossfade, length);
+    const index = Math.min(Math.max(Math.floor(time / length), 0), count - 1);
+    const motion = (i: number): number =>
+        Math.min(Math.max((time - i * length + fade) / (length + fade), 0), 1);
+
+    const slides = [{ index, opacity: 1, motion: motion(index) }];
+    const fadeStart = (index + 1) * length - fade;
+
+    if (index < count - 1 && time > fadeStart) {
+        const opacity = fade > 0 ? Math.min((time - fadeStart) / fade, 1) : 1;
+        slides.push({ index: index + 1, opacity, motion: motion(index + 1) });
+    }
+
+    return slides;
+}
+
+/**
+ * Rectangle to draw a cover-fitted image into part way through a Ken Burns move
+ * The image zooms in around the center while panning in a direction that differs per slide,
+ * and always covers the whole canvas
+ *
+ * @param cover - Cover-fitted rectangle of the image
+ * @param config - Render configuration (canvas size)
+ * @param motion - Progress of the move (0-1)
+ * @param zoom - Zoom at the end of the move
+ * @param slide - Index of the slide (picks the pan direction)
+ */
+export function getKenBurnsRect(
+    cover: Bounds,
+    config: Pick<RenderConfig, 'width' | 'height'>,
+    motion: number,
+    zoom: number,
+    slide: number = 0
+): Bounds {
+    const scale = 1 + (zoom - 1) * motion;
+    const width = cover.width * scale;
+    const height = cover.height * scale;
+    const angle = slide * PAN_ANGLE_STEP;
+
+    // Pan from one side of the spare image to the other
+    const pan = motion * 2 - 1;
+    const spareX = (width - config.width) / 2;
+    const spareY = (height - config.height) / 2;
+
+    return {
+        x: (config.width - width) / 2 + spareX * pan * Math.cos(angle),
+        y: (config.height - height) / 2 + spareY * pan * Math.sin(angle),
+        width,
+        height,
+    };
+}
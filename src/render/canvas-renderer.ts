@@ -1,20 +1,120 @@
 import { createCanvas, registerFont, loadImage, Canvas, CanvasRenderingContext2D, Image } from 'canvas';
 import fs from 'fs';
 import path from 'path';
-import type { RenderConfig } from '../types/index.js';
+import { fileURLToPath } from 'url';
+import type {
+    AnimationTiming,
+    BackgroundFilter,
+    BackgroundSettings,
+    ContrastReport,
+    CounterPosition,
+    DayCount,
+    FontWeight,
+    ProgressLayoutName,
+    RenderConfig,
+    Scene,
+    SceneElement,
+    TextAlignment,
+    TextDirection,
+    Theme,
+} from '../types/index.js';
 import { logger } from '../utils/logger.js';
-import { RENDER_CONFIG } from '../config/index.js';
+import { DEFAULT_LOCALE, formatLocalizedPercent } from '../utils/locale.js';
+import { getEmojiSpritePath } from '../utils/asset-picker.js';
+import {
+    renderTemplate,
+    type CompiledTemplate,
+    type TemplateVariables,
+} from '../utils/template-engine.js';
+import { ASSET_PATHS, EMOJI_FONT_FAMILY, FONT_FALLBACKS, RENDER_CONFIG } from '../config/index.js';
+import {
+    clampPercent,
+    getDecimalPlaces,
+    getFramePercent,
+    getFrameProgress,
+    getFrameTiming,
+} from './timing.js';
+import {
+    getLineEntrance,
+    getLineProgress,
+    getStaggeredProgress,
+    getTextStartTime,
+    getTypedText,
+    getWordPop,
+    getWordSpans,
+    type EntranceState,
+} from './text-animation.js';
+import {
+    applyBaseDirection,
+    formatFontFamilies,
+    getFontFallbackChain,
+    getLocaleDirection,
+    getProgressBarBounds,
+    getTextPlacement,
+    layoutTextAroundBar,
+    layoutTextInBox,
+    removeTextBlockSeparators,
+    resolveTextDirection,
+    splitTextBlocks,
+    type Bounds,
+    type MeasureText,
+    type PositionedLine,
+} from './text-layout.js';
+import { getEmojiSpriteName, splitEmojiRuns, type TextRun } from './emoji.js';
+import {
+    drawCounter,
+    fillOutlinedText,
+    getDayCountFromPercent,
+    PROGRESS_LAYOUTS,
+    roundRect,
+    type ProgressFrame,
+} from './progress-layouts.js';
+import { compileSceneTemplates, fitImage, getElementState } from './scene.js';
+import { getKenBurnsRect, getVisibleSlides } from './background.js';
+import { applyFilters, isHexColor, parseCubeLut, type CubeLut } from './filters.js';
+import { chooseTextStyle, measureLuminance } from './contrast.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = path.resolve(__dirname, '../..');
 
 /**
  * Options for frame generation
  */
 export interface FrameGenerationOptions {
-    /** Path to background image */
+    /** Path to background image (the first slide of a slideshow) */
     backgroundPath: string;
+    /** Further images shown one after another after the background */
+    slideshowPaths?: string[];
+    /** Decoded frames of a video background, drawn in a loop instead of the images */
+    videoFrames?: string[];
+    /** Background motion and slideshow (defaults to the theme's) */
+    background?: BackgroundSettings;
     /** Text to display */
     text: string;
-    /** Progress percentage (0-100) */
+    /** Progress percentage (0-100, may be fractional) */
     percent: number;
+    /** Whether to draw the progress bar (defaults to true) */
+    showProgressBar?: boolean;
+    /** Whether to render celebration colors and confetti (defaults to false) */
+    celebration?: boolean;
+    /** Theme to render with */
+    theme: Theme;
+    /** Progress visual to draw */
+    layout: ProgressLayoutName;
+    /** Day of the period and its length, for the day grid (defaults to days of a year) */
+    days?: DayCount;
+    /** Scene to compose frames from instead of the built-in composition */
+    scene?: Scene;
+    /** Template variables for the text elements of a scene */
+    variables?: TemplateVariables;
+    /** Fill easing and text entrance (defaults to the theme's) */
+    animation?: AnimationTiming;
+    /** Animated percent counter (defaults to the theme's) */
+    counter?: CounterPosition;
+    /** Decimal places of the percent labels (defaults to those of the percent) */
+    precision?: number;
+    /** Locale of the text, used for direction and font fallbacks (defaults to 'en') */
+    locale?: string;
     /** Output directory for frames */
     outputDir: string;
     /** Video duration in seconds */
@@ -23,6 +123,77 @@ export interface FrameGenerationOptions {
     config?: Partial<RenderConfig>;
 }
 
+/**
+ * Frames of a video and the text style picked for its background
+ */
+export interface FrameGenerationResult {
+    /** Frame file paths in order */
+    frames: string[];
+    /** Background luminance and the style picked for it (null if not adaptive) */
+    contrast: ContrastReport | null;
+}
+
+/** Number of confetti pieces on screen */
+const CONFETTI_COUNT = 90;
+
+/** Outline width in pixels when adaptive contrast outlines text without a theme outline */
+const ADAPTIVE_OUTLINE_WIDTH = 6;
+
+/** Emoji size and spacing as a multiple of the font size */
+const EMOJI_SCALE = 1.1;
+const EMOJI_SPACING = 0.05;
+
+/**
+ * Loaded emoji sprites by sprite name
+ */
+type EmojiSprites = Map<string, Image>;
+
+/**
+ * Everything needed to measure and draw the text of a video
+ */
+interface TextRenderContext {
+    locale: string;
+    config: RenderConfig;
+    theme: Theme;
+    sprites: EmojiSprites;
+}
+
+/**
+ * Background images: stills shown as a slideshow (filtered), or the frames of a video
+ * (filtered on disk, loaded as needed)
+ */
+interface BackgroundRenderContext {
+    settings: BackgroundSettings;
+    slides: Array<Image | Canvas>;
+    videoFrames: string[];
+    /** Video duration in seconds */
+    duration: number;
+}
+
+/**
+ * An image of the background on a frame
+ */
+interface BackgroundLayer {
+    image: Image | Canvas;
+    opacity: number;
+    /** Where to draw the image (null for cover-fit in place) */
+    rect: Bounds | null;
+}
+
+/**
+ * A scene with its images loaded, and its fitted text blocks cached across frames
+ */
+interface SceneRenderContext {
+    scene: Scene;
+    /** Background of the current frame */
+    background: BackgroundLayer[];
+    images: Map<string, Image>;
+    variables: TemplateVariables;
+    /** Compiled text element templates by source */
+    templates: Map<string, CompiledTemplate>;
+    textBlocks: Map<string, PositionedLine[]>;
+}
+
 /**
  * Register a custom font for canvas rendering
  */
@@ -38,131 +209,502 @@ export function registerCustomFont(fontPath: string, family: string = 'Primary')
 }
 
 /**
- * Draw an animated progress bar
+ * Deterministic pseudo-random value in [0, 1) so confetti is stable across frames
  */
-function drawProgressBar(
+function random(seed: number): number {
+    const x = Math.sin(seed * 12.9898) * 43758.5453;
+    return x - Math.floor(x);
+}
+
+/**
+ * Draw falling confetti on celebration days
+ */
+function drawConfetti(
     ctx: CanvasRenderingContext2D,
-    progress: number,
-    config: RenderConfig
+    frame: number,
+    config: RenderConfig,
+    colors: string[]
 ): void {
-    const barHeight = 60;
-    const barY = config.height / 2 - barHeight / 2;
-    const barPadding = 120;
-    const barWidth = config.width - barPadding * 2;
-
-    // Background bar (semi-transparent white)
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
-    roundRect(ctx, barPadding, barY, barWidth, barHeight, 15);
-    ctx.fill();
-
-    // Progress fill with gradient
-    if (progress > 0) {
-        const gradient = ctx.createLinearGradient(
-            barPadding,
-            0,
-            barPadding + barWidth * progress,
+    const travel = config.height + 60;
+
+    for (let i = 0; i < CONFETTI_COUNT; i++) {
+        const speed = 4 + random(i + 1) * 8;
+        const x = random(i + 101) * config.width + Math.sin((frame + i * 7) / 15) * 30;
+        const y = ((random(i + 201) * travel + frame * speed) % travel) - 30;
+        const rotation = (frame * (0.05 + random(i + 301) * 0.1) + i) % (Math.PI * 2);
+
+        ctx.save();
+        ctx.translate(x, y);
+        ctx.rotate(rotation);
+        ctx.fillStyle = colors[i % colors.length] ?? '#FFFFFF';
+        ctx.fillRect(-8, -14, 16, 28);
+        ctx.restore();
+    }
+}
+
+/**
+ * CSS font string for a line with the theme font and the locale's font fallbacks
+ */
+function getFont(fontSize: number, line: number, text: TextRenderContext): string {
+    const { weights, font } = text.theme.text;
+    const weight: FontWeight = weights[Math.min(line, weights.length - 1)] ?? 'bold';
+    const primary = font ?? text.config.fontFamily;
+    const families = getFontFallbackChain(text.locale, primary, FONT_FALLBACKS);
+    return `${weight} ${fontSize}px ${formatFontFamilies(families)}`;
+}
+
+/**
+ * CSS font string for emoji without a sprite
+ */
+function getEmojiFont(fontSize: number, text: TextRenderContext): string {
+    const families = [EMOJI_FONT_FAMILY, text.config.fontFamily, 'sans-serif'];
+    return `${fontSize}px ${formatFontFamilies(families)}`;
+}
+
+/**
+ * Load the sprites of all emoji in the text that have one in assets/emoji
+ */
+async function loadEmojiSprites(text: string): Promise<EmojiSprites> {
+    const sprites: EmojiSprites = new Map();
+
+    for (const run of splitEmojiRuns(text)) {
+        const name = getEmojiSpriteName(run.value);
+        if (run.type !== 'emoji' || sprites.has(name)) continue;
+
+        const spritePath = getEmojiSpritePath(name);
+        if (spritePath === null) {
+            logger.debug('No emoji sprite, using the emoji font', { emoji: run.value, name });
+            continue;
+        }
+        sprites.set(name, await loadImage(spritePath));
+    }
+
+    return sprites;
+}
+
+/**
+ * Width of a text or emoji run at a font size
+ */
+function measureRun(
+    ctx: CanvasRenderingContext2D,
+    run: TextRun,
+    fontSize: number,
+    line: number,
+    text: TextRenderContext
+): number {
+    if (run.type === 'emoji' && text.sprites.has(getEmojiSpriteName(run.value))) {
+        return fontSize * (EMOJI_SCALE + EMOJI_SPACING * 2);
+    }
+
+    ctx.font =
+        run.type === 'emoji' ? getEmojiFont(fontSize, text) : getFont(fontSize, line, text);
+    return ctx.measureText(run.value).width;
+}
+
+/**
+ * Text measuring function using the render fonts and emoji sprites
+ */
+function createMeasure(ctx: CanvasRenderingContext2D, text: TextRenderContext): MeasureText {
+    return (value, fontSize, line) =>
+        splitEmojiRuns(value).reduce(
+            (width, run) => width + measureRun(ctx, run, fontSize, line, text),
             0
         );
-        gradient.addColorStop(0, '#00C9FF');
-        gradient.addColorStop(0.5, '#92FE9D');
-        gradient.addColorStop(1, '#FFD700');
+}
+
+/**
+ * Wrap and position the text around the progress visual, measured with the render fonts
+ */
+function layoutText(
+    ctx: CanvasRenderingContext2D,
+    content: string,
+    text: TextRenderContext,
+    visual: Bounds
+): PositionedLine[] {
+    ctx.save();
+    const lines = layoutTextAroundBar(content, text.config, createMeasure(ctx, text), visual);
+    ctx.restore();
+    return lines;
+}
 
-        ctx.fillStyle = gradient;
-        roundRect(ctx, barPadding, barY, barWidth * progress, barHeight, 15);
-        ctx.fill();
+/**
+ * Horizontal span between the text margins
+ */
+function getTextArea(config: RenderConfig): { x: number; width: number } {
+    return { x: config.textMargin, width: config.width - config.textMargin * 2 };
+}
+
+/**
+ * Draw one line of text in its base direction with the locale's font fallbacks
+ * Lines with emoji are drawn run by run, in visual order, so sprites sit inline
+ *
+ * @param area - Horizontal span to align in (defaults to the width between the text margins)
+ * @param alignment - Alignment in the span (defaults to the configured alignment)
+ */
+function drawTextLine(
+    ctx: CanvasRenderingContext2D,
+    line: PositionedLine,
+    text: TextRenderContext,
+    area: { x: number; width: number } = getTextArea(text.config),
+    alignment: TextAlignment = text.config.textAlign
+): void {
+    const direction = resolveTextDirection(line.text, text.locale);
+    const span = getTextPlacement(alignment, direction, area.width, 0);
+    const placement = { ...span, x: area.x + span.x };
+    const runs = splitEmojiRuns(line.text);
+
+    if (runs.every((run) => run.type === 'text')) {
+        ctx.font = getFont(line.fontSize, line.line, text);
+        ctx.textAlign = placement.textAlign;
+        const value = applyBaseDirection(line.text, direction);
+        fillOutlinedText(ctx, value, placement.x, line.y, text.theme.text.outline);
+        return;
     }
 
-    // Border
-    ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
-    ctx.lineWidth = 4;
-    roundRect(ctx, barPadding, barY, barWidth, barHeight, 15);
-    ctx.stroke();
+    const widths = runs.map((run) => measureRun(ctx, run, line.fontSize, line.line, text));
+    const totalWidth = widths.reduce((sum, width) => sum + width, 0);
+    const offset = { left: 0, center: totalWidth / 2, right: totalWidth }[placement.textAlign];
+    const order = direction === 'rtl' ? [...runs.keys()].reverse() : [...runs.keys()];
+    let x = placement.x - offset;
+
+    ctx.textAlign = 'left';
+    for (const i of order) {
+        const run = runs[i];
+        const width = widths[i] ?? 0;
+        const sprite = run && text.sprites.get(getEmojiSpriteName(run.value));
+
+        if (run?.type === 'emoji' && sprite) {
+            const size = line.fontSize * EMOJI_SCALE;
+            const spriteX = x + line.fontSize * EMOJI_SPACING;
+            ctx.drawImage(sprite, spriteX, line.y - size / 2, size, size);
+        } else if (run) {
+            ctx.font = run.type === 'emoji'
+                ? getEmojiFont(line.fontSize, text)
+                : getFont(line.fontSize, line.line, text);
+            const value = applyBaseDirection(run.value, direction);
+            fillOutlinedText(ctx, value, x, line.y, text.theme.text.outline);
+        }
+        x += width;
+    }
 }
 
 /**
- * Draw rounded rectangle
+ * Left and right edges of a line as drawn between the text margins, and its direction
  */
-function roundRect(
+function getLineExtent(
     ctx: CanvasRenderingContext2D,
-    x: number,
-    y: number,
-    width: number,
-    height: number,
-    radius: number
+    line: PositionedLine,
+    text: TextRenderContext
+): { left: number; right: number; direction: TextDirection } {
+    const area = getTextArea(text.config);
+    const direction = resolveTextDirection(line.text, text.locale);
+    const span = getTextPlacement(text.config.textAlign, direction, area.width, 0);
+    const width = createMeasure(ctx, text)(line.text, line.fontSize, line.line);
+    const x = area.x + span.x;
+    const left = { left: x, center: x - width / 2, right: x - width }[span.textAlign];
+    return { left, right: left + width, direction };
+}
+
+/**
+ * Draw with an entrance state: faded, moved down and scaled around a point
+ */
+function drawWithEntrance(
+    ctx: CanvasRenderingContext2D,
+    state: EntranceState,
+    center: { x: number; y: number },
+    draw: () => void
 ): void {
-    ctx.beginPath();
-    ctx.moveTo(x + radius, y);
-    ctx.lineTo(x + width - radius, y);
-    ctx.quadraticCurveTo(x + width, y, x + width, y + radius);
-    ctx.lineTo(x + width, y + height - radius);
-    ctx.quadraticCurveTo(x + width, y + height, x + width - radius, y + height);
-    ctx.lineTo(x + radius, y + height);
-    ctx.quadraticCurveTo(x, y + height, x, y + height - radius);
-    ctx.lineTo(x, y + radius);
-    ctx.quadraticCurveTo(x, y, x + radius, y);
-    ctx.closePath();
+    ctx.save();
+    ctx.globalAlpha *= state.opacity;
+    ctx.translate(center.x, center.y + state.offset);
+    ctx.scale(state.scale, state.scale);
+    ctx.translate(-center.x, -center.y);
+    draw();
+    ctx.restore();
+}
+
+/**
+ * Draw a line part way through its entrance
+ * Typewriter and word-pop reveal the fully shaped line through clip rectangles, so
+ * ligatures, bidi text and emoji look the same as when the line is complete
+ */
+function drawAnimatedLine(
+    ctx: CanvasRenderingContext2D,
+    line: PositionedLine,
+    progress: number,
+    entrance: AnimationTiming['text'],
+    text: TextRenderContext
+): void {
+    if (progress <= 0) return;
+
+    const extent = getLineExtent(ctx, line, text);
+    const center = { x: (extent.left + extent.right) / 2, y: line.y };
+    const preset = progress >= 1 ? 'fade' : entrance.preset;
+
+    if (preset !== 'typewriter' && preset !== 'word-pop') {
+        const state = getLineEntrance(preset, progress, entrance.slide);
+        drawWithEntrance(ctx, state, center, () => drawTextLine(ctx, line, text));
+        return;
+    }
+
+    // Clip to a span measured from the start edge of the line
+    const clipSpan = (start: number, end: number): void => {
+        const [x0, x1] =
+            extent.direction === 'rtl'
+                ? [extent.right - end, extent.right - start]
+                : [extent.left + start, extent.left + end];
+        ctx.beginPath();
+        ctx.rect(x0, line.y - line.fontSize, x1 - x0, line.fontSize * 2);
+        ctx.clip();
+    };
+    const measure = (value: string): number =>
+        createMeasure(ctx, text)(value, line.fontSize, line.line);
+
+    if (preset === 'typewriter') {
+        ctx.save();
+        clipSpan(0, measure(getTypedText(line.text, progress)));
+        drawTextLine(ctx, line, text);
+        ctx.restore();
+        return;
+    }
+
+    const words = getWordSpans(line.text, measure);
+    words.forEach((word, i) => {
+        const state = getWordPop(getStaggeredProgress(progress, i, words.length));
+        if (state.opacity <= 0) return;
+
+        const middle = (word.start + word.end) / 2;
+        const x = extent.direction === 'rtl' ? extent.right - middle : extent.left + middle;
+        drawWithEntrance(ctx, state, { x, y: line.y }, () => {
+            clipSpan(word.start, word.end);
+            drawTextLine(ctx, line, text);
+        });
+    });
 }
 
 /**
- * Draw text with animation
+ * Draw text with its entrance animation, line by line
+ *
+ * @param start - Seconds from the start of the video to the entrance of the first line
  */
 function drawText(
     ctx: CanvasRenderingContext2D,
-    text: string,
+    lines: PositionedLine[],
     frame: number,
-    totalFrames: number,
-    config: RenderConfig
+    start: number,
+    animation: AnimationTiming,
+    text: TextRenderContext
 ): void {
-    const fps = config.fps;
-    const fadeInDuration = fps * 0.5;
+    const time = frame / text.config.fps;
 
-    let alpha = 1;
-    if (frame < fadeInDuration) {
-        alpha = frame / fadeInDuration;
+    ctx.save();
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = text.theme.text.color;
+    ctx.shadowColor = text.theme.text.shadow.color;
+    ctx.shadowBlur = text.theme.text.shadow.blur;
+
+    lines.forEach((line, i) => {
+        const progress = getLineProgress(time, start, i, animation.text);
+        drawAnimatedLine(ctx, line, progress, animation.text, text);
+    });
+
+    ctx.restore();
+}
+
+/**
+ * Draw a text element of a scene, fitted into the element's box
+ */
+function drawSceneText(
+    ctx: CanvasRenderingContext2D,
+    element: Extract<SceneElement, { type: 'text' }>,
+    bounds: Bounds,
+    content: string,
+    context: SceneRenderContext,
+    text: TextRenderContext
+): void {
+    const key = [content, element.fontSize, bounds.x, bounds.y, bounds.width, bounds.height];
+    const cacheKey = key.join('|');
+    let lines = context.textBlocks.get(cacheKey);
+    if (!lines) {
+        lines = layoutTextInBox(content, bounds, element.fontSize, createMeasure(ctx, text));
+        context.textBlocks.set(cacheKey, lines);
     }
 
-    ctx.save();
-    ctx.globalAlpha = alpha;
-    ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
-    ctx.fillStyle = '#FFFFFF';
-    ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
-    ctx.shadowBlur = 20;
+    ctx.fillStyle = element.color ?? text.theme.text.color;
+    ctx.shadowColor = text.theme.text.shadow.color;
+    ctx.shadowBlur = text.theme.text.shadow.blur;
+    for (const line of lines) {
+        drawTextLine(ctx, line, text, bounds, element.align);
+    }
+}
 
-    const lines = text.split('\n');
-    const centerY = config.height / 2;
+/**
+ * Draw one element of a scene in its box (already transformed)
+ */
+function drawSceneElement(
+    ctx: CanvasRenderingContext2D,
+    element: SceneElement,
+    bounds: Bounds,
+    frame: number,
+    progress: ProgressFrame,
+    context: SceneRenderContext,
+    text: TextRenderContext
+): void {
+    const { config, theme } = text;
 
-    // Line 1: Above the bar
-    if (lines[0]) {
-        ctx.font = `bold ${config.fontSize}px ${config.fontFamily}`;
-        ctx.fillText(lines[0], config.width / 2, centerY - 150);
+    switch (element.type) {
+        case 'background':
+            drawBackground(ctx, context.background, config);
+            break;
+        case 'overlay':
+            if (element.color === undefined) ctx.globalAlpha *= theme.overlay.opacity;
+            ctx.fillStyle = element.color ?? theme.overlay.color;
+            ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+            break;
+        case 'confetti':
+            if (progress.celebration) drawConfetti(ctx, frame, config, theme.confetti.colors);
+            break;
+        case 'shape':
+            ctx.fillStyle = element.color;
+            if (element.shape === 'ellipse') {
+                ctx.beginPath();
+                ctx.ellipse(
+                    bounds.x + bounds.width / 2,
+                    bounds.y + bounds.height / 2,
+                    bounds.width / 2,
+                    bounds.height / 2,
+                    0,
+                    0,
+                    Math.PI * 2
+                );
+            } else {
+                const radius = Math.min(element.radius, bounds.width / 2, bounds.height / 2);
+                roundRect(ctx, bounds.x, bounds.y, bounds.width, bounds.height, radius);
+            }
+            ctx.fill();
+            break;
+        case 'text': {
+            const variables = { ...context.variables, progressLabel: progress.label };
+            const template = context.templates.get(element.template) ?? element.template;
+            const content = renderTemplate(template, variables, text.locale);
+            drawSceneText(ctx, element, bounds, content, context, text);
+            break;
+        }
+        case 'progress':
+            PROGRESS_LAYOUTS[element.layout].draw(ctx, bounds, progress);
+            break;
+        case 'image': {
+            const image = context.images.get(element.src);
+            if (!image) break;
+            const target = fitImage(image.width, image.height, bounds, element.fit);
+            ctx.beginPath();
+            ctx.rect(bounds.x, bounds.y, bounds.width, bounds.height);
+            ctx.clip();
+            ctx.drawImage(image, target.x, target.y, target.width, target.height);
+            break;
+        }
     }
+}
 
-    // Line 2: Below the bar
-    if (lines[1]) {
-        ctx.font = `bold ${config.fontSize * 0.8}px ${config.fontFamily}`;
-        ctx.fillText(lines[1], config.width / 2, centerY + 150);
+/**
+ * Draw every element of a scene for a frame, bottom layer first
+ * Each element is drawn with its keyframed opacity, and rotated and scaled around its center
+ */
+function drawScene(
+    ctx: CanvasRenderingContext2D,
+    frame: number,
+    progress: ProgressFrame,
+    context: SceneRenderContext,
+    text: TextRenderContext
+): void {
+    const time = frame / text.config.fps;
+
+    for (const element of context.scene.elements) {
+        const state = getElementState(element, time, text.config);
+        if (state.opacity === 0) continue;
+
+        const { x, y, width, height } = state.bounds;
+        ctx.save();
+        ctx.globalAlpha = state.opacity;
+        ctx.translate(x + width / 2, y + height / 2);
+        ctx.rotate(state.rotation);
+        ctx.scale(state.scale, state.scale);
+        ctx.translate(-(x + width / 2), -(y + height / 2));
+        drawSceneElement(ctx, element, state.bounds, frame, progress, context, text);
+        ctx.restore();
     }
+}
 
-    ctx.restore();
+/**
+ * Load the images of a scene and build the variables its text elements can use
+ * (the generator's variables plus text, textAbove, textBelow and percentLabel)
+ *
+ * @throws Error if a text element uses a variable that is not available
+ */
+async function createSceneContext(
+    scene: Scene,
+    options: FrameGenerationOptions,
+    locale: string,
+    precision: number
+): Promise<SceneRenderContext> {
+    const { above, below } = splitTextBlocks(options.text);
+    const variables = {
+        text: removeTextBlockSeparators(options.text),
+        textAbove: above.join('\n'),
+        textBelow: below.join('\n'),
+        percentLabel: formatLocalizedPercent(clampPercent(options.percent), locale, precision),
+        ...options.variables,
+    };
+    const templates = compileSceneTemplates(scene, variables);
+
+    const images = new Map<string, Image>();
+    for (const element of scene.elements) {
+        if (element.type !== 'image' || images.has(element.src)) continue;
+        images.set(element.src, await loadImage(path.resolve(PROJECT_ROOT, element.src)));
+    }
+
+    return {
+        scene,
+        background: [],
+        images,
+        variables,
+        templates,
+        textBlocks: new Map(),
+    };
 }
 
 /**
  * Generate all frames for a video
  *
  * @param options - Frame generation options
- * @returns Array of frame file paths
+ * @returns Frame file paths, and the text style picked for the background
  */
-export async function generateFrames(options: FrameGenerationOptions): Promise<string[]> {
+export async function generateFrames(
+    options: FrameGenerationOptions
+): Promise<FrameGenerationResult> {
     const config: RenderConfig = {
         ...RENDER_CONFIG,
         ...options.config,
     };
+    const locale = options.locale ?? DEFAULT_LOCALE;
+    const direction = getLocaleDirection(locale);
+    const animation = options.animation ?? options.theme.animation;
+    const counter = options.counter ?? options.theme.counter;
+    const precision = options.precision ?? getDecimalPlaces(options.percent);
+    const backgroundSettings = options.background ?? options.theme.background;
 
     logger.info('Generating video frames', {
         backgroundPath: options.backgroundPath,
         text: options.text,
         percent: options.percent,
+        locale,
+        theme: options.theme.name,
+        layout: options.layout,
+        scene: options.scene?.name,
+        animation,
+        counter,
+        background: options.videoFrames ? 'video' : backgroundSettings,
         config: {
             width: config.width,
             height: config.height,
@@ -173,17 +715,71 @@ export async function generateFrames(options: FrameGenerationOptions): Promise<s
         },
     });
 
-    const totalFrames = config.fps * options.duration;
-    const pauseFrames = config.fps * config.pauseDuration;
-    const animationFrames = totalFrames - pauseFrames;
+    const timing = getFrameTiming(options.duration, config, animation.delay);
+    const totalFrames = timing.totalFrames;
+    const textStart = getTextStartTime(animation.text, timing, config.fps);
     const frames: string[] = [];
 
     // Create canvas
     const canvas = createCanvas(config.width, config.height);
     const ctx = canvas.getContext('2d');
 
-    // Load background image
-    const bgImage = await loadImage(options.backgroundPath);
+    // Place the progress visual, then wrap and fit the text around it once;
+    // the layout is the same on every frame
+    const showProgressBar = options.showProgressBar ?? true;
+    const layout = PROGRESS_LAYOUTS[options.layout];
+    const days = options.days ?? getDayCountFromPercent(options.percent);
+    const visual = layout.getBounds(config, days);
+    let text: TextRenderContext = {
+        locale,
+        config,
+        theme: options.theme,
+        sprites: await loadEmojiSprites(options.text),
+    };
+    const textVisual = showProgressBar ? visual : getProgressBarBounds(config);
+    const textLines = options.scene ? [] : layoutText(ctx, options.text, text, textVisual);
+
+    // Load the background images (and the images of the scene); video frames load as drawn
+    const videoFrames = options.videoFrames ?? [];
+    const slidePaths =
+        videoFrames.length > 0 ? [] : [options.backgroundPath, ...(options.slideshowPaths ?? [])];
+
+    const images = await Promise.all(slidePaths.map((p) => loadImage(p)));
+
+    // Filter the background once; every frame draws the result
+    const { filters } = backgroundSettings;
+    const luts = loadLuts(filters);
+    const detail = backgroundSettings.motion === 'ken-burns' ? backgroundSettings.zoom : 1;
+    const slides =
+        filters.length > 0
+            ? images.map((image) => filterBackground(image, filters, luts, config, detail))
+            : images;
+
+    for (const framePath of filters.length > 0 ? videoFrames : []) {
+        const filtered = filterBackground(await loadImage(framePath), filters, luts, config);
+        fs.writeFileSync(framePath, filtered.toBuffer('image/png'));
+    }
+
+    const background: BackgroundRenderContext = {
+        settings: backgroundSettings,
+        slides,
+        videoFrames,
+        duration: options.duration,
+    };
+    const scene = options.scene
+        ? await createSceneContext(options.scene, options, locale, precision)
+        : null;
+
+    // Pick the overlay and text style from the background behind the text and progress visual
+    const regions = options.scene
+        ? getSceneTextRegions(options.scene)
+        : [
+              ...textLines.map((line) => getLineBounds(ctx, line, text)),
+              ...(showProgressBar ? [visual] : []),
+          ];
+    const contrast = await analyzeContrast(ctx, background, regions, options.theme, config);
+    const theme = contrast ? applyContrast(options.theme, contrast) : options.theme;
+    text = { ...text, theme };
 
     // Ensure output directory exists
     if (!fs.existsSync(options.outputDir)) {
@@ -194,26 +790,51 @@ export async function generateFrames(options: FrameGenerationOptions): Promise<s
         // Clear canvas
         ctx.clearRect(0, 0, config.width, config.height);
 
-        // Draw background (cover mode)
-        drawBackgroundCover(ctx, bgImage, config.width, config.height);
+        // Calculate animated progress (animation phase, then hold phase)
+        const progress = getFrameProgress(frame, timing, options.percent, animation.easing);
+        const celebration = options.celebration ?? false;
+        const progressFrame: ProgressFrame = {
+            progress,
+            target: clampPercent(options.percent) / 100,
+            label: formatLocalizedPercent(
+                getFramePercent(progress, options.percent, precision),
+                locale,
+                precision
+            ),
+            days,
+            celebration,
+            direction,
+            theme,
+            font: (fontSize) => getFont(fontSize, 0, text),
+        };
 
-        // Add dark overlay for text readability
-        ctx.fillStyle = 'rgba(0, 0, 0, 0.4)';
-        ctx.fillRect(0, 0, config.width, config.height);
+        const backgroundLayers = await getBackgroundLayers(background, frame, config);
 
-        // Calculate animated progress
-        let progress: number;
-        if (frame < animationFrames) {
-            // Animation phase
-            progress = (frame / animationFrames) * (options.percent / 100);
+        if (scene) {
+            drawScene(ctx, frame, progressFrame, { ...scene, background: backgroundLayers }, text);
         } else {
-            // Hold phase
-            progress = options.percent / 100;
-        }
-        drawProgressBar(ctx, progress, config);
+            // Draw background (cover mode, moving or crossfading if set)
+            drawBackground(ctx, backgroundLayers, config);
+
+            // Add overlay for text readability
+            ctx.save();
+            ctx.globalAlpha = theme.overlay.opacity;
+            ctx.fillStyle = theme.overlay.color;
+            ctx.fillRect(0, 0, config.width, config.height);
+            ctx.restore();
+
+            if (celebration) {
+                drawConfetti(ctx, frame, config, theme.confetti.colors);
+            }
+
+            if (showProgressBar) {
+                layout.draw(ctx, visual, progressFrame);
+                drawCounter(ctx, layout, visual, counter, progressFrame);
+            }
 
-        // Draw text with animation
-        drawText(ctx, options.text, frame, totalFrames, config);
+            // Draw text with animation
+            drawText(ctx, textLines, frame, textStart, animation, text);
+        }
 
         // Save frame
         const framePath = path.join(
@@ -226,7 +847,207 @@ export async function generateFrames(options: FrameGenerationOptions): Promise<s
     }
 
     logger.info('Frames generated', { count: frames.length });
-    return frames;
+    return { frames, contrast };
+}
+
+/**
+ * Box of a line of text as drawn
+ */
+function getLineBounds(
+    ctx: CanvasRenderingContext2D,
+    line: PositionedLine,
+    text: TextRenderContext
+): Bounds {
+    const extent = getLineExtent(ctx, line, text);
+    return {
+        x: extent.left,
+        y: line.y - line.fontSize / 2,
+        width: extent.right - extent.left,
+        height: line.fontSize,
+    };
+}
+
+/**
+ * Boxes of the text and progress elements of a scene, where they start
+ */
+function getSceneTextRegions(scene: Scene): Bounds[] {
+    return scene.elements
+        .filter((element) => element.type === 'text' || element.type === 'progress')
+        .map(({ x, y, width, height }) => ({ x, y, width, height }));
+}
+
+/**
+ * Measure the luminance of the background behind the text and progress visual (over every
+ * slide, or the first frame of a video) and pick the overlay and text style for it
+ *
+ * @returns The measurements and the style, or null if the theme keeps its own style
+ */
+async function analyzeContrast(
+    ctx: CanvasRenderingContext2D,
+    background: BackgroundRenderContext,
+    regions: Bounds[],
+    theme: Theme,
+    config: RenderConfig
+): Promise<ContrastReport | null> {
+    const colors = { text: theme.text.color, overlay: theme.overlay.color };
+
+    if (!theme.contrast.adaptive || regions.length === 0) return null;
+    if (!isHexColor(colors.text) || !isHexColor(colors.overlay)) {
+        logger.warn('Adaptive contrast needs hex text and overlay colors', {
+            theme: theme.name,
+            ...colors,
+        });
+        return null;
+    }
+
+    const [firstFrame] = background.videoFrames;
+    const sources = firstFrame !== undefined ? [await loadImage(firstFrame)] : background.slides;
+    const pixels = sources.map((image) => {
+        ctx.clearRect(0, 0, config.width, config.height);
+        drawBackgroundCover(ctx, image, config.width, config.height);
+        return ctx.getImageData(0, 0, config.width, config.height);
+    });
+    ctx.clearRect(0, 0, config.width, config.height);
+
+    const stats = measureLuminance(pixels, regions);
+    const report = {
+        ...stats,
+        ...chooseTextStyle(stats, colors, theme.contrast.ratio),
+        target: theme.contrast.ratio,
+    };
+
+    logger.info('Picked text style for the background', { ...report });
+    return report;
+}
+
+/**
+ * Theme with the overlay opacity, text color and outline picked for the background
+ * Text that changes color gets a shadow and outline in the overlay color
+ */
+function applyContrast(theme: Theme, contrast: ContrastReport): Theme {
+    const { text, overlay } = theme;
+    const recolored = contrast.textColor !== text.color;
+    const outline = text.outline ?? { color: overlay.color, width: ADAPTIVE_OUTLINE_WIDTH };
+
+    return {
+        ...theme,
+        overlay: { ...overlay, opacity: contrast.overlayOpacity },
+        text: {
+            ...text,
+            color: contrast.textColor,
+            shadow: recolored ? { ...text.shadow, color: overlay.color } : text.shadow,
+            outline: contrast.outline ? outline : text.outline,
+        },
+    };
+}
+
+/**
+ * Load the LUTs the background filters use, by file name
+ *
+ * @throws Error if a LUT file is missing or invalid
+ */
+function loadLuts(filters: BackgroundFilter[]): Map<string, CubeLut> {
+    const luts = new Map<string, CubeLut>();
+
+    for (const filter of filters) {
+        if (filter.type !== 'lut' || luts.has(filter.file)) continue;
+
+        const lutPath = path.resolve(PROJECT_ROOT, ASSET_PATHS.luts, filter.file);
+        if (!fs.existsSync(lutPath)) {
+            throw new Error(`LUT file not found at ${lutPath}`);
+        }
+        luts.set(filter.file, parseCubeLut(fs.readFileSync(lutPath, 'utf-8')));
+    }
+
+    return luts;
+}
+
+/**
+ * Scale a background image to its cover-fit size and run the filters over it
+ * Filtering at the drawn size keeps blur radii in canvas pixels and large photos fast
+ *
+ * @param detail - Extra scale to keep sharp under the Ken Burns zoom
+ */
+function filterBackground(
+    image: Image,
+    filters: BackgroundFilter[],
+    luts: Map<string, CubeLut>,
+    config: RenderConfig,
+    detail: number = 1
+): Canvas {
+    const canvasBounds = { x: 0, y: 0, width: config.width, height: config.height };
+    const cover = fitImage(image.width, image.height, canvasBounds, 'cover');
+    const canvas = createCanvas(
+        Math.round(cover.width * detail),
+        Math.round(cover.height * detail)
+    );
+    const ctx = canvas.getContext('2d');
+
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyFilters(pixels, filters, luts);
+    ctx.putImageData(pixels, 0, 0);
+
+    return canvas;
+}
+
+/**
+ * Background images on a frame: the video frame, or the visible slides with their Ken Burns
+ * rectangles, bottom first
+ */
+async function getBackgroundLayers(
+    background: BackgroundRenderContext,
+    frame: number,
+    config: RenderConfig
+): Promise<BackgroundLayer[]> {
+    const { settings, slides, videoFrames } = background;
+
+    if (videoFrames.length > 0) {
+        const videoFrame = videoFrames[frame % videoFrames.length] ?? videoFrames[0];
+        if (videoFrame === undefined) return [];
+        return [{ image: await loadImage(videoFrame), opacity: 1, rect: null }];
+    }
+
+    const canvas = { x: 0, y: 0, width: config.width, height: config.height };
+    const visible = getVisibleSlides(
+        frame / config.fps,
+        background.duration,
+        slides.length,
+        settings.crossfade
+    );
+
+    return visible.flatMap((slide) => {
+        const image = slides[slide.index];
+        if (!image) return [];
+
+        const cover = fitImage(image.width, image.height, canvas, 'cover');
+        const rect =
+            settings.motion === 'ken-burns'
+                ? getKenBurnsRect(cover, config, slide.motion, settings.zoom, slide.index)
+                : null;
+        return [{ image, opacity: slide.opacity, rect }];
+    });
+}
+
+/**
+ * Draw the background layers of a frame
+ */
+function drawBackground(
+    ctx: CanvasRenderingContext2D,
+    layers: BackgroundLayer[],
+    config: RenderConfig
+): void {
+    for (const layer of layers) {
+        ctx.save();
+        ctx.globalAlpha *= layer.opacity;
+        if (layer.rect) {
+            const { x, y, width, height } = layer.rect;
+            ctx.drawImage(layer.image, x, y, width, height);
+        } else {
+            drawBackgroundCover(ctx, layer.image, config.width, config.height);
+        }
+        ctx.restore();
+    }
 }
 
 /**
@@ -234,7 +1055,7 @@ export async function generateFrames(options: FrameGenerationOptions): Promise<s
  */
 function drawBackgroundCover(
     ctx: CanvasRenderingContext2D,
-    image: Image,
+    image: Image | Canvas,
     canvasWidth: number,
     canvasHeight: number
 ): void {
@@ -0,0 +1,167 @@
+import type { Bounds } from './text-layout.js';
+import { parseHexColor, type Pixels } from './filters.js';
+
+/** Strongest overlay the analysis may pick, so the photo still shows */
+const MAX_OVERLAY_OPACITY = 0.85;
+
+/** Overlay opacities tried, from none up to the strongest */
+const OVERLAY_STEP = 0.01;
+
+/** Luminance spread above which a background counts as busy and the text gets an outline */
+const BUSY_VARIATION = 0.18;
+
+/**
+ * Luminance of the background behind the text and progress visual
+ */
+export interface LuminanceStats {
+    /** Mean relative luminance (0 black, 1 white) */
+    luminance: number;
+    /** Standard deviation of the luminance (high on busy backgrounds) */
+    variation: number;
+}
+
+/**
+ * Overlay and text color picked for a background
+ */
+export interface TextStyle {
+    overlayOpacity: number;
+    textColor: string;
+    /** Whether the text needs an outline to stand out */
+    outline: boolean;
+    /** Contrast ratio of the text against the darkened background, at its worst */
+    ratio: number;
+}
+
+/**
+ * sRGB channel (0-1) to linear light
+ */
+function toLinear(value: number): number {
+    return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+}
+
+/**
+ * Linear light to sRGB channel (0-1)
+ */
+function toGamma(value: number): number {
+    return value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+}
+
+/**
+ * WCAG relative luminance (0-1) of an sRGB color with 0-255 channels
+ */
+export function getRelativeLuminance(r: number, g: number, b: number): number {
+    return (
+        0.2126 * toLinear(r / 255) + 0.7152 * toLinear(g / 255) + 0.0722 * toLinear(b / 255)
+    );
+}
+
+/**
+ * WCAG contrast ratio (1-21) between two relative luminances
+ */
+export function getContrastRatio(a: number, b: number): number {
+    return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+/**
+ * Luminance of a background with a solid overlay drawn over it
+ * Canvas blends in sRGB, so the blend is done there and converted back
+ *
+ * @param background - Relative luminance of the background
+ * @param overlay - Relative luminance of the overlay color
+ * @param opacity - Overlay opacity (0-1)
+ */
+export function blendLuminance(background: number, overlay: number, opacity: number): number {
+    return toLinear(toGamma(background) * (1 - opacity) + toGamma(overlay) * opacity);
+}
+
+/**
+ * Mean and spread of the luminance of regions of one or more images of the canvas
+ * (e.g., every slide of a slideshow), pooled together
+ *
+ * @param images - Canvas-sized images
+ * @param regions - Regions to measure, in canvas pixels (clipped to the canvas)
+ */
+export function measureLuminance(images: Pixels[], regions: Bounds[]): LuminanceStats {
+    let count = 0;
+    let sum = 0;
+    let sumSquares = 0;
+
+    for (const { data, width, height } of images) {
+        for (const region of regions) {
+            const left = Math.max(Math.floor(region.x), 0);
+            const top = Math.max(Math.floor(region.y), 0);
+            const right = Math.min(Math.ceil(region.x + region.width), width);
+            const bottom = Math.min(Math.ceil(region.y + region.height), height);
+
+            for (let y = top; y < bottom; y++) {
+                for (let x = left; x < right; x++) {
+                    const i = (y * width + x) * 4;
+                    const luminance = getRelativeLuminance(
+                        data[i] ?? 0,
+                        data[i + 1] ?? 0,
+                        data[i + 2] ?? 0
+                    );
+                    sum += luminance;
+                    sumSquares += luminance * luminance;
+                    count++;
+                }
+            }
+        }
+    }
+
+    if (count === 0) return { luminance: 0, variation: 0 };
+
+    const luminance = sum / count;
+    return {
+        luminance,
+        variation: Math.sqrt(Math.max(sumSquares / count - luminance * luminance, 0)),
+    };
+}
+
+/**
+ * Pick the lightest overlay and a text color that reach a contrast ratio on a background
+ * The theme's text color is kept when it can reach the ratio, otherwise the text turns white
+ * or black against the overlay. The ratio is checked against both the bright and the dark
+ * parts of the background (one spread from the mean), and busy backgrounds get an outline.
+ *
+ * @param stats - Luminance behind the text and progress visual
+ * @param colors - Theme text and overlay colors (hex)
+ * @param target - Contrast ratio to reach (e.g., 4.5 for WCAG AA)
+ */
+export function chooseTextStyle(
+    stats: LuminanceStats,
+    colors: { text: string; overlay: string },
+    target: number
+): TextStyle {
+    const overlay = getRelativeLuminance(...parseHexColor(colors.overlay));
+    const bright = Math.min(stats.luminance + stats.variation, 1);
+    const dark = Math.max(stats.luminance - stats.variation, 0);
+    const fallback = overlay < 0.5 ? '#FFFFFF' : '#000000';
+    const candidates = [...new Set([colors.text, fallback])];
+
+    // Worst contrast of a text color over the background with an overlay
+    const ratioAt = (color: string, opacity: number): number => {
+        const text = getRelativeLuminance(...parseHexColor(color));
+        return Math.min(
+            getContrastRatio(text, blendLuminance(bright, overlay, opacity)),
+            getContrastRatio(text, blendLuminance(dark, overlay, opacity))
+        );
+    };
+
+    const steps = Math.round(MAX_OVERLAY_OPACITY / OVERLAY_STEP);
+    const busy = stats.variation > BUSY_VARIATION;
+    let best: TextStyle = { overlayOpacity: 0, textColor: colors.text, outline: true, ratio: 0 };
+
+    for (const textColor of candidates) {
+        for (let step = 0; step <= steps; step++) {
+            const overlayOpacity = step * OVERLAY_STEP;
+            const ratio = ratioAt(textColor, overlayOpacity);
+
+            if (ratio >= target) return { overlayOpacity, textColor, outline: busy, ratio };
+            if (ratio > best.ratio) best = { overlayOpacity, textColor, outline: true, ratio };
+        }
+    }
+
+    // The ratio is out of reach: use the best combination and outline the text
+    return best;
+}
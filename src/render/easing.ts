@@ -0,0 +1,32 @@
+import type { EasingName } from '../types/index.js';
+
+/**
+ * Easing function: animation time (0-1) in, progress (0 at the start, 1 at the end) out
+ * Elastic and overshoot curves go past 1 before settling
+ */
+export type Easing = (t: number) => number;
+
+/** How far the overshoot curve goes past the end (the usual "back" easing constant) */
+const OVERSHOOT = 1.70158;
+
+/** Oscillations of the elastic curve per unit of time */
+const ELASTIC_PERIOD = (2 * Math.PI) / 3;
+
+/**
+ * Easing functions by name
+ */
+export const EASINGS: Record<EasingName, Easing> = {
+    linear: (t) => t,
+    'ease-out-cubic': (t) => 1 - (1 - t) ** 3,
+    'ease-in-out': (t) => (t < 0.5 ? 4 * t ** 3 : 1 - (-2 * t + 2) ** 3 / 2),
+    elastic: (t) =>
+        t <= 0 || t >= 1 ? t : 2 ** (-10 * t) * Math.sin((t * 10 - 0.75) * ELASTIC_PERIOD) + 1,
+    overshoot: (t) => 1 + (OVERSHOOT + 1) * (t - 1) ** 3 + OVERSHOOT * (t - 1) ** 2,
+};
+
+/**
+ * Apply an easing to an animation time, clamped to 0-1 first
+ */
+export function ease(easing: EasingName, t: number): number {
+    return EASINGS[easing](Math.min(Math.max(t, 0), 1));
+}
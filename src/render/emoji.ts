@@ -0,0 +1,73 @@
+/** Grapheme clusters, so multi-codepoint emoji (ZWJ sequences, flags, skin tones) stay whole */
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+/** Emoji presentation: pictographs, flags and keycaps */
+const EMOJI_CLUSTER = /\p{Extended_Pictographic}|\p{Regional_Indicator}|\u20e3/u;
+
+/** Variation selector that requests text presentation (keeps e.g. '©' as text) */
+const TEXT_PRESENTATION = '\ufe0e';
+
+/** Variation selector that requests emoji presentation, not part of sprite names */
+const EMOJI_PRESENTATION = 0xfe0f;
+
+/**
+ * A run of plain text or a single emoji
+ */
+export interface TextRun {
+    type: 'text' | 'emoji';
+    value: string;
+}
+
+/**
+ * Split text into grapheme clusters (user-perceived characters)
+ */
+export function splitGraphemes(text: string): string[] {
+    return [...segmenter.segment(text)].map((s) => s.segment);
+}
+
+/**
+ * Check whether a grapheme cluster is drawn as an emoji
+ */
+export function isEmojiCluster(cluster: string): boolean {
+    return EMOJI_CLUSTER.test(cluster) && !cluster.includes(TEXT_PRESENTATION);
+}
+
+/**
+ * Check whether text contains any emoji
+ */
+export function hasEmoji(text: string): boolean {
+    return splitEmojiRuns(text).some((run) => run.type === 'emoji');
+}
+
+/**
+ * Split text into runs of plain text and single emoji
+ * (e.g., 'Go 🚀!' -> [text 'Go ', emoji '🚀', text '!'])
+ */
+export function splitEmojiRuns(text: string): TextRun[] {
+    const runs: TextRun[] = [];
+
+    for (const { segment } of segmenter.segment(text)) {
+        const last = runs[runs.length - 1];
+
+        if (isEmojiCluster(segment)) {
+            runs.push({ type: 'emoji', value: segment });
+        } else if (last?.type === 'text') {
+            last.value += segment;
+        } else {
+            runs.push({ type: 'text', value: segment });
+        }
+    }
+
+    return runs;
+}
+
+/**
+ * Sprite name of an emoji: its codepoints in hex without the emoji variation selector
+ * (e.g., '🌱' -> '1f331', woman technologist -> '1f469-200d-1f4bb'), as used by Twemoji
+ */
+export function getEmojiSpriteName(emoji: string): string {
+    const codepoints = [...emoji]
+        .map((char) => char.codePointAt(0) ?? 0)
+        .filter((codepoint) => codepoint !== EMOJI_PRESENTATION);
+    return codepoints.map((codepoint) => codepoint.toString(16)).join('-');
+}
@@ -20,6 +20,73 @@ export interface CompileOptions {
     duration?: number;
 }
 
+/**
+ * Options for decoding a video background
+ */
+export interface ExtractFramesOptions {
+    /** Path to the video */
+    videoPath: string;
+    /** Directory to write the frames to (frame_%04d.png format) */
+    outputDir: string;
+    /** Frames per second */
+    fps?: number;
+    /** Seconds to decode at most (the render loops shorter videos) */
+    duration?: number;
+}
+
+/**
+ * Decode a video to still frames at the render frame rate
+ *
+ * @param options - Extraction options
+ * @returns Paths of the frames in order
+ * @throws Error if ffmpeg fails or the video has no frames
+ */
+export async function extractVideoFrames(options: ExtractFramesOptions): Promise<string[]> {
+    const fps = options.fps ?? RENDER_CONFIG.fps;
+    const duration = options.duration ?? RENDER_CONFIG.minDuration;
+
+    logger.info('Extracting video frames', {
+        videoPath: options.videoPath,
+        outputDir: options.outputDir,
+        fps,
+        duration,
+    });
+
+    if (!fs.existsSync(options.outputDir)) {
+        fs.mkdirSync(options.outputDir, { recursive: true });
+    }
+
+    await new Promise<void>((resolve, reject) => {
+        ffmpeg(options.videoPath)
+            .noAudio()
+            .fps(fps)
+            .duration(duration)
+            .output(path.join(options.outputDir, 'frame_%04d.png'))
+            .on('start', (cmd: string) => {
+                logger.debug('FFmpeg command started', { cmd });
+            })
+            .on('end', () => resolve())
+            .on('error', (err: Error) => {
+                logger.error('FFmpeg error', { error: err.message });
+                reject(err);
+            })
+            .run();
+    });
+
+    const frames = fs
+        .readdirSync(options.outputDir)
+        .filter((file) => file.startsWith('frame_') && file.endsWith('.png'))
+        .sort()
+        .map((file) => path.join(options.outputDir, file));
+
+    if (frames.length === 0) {
+        throw new Error(`No frames decoded from ${options.videoPath}`);
+    }
+
+    logger.info('Video frames extracted', { count: frames.length });
+    return frames;
+}
+
 /**
  * Compile frames and audio into a video file
  *
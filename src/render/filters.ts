@@ -0,0 +1,335 @@
+import type { BackgroundFilter } from '../types/index.js';
+
+/** Box blurs in a row that together come close to a gaussian blur */
+const BLUR_PASSES = 3;
+
+/** Distance from the center (0 center, 1 corner) where the vignette starts to darken */
+const VIGNETTE_START = 0.35;
+
+/**
+ * RGBA pixels of an image, four bytes per pixel row by row (like canvas ImageData)
+ */
+export interface Pixels {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+/**
+ * A 3D color lookup table from a .cube file
+ */
+export interface CubeLut {
+    /** Entries along each axis */
+    size: number;
+    /** Input values mapped to the first and last entries */
+    domainMin: [number, number, number];
+    domainMax: [number, number, number];
+    /** Output RGB triples, red changing fastest, then green, then blue */
+    table: Float32Array;
+}
+
+/**
+ * Relative luminance (0-255) of an RGB color (Rec. 709 weights)
+ */
+function luma(r: number, g: number, b: number): number {
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Check whether a color is a hex color (#RGB or #RRGGBB)
+ */
+export function isHexColor(color: string): boolean {
+    return /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color);
+}
+
+/**
+ * Parse a hex color (#RGB or #RRGGBB) into RGB channels
+ */
+export function parseHexColor(color: string): [number, number, number] {
+    const hex = color.replace('#', '');
+    const full = hex.length === 3 ? [...hex].map((c) => c + c).join('') : hex;
+    const value = parseInt(full, 16);
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/**
+ * Widths of the box blurs that add up to a gaussian blur with a standard deviation
+ */
+function getBoxSizes(sigma: number): number[] {
+    const n = BLUR_PASSES;
+    const variance = 12 * sigma * sigma;
+    const ideal = Math.floor(Math.sqrt(variance / n + 1));
+    const lower = ideal % 2 === 0 ? ideal - 1 : ideal;
+    const lowerCount = Math.round(
+        (variance - n * lower * lower - 4 * n * lower - 3 * n) / (-4 * lower - 4)
+    );
+    return Array.from({ length: n }, (_, i) => (i < lowerCount ? lower : lower + 2));
+}
+
+/**
+ * Average every pixel with its neighbors along rows or columns (edges repeat outward)
+ */
+function boxBlur(pixels: Pixels, radius: number, horizontal: boolean): void {
+    const { data, width, height } = pixels;
+    const length = horizontal ? width : height;
+    const lines = horizontal ? height : width;
+    const step = horizontal ? 4 : width * 4;
+    const line = new Float32Array(length * 4);
+    const size = radius * 2 + 1;
+    const at = (i: number): number => Math.min(Math.max(i, 0), length - 1) * 4;
+
+    for (let l = 0; l < lines; l++) {
+        const start = horizontal ? l * width * 4 : l * 4;
+        for (let i = 0; i < length; i++) {
+            for (let c = 0; c < 4; c++) line[i * 4 + c] = data[start + i * step + c] ?? 0;
+        }
+
+        for (let c = 0; c < 4; c++) {
+            let sum = 0;
+            for (let k = -radius; k <= radius; k++) sum += line[at(k) + c] ?? 0;
+
+            for (let i = 0; i < length; i++) {
+                data[start + i * step + c] = sum / size;
+                sum += (line[at(i + radius + 1) + c] ?? 0) - (line[at(i - radius) + c] ?? 0);
+            }
+        }
+    }
+}
+
+/**
+ * Gaussian blur, approximated by box blurs
+ *
+ * @param radius - Standard deviation in pixels, as with CSS blur()
+ */
+export function blur(pixels: Pixels, radius: number): void {
+    if (radius <= 0) return;
+
+    for (const size of getBoxSizes(radius)) {
+        boxBlur(pixels, (size - 1) / 2, true);
+        boxBlur(pixels, (size - 1) / 2, false);
+    }
+}
+
+/**
+ * Darken the edges, most in the corners
+ *
+ * @param strength - Darkening in the corners (0-1)
+ */
+export function vignette(pixels: Pixels, strength: number): void {
+    const { data, width, height } = pixels;
+    const halfDiagonal = Math.hypot(width / 2, height / 2);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const distance = Math.hypot(x + 0.5 - width / 2, y + 0.5 - height / 2) / halfDiagonal;
+            const t = Math.min(Math.max((distance - VIGNETTE_START) / (1 - VIGNETTE_START), 0), 1);
+            const factor = 1 - strength * t * t * (3 - 2 * t);
+            const i = (y * width + x) * 4;
+            for (let c = 0; c < 3; c++) data[i + c] = (data[i + c] ?? 0) * factor;
+        }
+    }
+}
+
+/**
+ * Run a function over the RGB channels of every pixel
+ */
+function mapColors(
+    pixels: Pixels,
+    map: (r: number, g: number, b: number) => [number, number, number]
+): void {
+    const { data } = pixels;
+
+    for (let i = 0; i < data.length; i += 4) {
+        const [r, g, b] = map(data[i] ?? 0, data[i + 1] ?? 0, data[i + 2] ?? 0);
+        data[i] = r;
+        data[i + 1] = g;
+        data[i + 2] = b;
+    }
+}
+
+/**
+ * Remove color
+ *
+ * @param amount - 0 keeps the colors, 1 leaves shades of gray
+ */
+export function desaturate(pixels: Pixels, amount: number): void {
+    mapColors(pixels, (r, g, b) => {
+        const y = luma(r, g, b);
+        return [r + (y - r) * amount, g + (y - g) * amount, b + (y - b) * amount];
+    });
+}
+
+/**
+ * Map dark to light tones onto a gradient between two colors
+ */
+export function duotone(pixels: Pixels, shadows: string, highlights: string): void {
+    const dark = parseHexColor(shadows);
+    const light = parseHexColor(highlights);
+
+    mapColors(pixels, (r, g, b) => {
+        const t = luma(r, g, b) / 255;
+        const mix = (c: number): number => (dark[c] ?? 0) + ((light[c] ?? 0) - (dark[c] ?? 0)) * t;
+        return [mix(0), mix(1), mix(2)];
+    });
+}
+
+/**
+ * Multiply the brightness (1 leaves the image as is)
+ */
+export function brightness(pixels: Pixels, amount: number): void {
+    mapColors(pixels, (r, g, b) => [r * amount, g * amount, b * amount]);
+}
+
+/**
+ * Multiply the contrast around mid gray (1 leaves the image as is)
+ */
+export function contrast(pixels: Pixels, amount: number): void {
+    const adjust = (v: number): number => (v - 128) * amount + 128;
+    mapColors(pixels, (r, g, b) => [adjust(r), adjust(g), adjust(b)]);
+}
+
+/**
+ * Parse the three values of a DOMAIN_MIN or DOMAIN_MAX line
+ *
+ * @throws Error if the line does not have exactly three finite numbers
+ */
+function parseDomain(keyword: string, values: string[]): [number, number, number] {
+    const [r, g, b, ...extra] = values.map(Number);
+
+    if (
+        r === undefined ||
+        g === undefined ||
+        b === undefined ||
+        extra.length > 0 ||
+        ![r, g, b].every(Number.isFinite)
+    ) {
+        throw new Error(`Invalid .cube LUT: ${keyword} must have three numbers`);
+    }
+
+    return [r, g, b];
+}
+
+/**
+ * Parse a 3D LUT in the .cube format
+ *
+ * @throws Error if the file is not a valid 3D LUT
+ */
+export function parseCubeLut(content: string): CubeLut {
+    let size = 0;
+    let domainMin: [number, number, number] = [0, 0, 0];
+    let domainMax: [number, number, number] = [1, 1, 1];
+    const values: number[] = [];
+
+    for (const raw of content.split(/\r?\n/)) {
+        const line = raw.trim();
+        if (line === '' || line.startsWith('#')) continue;
+
+        const [keyword = '', ...rest] = line.split(/\s+/);
+
+        if (keyword === 'LUT_3D_SIZE') {
+            size = Number(rest[0]);
+        } else if (keyword === 'LUT_1D_SIZE') {
+            throw new Error('Invalid .cube LUT: only 3D LUTs are supported');
+        } else if (keyword === 'DOMAIN_MIN') {
+            domainMin = parseDomain(keyword, rest);
+        } else if (keyword === 'DOMAIN_MAX') {
+            domainMax = parseDomain(keyword, rest);
+        } else if (/^[-+.\d]/.test(keyword)) {
+            values.push(Number(keyword), ...rest.map(Number));
+        }
+    }
+
+    if (!Number.isInteger(size) || size < 2) {
+        throw new Error('Invalid .cube LUT: LUT_3D_SIZE must be an integer of at least 2');
+    }
+    if (values.length !== size ** 3 * 3 || values.some((v) => Number.isNaN(v))) {
+        throw new Error(`Invalid .cube LUT: expected ${size ** 3} RGB entries`);
+    }
+    if (domainMin.some((min, c) => (domainMax[c] ?? min) <= min)) {
+        throw new Error('Invalid .cube LUT: DOMAIN_MAX must be above DOMAIN_MIN on every channel');
+    }
+
+    return { size, domainMin, domainMax, table: Float32Array.from(values) };
+}
+
+/**
+ * Color grade with a 3D LUT (trilinear interpolation between entries)
+ *
+ * @param intensity - Mix with the original colors (0-1)
+ */
+export function applyLut(pixels: Pixels, lut: CubeLut, intensity: number): void {
+    const { size, domainMin, domainMax, table } = lut;
+    const max = size - 1;
+
+    const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
+
+    // Position of a channel value along an axis of the table
+    const position = (value: number, c: number): number => {
+        const min = domainMin[c] ?? 0;
+        const t = (value / 255 - min) / ((domainMax[c] ?? 1) - min);
+        return Math.min(Math.max(t, 0), 1) * max;
+    };
+
+    mapColors(pixels, (r, g, b) => {
+        const pr = position(r, 0);
+        const pg = position(g, 1);
+        const pb = position(b, 2);
+        const r0 = Math.min(Math.floor(pr), max - 1);
+        const g0 = Math.min(Math.floor(pg), max - 1);
+        const b0 = Math.min(Math.floor(pb), max - 1);
+        const entry = (dr: number, dg: number, db: number, c: number): number =>
+            table[(r0 + dr + (g0 + dg) * size + (b0 + db) * size * size) * 3 + c] ?? 0;
+
+        const grade = (c: number, original: number): number => {
+            const c00 = lerp(entry(0, 0, 0, c), entry(1, 0, 0, c), pr - r0);
+            const c10 = lerp(entry(0, 1, 0, c), entry(1, 1, 0, c), pr - r0);
+            const c01 = lerp(entry(0, 0, 1, c), entry(1, 0, 1, c), pr - r0);
+            const c11 = lerp(entry(0, 1, 1, c), entry(1, 1, 1, c), pr - r0);
+            const graded = lerp(lerp(c00, c10, pg - g0), lerp(c01, c11, pg - g0), pb - b0);
+            return lerp(original, graded * 255, intensity);
+        };
+
+        return [grade(0, r), grade(1, g), grade(2, b)];
+    });
+}
+
+/**
+ * Run background filters over an image in order
+ *
+ * @param luts - Parsed LUTs by file name
+ * @throws Error if a LUT filter's file was not loaded
+ */
+export function applyFilters(
+    pixels: Pixels,
+    filters: BackgroundFilter[],
+    luts: Map<string, CubeLut>
+): void {
+    for (const filter of filters) {
+        switch (filter.type) {
+            case 'blur':
+                blur(pixels, filter.radius);
+                break;
+            case 'vignette':
+                vignette(pixels, filter.strength);
+                break;
+            case 'desaturate':
+                desaturate(pixels, filter.amount);
+                break;
+            case 'duotone':
+                duotone(pixels, filter.shadows, filter.highlights);
+                break;
+            case 'brightness':
+                brightness(pixels, filter.amount);
+                break;
+            case 'contrast':
+                contrast(pixels, filter.amount);
+                break;
+            case 'lut': {
+                const lut = luts.get(filter.file);
+                if (!lut) throw new Error(`LUT not loaded: ${filter.file}`);
+                applyLut(pixels, lut, filter.intensity);
+                break;
+            }
+        }
+    }
+}
@@ -2,10 +2,31 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { generateFrames, registerCustomFont } from './canvas-renderer.js';
-import { compileVideo, cleanupFrames } from './ffmpeg-compiler.js';
-import { getRandomBackground, getRandomAudio, getFontPath } from '../utils/asset-picker.js';
+import { compileVideo, cleanupFrames, extractVideoFrames } from './ffmpeg-compiler.js';
+import { calculateRenderDuration, mergeAnimation } from './timing.js';
+import { mergeBackground } from './background.js';
+import { getFontFamilyFromFileName, removeTextBlockSeparators } from './text-layout.js';
+import {
+    getRandomBackground,
+    getRandomBackgroundImages,
+    isVideoBackground,
+    getRandomAudio,
+    getFontPath,
+    getFallbackFontPaths,
+} from '../utils/asset-picker.js';
 import { logger } from '../utils/logger.js';
-import type { RenderResult } from '../types/index.js';
+import { loadThemes, selectTheme } from '../utils/themes.js';
+import { findScene, loadScenes } from '../utils/scenes.js';
+import type { TemplateVariables } from '../utils/template-engine.js';
+import type {
+    AnimationOverrides,
+    BackgroundSettings,
+    CounterPosition,
+    DayCount,
+    ProgressLayoutName,
+    RenderResult,
+    YearMilestone,
+} from '../types/index.js';
 import { RENDER_CONFIG, ASSET_PATHS } from '../config/index.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -19,9 +40,35 @@ let fontRegistered = false;
 export interface RenderVideoOptions {
     /** Text to display in the video */
     text: string;
-    /** Progress percentage (0-100) for the progress bar */
+    /** Progress percentage (0-100, may be fractional) for the progress bar */
     percent: number;
-    /** Optional custom background path (uses random if not provided) */
+    /** Whether to draw the progress bar (defaults to true) */
+    showProgressBar?: boolean;
+    /** Whether to render celebration colors and confetti (defaults to false) */
+    celebration?: boolean;
+    /** Theme name, or 'random' (defaults to 'default') */
+    theme?: string;
+    /** Milestone being celebrated; a theme made for it takes precedence */
+    milestone?: YearMilestone | null;
+    /** Progress visual (defaults to the theme's layout) */
+    layout?: ProgressLayoutName;
+    /** Day of the period and its length, for the day grid */
+    days?: DayCount | null;
+    /** Scene name (defaults to the built-in composition) */
+    scene?: string;
+    /** Template variables for the text elements of the scene */
+    variables?: TemplateVariables;
+    /** Animation settings (unset values come from the theme) */
+    animation?: AnimationOverrides;
+    /** Animated percent counter (defaults to the theme's) */
+    counter?: CounterPosition;
+    /** Decimal places of the percent labels (defaults to those of the percent) */
+    precision?: number;
+    /** Background motion and slideshow (unset values come from the theme) */
+    background?: Partial<BackgroundSettings>;
+    /** Locale of the text, used for direction and font fallbacks (defaults to 'en') */
+    locale?: string;
+    /** Optional custom background image or video path (uses random if not provided) */
     backgroundPath?: string;
     /** Optional custom audio path (uses random if not provided) */
     audioPath?: string;
@@ -41,7 +88,7 @@ function ensureVideosDir(): string {
 }
 
 /**
- * Register the font if not already registered
+ * Register the primary font and the fallback fonts if not already registered
  */
 function ensureFontRegistered(): void {
     if (fontRegistered) return;
@@ -49,6 +96,10 @@ function ensureFontRegistered(): void {
     try {
         const fontPath = getFontPath();
         registerCustomFont(fontPath, RENDER_CONFIG.fontFamily);
+        for (const fallbackPath of getFallbackFontPaths()) {
+            const family = getFontFamilyFromFileName(path.basename(fallbackPath));
+            registerCustomFont(fallbackPath, family);
+        }
         fontRegistered = true;
     } catch (error) {
         logger.warn('Could not register custom font, using system font', {
@@ -78,12 +129,32 @@ export async function renderVideo(options: RenderVideoOptions): Promise<RenderRe
     // Select assets
     const backgroundPath = options.backgroundPath ?? getRandomBackground();
     const audioPath = options.audioPath ?? getRandomAudio();
+    const theme = selectTheme(
+        loadThemes(ASSET_PATHS.themes),
+        options.theme ?? 'default',
+        options.milestone ?? null
+    );
+    const layout = options.layout ?? theme.layout;
+    const animation = mergeAnimation(theme.animation, options.animation);
+    const scene =
+        options.scene !== undefined && options.scene !== ''
+            ? findScene(loadScenes(ASSET_PATHS.scenes), options.scene)
+            : undefined;
+    const background = mergeBackground(theme.background, options.background);
+    const isVideo = isVideoBackground(backgroundPath);
+    const slideshowPaths = isVideo
+        ? []
+        : getRandomBackgroundImages(background.slides - 1, [backgroundPath]);
 
     logger.info('Starting video render', {
         text: options.text,
         percent: options.percent,
         background: path.basename(backgroundPath),
+        slides: slideshowPaths.map((p) => path.basename(p)),
         audio: path.basename(audioPath),
+        theme: theme.name,
+        layout,
+        scene: scene?.name,
         output: filename,
     });
 
@@ -93,15 +164,44 @@ export async function renderVideo(options: RenderVideoOptions): Promise<RenderRe
             fs.mkdirSync(framesDir, { recursive: true });
         }
 
-        // Calculate duration based on animation speed and hold time
-        const animationTime = options.percent / RENDER_CONFIG.animationSpeed;
-        const duration = Math.max(RENDER_CONFIG.minDuration, animationTime + RENDER_CONFIG.pauseDuration);
+        // Calculate duration based on start delay, animation speed and hold time
+        const showProgressBar = options.showProgressBar ?? true;
+        const duration = calculateRenderDuration(
+            options.percent,
+            showProgressBar,
+            RENDER_CONFIG,
+            animation.delay
+        );
+
+        // Decode a video background to frames, which the renderer loops
+        const videoFrames = isVideo
+            ? await extractVideoFrames({
+                  videoPath: backgroundPath,
+                  outputDir: path.join(framesDir, 'background'),
+                  fps: RENDER_CONFIG.fps,
+                  duration,
+              })
+            : undefined;
 
         // Generate frames
-        await generateFrames({
+        const { contrast } = await generateFrames({
             backgroundPath,
+            slideshowPaths,
+            videoFrames,
+            background,
             text: options.text,
             percent: options.percent,
+            showProgressBar,
+            celebration: options.celebration ?? false,
+            theme,
+            layout,
+            days: options.days ?? undefined,
+            scene,
+            variables: options.variables,
+            animation,
+            counter: options.counter,
+            precision: options.precision,
+            locale: options.locale,
             outputDir: framesDir,
             duration,
         });
@@ -124,10 +224,14 @@ export async function renderVideo(options: RenderVideoOptions): Promise<RenderRe
 
         return {
             videoPath: outputPath,
-            caption: options.text,
+            caption: removeTextBlockSeparators(options.text),
             metadata: {
                 background: path.basename(backgroundPath),
                 audio: path.basename(audioPath),
+                theme: theme.name,
+                layout,
+                scene: scene?.name ?? null,
+                contrast,
                 duration,
                 resolution: `${RENDER_CONFIG.width}x${RENDER_CONFIG.height}`,
             },
@@ -0,0 +1,604 @@
+import type { CanvasRenderingContext2D } from 'canvas';
+import type {
+    CounterPosition,
+    DayCount,
+    ProgressLayoutName,
+    RenderConfig,
+    TextDirection,
+    Theme,
+} from '../types/index.js';
+import { getProgressBarBounds, PROGRESS_BAR, type Bounds } from './text-layout.js';
+
+/** Ring diameter as a fraction of the canvas width (capped by the height) */
+const RING = { scale: 0.6, maxHeightScale: 0.4, thickness: 0.09, labelScale: 0.22 } as const;
+
+/** Day grid: columns for long periods, largest cell and dot size within a cell */
+const DOT_GRID = { columns: 21, maxCell: 80, dotScale: 0.35 } as const;
+
+/** Battery size as a fraction of the canvas width, with its height and cap relative to it */
+const BATTERY = {
+    scale: 0.6,
+    maxWidth: 640,
+    aspect: 0.45,
+    capWidth: 0.12,
+    capHeight: 0.4,
+    labelScale: 0.35,
+} as const;
+
+/** Hourglass size as a fraction of the canvas width, and its height relative to it */
+const HOURGLASS = { scale: 0.35, aspect: 1.6, streamWidth: 6 } as const;
+
+/**
+ * Percent counter: font size above the visual and largest size inside it (as a fraction of
+ * its height), and the gap to the visual
+ */
+const COUNTER = { fontSize: 40, insideScale: 0.6, maxInside: 72, gap: 12 } as const;
+
+/** Days in a year, for the day grid when the content has no days of its own */
+const DEFAULT_TOTAL_DAYS = 365;
+
+/**
+ * Everything a layout needs to draw one frame
+ */
+export interface ProgressFrame {
+    /** Progress shown on this frame (0-1) */
+    progress: number;
+    /** Progress at the end of the animation (0-1) */
+    target: number;
+    /** Percent shown on this frame (e.g., '37%') */
+    label: string;
+    /** Days of the period, for layouts that count days */
+    days: DayCount;
+    celebration: boolean;
+    /** Reading direction (visuals fill from the right in right-to-left locales) */
+    direction: TextDirection;
+    theme: Theme;
+    /** CSS font string for the label at a font size */
+    font: (fontSize: number) => string;
+}
+
+/**
+ * A progress visual: the area it covers and how to draw it at any point of the animation
+ */
+export interface ProgressLayout {
+    /** Area the visual covers (the text is laid out above and below it) */
+    getBounds(config: Pick<RenderConfig, 'width' | 'height'>, days: DayCount): Bounds;
+    /** Draw the visual for a frame */
+    draw(ctx: CanvasRenderingContext2D, bounds: Bounds, frame: ProgressFrame): void;
+    /** Top of the leading edge of the fill, for visuals that have one */
+    getTip?(bounds: Bounds, progress: number, direction: TextDirection): { x: number; y: number };
+}
+
+/**
+ * Where to draw the percent counter (x and y are the middle of the text)
+ */
+export interface CounterPlacement {
+    x: number;
+    y: number;
+    fontSize: number;
+}
+
+/**
+ * A dot of the day grid
+ */
+export interface Dot {
+    x: number;
+    y: number;
+    radius: number;
+}
+
+/**
+ * Days for a percent of a year, for content that does not count days
+ * (e.g., 37% -> day 135 of 365)
+ */
+export function getDayCountFromPercent(percent: number): DayCount {
+    return { day: Math.round((percent / 100) * DEFAULT_TOTAL_DAYS), total: DEFAULT_TOTAL_DAYS };
+}
+
+/**
+ * Days filled on a frame, so the grid reaches today exactly when the animation ends
+ *
+ * @param progress - Progress shown on the frame (0-1)
+ * @param target - Progress at the end of the animation (0-1)
+ * @param days - Day of the period and its length
+ */
+export function getFilledDays(progress: number, target: number, days: DayCount): number {
+    const fraction = target > 0 ? Math.min(progress / target, 1) : 1;
+    return Math.round(fraction * Math.min(days.day, days.total));
+}
+
+/**
+ * Columns of the day grid (short periods, like a week, fit on one row)
+ */
+function getDotColumns(total: number): number {
+    return Math.max(Math.min(total, DOT_GRID.columns), 1);
+}
+
+/**
+ * Position of every dot in the day grid, in reading order (right to left in RTL locales)
+ *
+ * @param bounds - Bounds of the grid
+ * @param total - Number of days
+ * @param direction - Reading direction
+ */
+export function getDotPositions(bounds: Bounds, total: number, direction: TextDirection): Dot[] {
+    const columns = getDotColumns(total);
+    const cell = bounds.width / columns;
+
+    return Array.from({ length: total }, (_, i) => {
+        const row = Math.floor(i / columns);
+        const column = direction === 'rtl' ? columns - 1 - (i % columns) : i % columns;
+        return {
+            x: bounds.x + cell * (column + 0.5),
+            y: bounds.y + cell * (row + 0.5),
+            radius: cell * DOT_GRID.dotScale,
+        };
+    });
+}
+
+/**
+ * Place the percent counter relative to a progress visual
+ * The tip follows the leading edge of the fill, for visuals without one it is the same as above
+ *
+ * @param position - Counter position
+ * @param bounds - Bounds of the visual
+ * @param tip - Top of the leading edge of the fill, or null
+ */
+export function getCounterPlacement(
+    position: Exclude<CounterPosition, 'none'>,
+    bounds: Bounds,
+    tip: { x: number; y: number } | null
+): CounterPlacement {
+    if (position === 'inside') {
+        return {
+            x: bounds.x + bounds.width / 2,
+            y: bounds.y + bounds.height / 2,
+            fontSize: Math.min(bounds.height * COUNTER.insideScale, COUNTER.maxInside),
+        };
+    }
+
+    const center = { x: bounds.x + bounds.width / 2, y: bounds.y };
+    const anchor = position === 'tip' && tip ? tip : center;
+    return {
+        x: Math.min(Math.max(anchor.x, bounds.x), bounds.x + bounds.width),
+        y: anchor.y - COUNTER.gap - COUNTER.fontSize / 2,
+        fontSize: COUNTER.fontSize,
+    };
+}
+
+/**
+ * How full each bulb of the hourglass is, as the height of the sand measured from the neck
+ * relative to the bulb height; the same value for both bulbs since they are mirror images
+ * (sand area grows with the square of its height)
+ *
+ * @param progress - Sand fallen (0-1)
+ */
+export function getSandLevel(progress: number): number {
+    return Math.sqrt(1 - Math.min(Math.max(progress, 0), 1));
+}
+
+/**
+ * Bounds of a square or rectangle centered on the canvas
+ */
+function centered(
+    config: Pick<RenderConfig, 'width' | 'height'>,
+    width: number,
+    height: number
+): Bounds {
+    return {
+        x: config.width / 2 - width / 2,
+        y: config.height / 2 - height / 2,
+        width,
+        height,
+    };
+}
+
+/**
+ * Fill colors of the visual (the celebration colors on celebration days)
+ */
+function getColors(frame: ProgressFrame): string[] {
+    return frame.celebration
+        ? (frame.theme.bar.celebrationColors ?? frame.theme.bar.colors)
+        : frame.theme.bar.colors;
+}
+
+/**
+ * Linear gradient through the colors, in the reading direction
+ */
+function createGradient(
+    ctx: CanvasRenderingContext2D,
+    bounds: Bounds,
+    colors: string[],
+    direction: TextDirection
+): ReturnType<CanvasRenderingContext2D['createLinearGradient']> {
+    const [start, end] =
+        direction === 'rtl'
+            ? [bounds.x + bounds.width, bounds.x]
+            : [bounds.x, bounds.x + bounds.width];
+    const gradient = ctx.createLinearGradient(start, 0, end, 0);
+    colors.forEach((color, i) => {
+        gradient.addColorStop(i / (colors.length - 1), color);
+    });
+    return gradient;
+}
+
+/**
+ * Draw rounded rectangle
+ */
+export function roundRect(
+    ctx: CanvasRenderingContext2D,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    radius: number
+): void {
+    ctx.beginPath();
+    ctx.moveTo(x + radius, y);
+    ctx.lineTo(x + width - radius, y);
+    ctx.quadraticCurveTo(x + width, y, x + width, y + radius);
+    ctx.lineTo(x + width, y + height - radius);
+    ctx.quadraticCurveTo(x + width, y + height, x + width - radius, y + height);
+    ctx.lineTo(x + radius, y + height);
+    ctx.quadraticCurveTo(x, y + height, x, y + height - radius);
+    ctx.lineTo(x, y + radius);
+    ctx.quadraticCurveTo(x, y, x + radius, y);
+    ctx.closePath();
+}
+
+/**
+ * Fill text, stroking its outline (if any) behind it first
+ */
+export function fillOutlinedText(
+    ctx: CanvasRenderingContext2D,
+    value: string,
+    x: number,
+    y: number,
+    outline: Theme['text']['outline']
+): void {
+    if (outline && outline.width > 0) {
+        ctx.save();
+        ctx.strokeStyle = outline.color;
+        ctx.lineWidth = outline.width;
+        ctx.lineJoin = 'round';
+        ctx.strokeText(value, x, y);
+        ctx.restore();
+    }
+    ctx.fillText(value, x, y);
+}
+
+/**
+ * Draw a polygon through the points
+ */
+function polygon(ctx: CanvasRenderingContext2D, points: Array<[number, number]>): void {
+    ctx.beginPath();
+    points.forEach(([x, y], i) => {
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+    });
+    ctx.closePath();
+}
+
+/**
+ * Draw the percent label centered on a point, styled like the text
+ */
+function drawLabel(
+    ctx: CanvasRenderingContext2D,
+    x: number,
+    y: number,
+    fontSize: number,
+    frame: ProgressFrame
+): void {
+    ctx.save();
+    ctx.font = frame.font(fontSize);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = frame.theme.text.color;
+    ctx.shadowColor = frame.theme.text.shadow.color;
+    ctx.shadowBlur = frame.theme.text.shadow.blur;
+    fillOutlinedText(ctx, frame.label, x, y, frame.theme.text.outline);
+    ctx.restore();
+}
+
+/**
+ * Horizontal bar that fills from the start edge
+ */
+const barLayout: ProgressLayout = {
+    getBounds: (config) => getProgressBarBounds(config),
+
+    getTip: (bar, progress, direction) => ({
+        x: direction === 'rtl' ? bar.x + bar.width * (1 - progress) : bar.x + bar.width * progress,
+        y: bar.y,
+    }),
+
+    draw(ctx, bar, frame) {
+        const { theme, progress, direction } = frame;
+        const radius = theme.bar.radius;
+        const fillWidth = bar.width * progress;
+        const fillX = direction === 'rtl' ? bar.x + bar.width - fillWidth : bar.x;
+
+        // Background bar (track)
+        ctx.fillStyle = theme.bar.trackColor;
+        roundRect(ctx, bar.x, bar.y, bar.width, bar.height, radius);
+        ctx.fill();
+
+        // Progress fill with gradient
+        if (progress > 0) {
+            const fill = { ...bar, x: fillX, width: fillWidth };
+            ctx.fillStyle = createGradient(ctx, fill, getColors(frame), direction);
+            roundRect(ctx, fillX, bar.y, fillWidth, bar.height, radius);
+            ctx.fill();
+        }
+
+        // Border
+        if (theme.bar.borderWidth > 0) {
+            ctx.strokeStyle = theme.bar.borderColor;
+            ctx.lineWidth = theme.bar.borderWidth;
+            roundRect(ctx, bar.x, bar.y, bar.width, bar.height, radius);
+            ctx.stroke();
+        }
+    },
+};
+
+/**
+ * Circular ring that fills clockwise from the top (counterclockwise in RTL locales),
+ * with the percent in the center
+ */
+const ringLayout: ProgressLayout = {
+    getBounds(config) {
+        const size = Math.min(config.width * RING.scale, config.height * RING.maxHeightScale);
+        return centered(config, size, size);
+    },
+
+    draw(ctx, bounds, frame) {
+        const { theme, progress, direction } = frame;
+        const thickness = bounds.width * RING.thickness;
+        const radius = (bounds.width - thickness) / 2;
+        const cx = bounds.x + bounds.width / 2;
+        const cy = bounds.y + bounds.height / 2;
+        const start = -Math.PI / 2;
+        const sweep = Math.PI * 2 * progress;
+
+        ctx.save();
+        ctx.lineWidth = thickness;
+
+        // Track
+        ctx.strokeStyle = theme.bar.trackColor;
+        ctx.beginPath();
+        ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+        ctx.stroke();
+
+        // Progress arc with gradient
+        if (progress > 0) {
+            ctx.strokeStyle = createGradient(ctx, bounds, getColors(frame), direction);
+            ctx.lineCap = theme.bar.radius > 0 ? 'round' : 'butt';
+            ctx.beginPath();
+            if (direction === 'rtl') ctx.arc(cx, cy, radius, start, start - sweep, true);
+            else ctx.arc(cx, cy, radius, start, start + sweep);
+            ctx.stroke();
+        }
+
+        // Border on both edges of the ring
+        if (theme.bar.borderWidth > 0) {
+            ctx.strokeStyle = theme.bar.borderColor;
+            ctx.lineWidth = theme.bar.borderWidth;
+            for (const edge of [radius + thickness / 2, radius - thickness / 2]) {
+                ctx.beginPath();
+                ctx.arc(cx, cy, edge, 0, Math.PI * 2);
+                ctx.stroke();
+            }
+        }
+        ctx.restore();
+
+        drawLabel(ctx, cx, cy, bounds.width * RING.labelScale, frame);
+    },
+};
+
+/**
+ * One dot per day of the period ("year in days"), filled day by day
+ */
+const dotsLayout: ProgressLayout = {
+    getBounds(config, days) {
+        const columns = getDotColumns(days.total);
+        const rows = Math.ceil(days.total / columns);
+        const available = config.width - PROGRESS_BAR.padding * 2;
+        const cell = Math.min(available / columns, DOT_GRID.maxCell);
+        return centered(config, columns * cell, rows * cell);
+    },
+
+    draw(ctx, bounds, frame) {
+        const { theme, direction, days } = frame;
+        const filled = getFilledDays(frame.progress, frame.target, days);
+        const fill = createGradient(ctx, bounds, getColors(frame), direction);
+
+        getDotPositions(bounds, days.total, direction).forEach((dot, i) => {
+            ctx.fillStyle = i < filled ? fill : theme.bar.trackColor;
+            ctx.beginPath();
+            ctx.arc(dot.x, dot.y, dot.radius, 0, Math.PI * 2);
+            ctx.fill();
+        });
+    },
+};
+
+/**
+ * Battery icon that charges from the start edge, with the percent in the middle
+ * (the cap is on the end edge)
+ */
+const batteryLayout: ProgressLayout = {
+    getBounds(config) {
+        const width = Math.min(config.width * BATTERY.scale, BATTERY.maxWidth);
+        return centered(config, width, width * BATTERY.aspect);
+    },
+
+    draw(ctx, bounds, frame) {
+        const { theme, progress, direction } = frame;
+        const capWidth = bounds.height * BATTERY.capWidth;
+        const capHeight = bounds.height * BATTERY.capHeight;
+        const border = Math.max(theme.bar.borderWidth, 1);
+        const inset = border * 2;
+        const radius = theme.bar.radius;
+        const body = {
+            x: direction === 'rtl' ? bounds.x + capWidth : bounds.x,
+            y: bounds.y,
+            width: bounds.width - capWidth,
+            height: bounds.height,
+        };
+        const inner = {
+            x: body.x + inset,
+            y: body.y + inset,
+            width: body.width - inset * 2,
+            height: body.height - inset * 2,
+        };
+        const capX = direction === 'rtl' ? bounds.x : body.x + body.width;
+        const fillWidth = inner.width * progress;
+        const fillX = direction === 'rtl' ? inner.x + inner.width - fillWidth : inner.x;
+        const fillRadius = Math.min(radius, fillWidth / 2);
+
+        // Body (track) and cap
+        ctx.fillStyle = theme.bar.trackColor;
+        roundRect(ctx, body.x, body.y, body.width, body.height, radius);
+        ctx.fill();
+        ctx.fillStyle = theme.bar.borderColor;
+        roundRect(
+            ctx,
+            capX,
+            body.y + (body.height - capHeight) / 2,
+            capWidth,
+            capHeight,
+            Math.min(radius, capWidth / 2)
+        );
+        ctx.fill();
+
+        // Charge with gradient
+        if (progress > 0) {
+            ctx.fillStyle = createGradient(ctx, inner, getColors(frame), direction);
+            roundRect(ctx, fillX, inner.y, fillWidth, inner.height, fillRadius);
+            ctx.fill();
+        }
+
+        // Border
+        ctx.strokeStyle = theme.bar.borderColor;
+        ctx.lineWidth = border;
+        roundRect(ctx, body.x, body.y, body.width, body.height, radius);
+        ctx.stroke();
+
+        drawLabel(
+            ctx,
+            body.x + body.width / 2,
+            body.y + body.height / 2,
+            body.height * BATTERY.labelScale,
+            frame
+        );
+    },
+};
+
+/**
+ * Hourglass whose sand runs from the top bulb to the bottom one
+ */
+const hourglassLayout: ProgressLayout = {
+    getBounds(config) {
+        const width = config.width * HOURGLASS.scale;
+        return centered(config, width, width * HOURGLASS.aspect);
+    },
+
+    draw(ctx, bounds, frame) {
+        const { theme, progress } = frame;
+        const left = bounds.x;
+        const right = bounds.x + bounds.width;
+        const cx = bounds.x + bounds.width / 2;
+        const top = bounds.y;
+        const bottom = bounds.y + bounds.height;
+        const neck = bounds.y + bounds.height / 2;
+        const bulb = bounds.height / 2;
+        const level = getSandLevel(progress);
+        const sandWidth = bounds.width * level;
+        const sand = createGradient(ctx, bounds, getColors(frame), frame.direction);
+        const glass: Array<[number, number]> = [
+            [left, top],
+            [right, top],
+            [cx, neck],
+            [right, bottom],
+            [left, bottom],
+            [cx, neck],
+        ];
+
+        // Glass (track)
+        ctx.fillStyle = theme.bar.trackColor;
+        polygon(ctx, glass);
+        ctx.fill();
+
+        ctx.fillStyle = sand;
+
+        // Sand left in the top bulb
+        if (level > 0) {
+            polygon(ctx, [
+                [cx - sandWidth / 2, neck - bulb * level],
+                [cx + sandWidth / 2, neck - bulb * level],
+                [cx, neck],
+            ]);
+            ctx.fill();
+        }
+
+        // Sand piled in the bottom bulb
+        if (progress > 0) {
+            polygon(ctx, [
+                [cx - sandWidth / 2, neck + bulb * level],
+                [cx + sandWidth / 2, neck + bulb * level],
+                [right, bottom],
+                [left, bottom],
+            ]);
+            ctx.fill();
+        }
+
+        // Stream of falling sand while the animation runs
+        if (progress > 0 && progress < frame.target) {
+            ctx.fillRect(
+                cx - HOURGLASS.streamWidth / 2,
+                neck,
+                HOURGLASS.streamWidth,
+                bulb * level
+            );
+        }
+
+        // Frame
+        ctx.strokeStyle = theme.bar.borderColor;
+        ctx.lineWidth = Math.max(theme.bar.borderWidth, 1);
+        ctx.lineJoin = 'round';
+        polygon(ctx, glass);
+        ctx.stroke();
+    },
+};
+
+/**
+ * Progress visuals by name
+ */
+export const PROGRESS_LAYOUTS: Record<ProgressLayoutName, ProgressLayout> = {
+    bar: barLayout,
+    ring: ringLayout,
+    dots: dotsLayout,
+    battery: batteryLayout,
+    hourglass: hourglassLayout,
+};
+
+/**
+ * Draw the percent counter of a frame next to or inside a progress visual
+ *
+ * @param ctx - Canvas context
+ * @param layout - Progress visual
+ * @param bounds - Bounds of the visual
+ * @param position - Counter position
+ * @param frame - Frame being drawn
+ */
+export function drawCounter(
+    ctx: CanvasRenderingContext2D,
+    layout: ProgressLayout,
+    bounds: Bounds,
+    position: CounterPosition,
+    frame: ProgressFrame
+): void {
+    if (position === 'none') return;
+
+    const tip = layout.getTip?.(bounds, Math.min(frame.progress, 1), frame.direction) ?? null;
+    const placement = getCounterPlacement(position, bounds, tip);
+    drawLabel(ctx, placement.x, placement.y, placement.fontSize, frame);
+}
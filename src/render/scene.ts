@@ -0,0 +1,130 @@
+import type { RenderConfig, Scene, SceneElement, SceneKeyframe } from '../types/index.js';
+import {
+    compileTemplate,
+    findMissingVariables,
+    type CompiledTemplate,
+    type TemplateVariables,
+} from '../utils/template-engine.js';
+import type { Bounds } from './text-layout.js';
+
+/**
+ * Where and how an element is drawn on a frame, after its keyframes are applied
+ */
+export interface ElementState {
+    bounds: Bounds;
+    opacity: number;
+    /** Rotation around the center, in radians */
+    rotation: number;
+    scale: number;
+}
+
+/**
+ * Value of a keyframed property at a time: linear between keyframes, held before the
+ * first and after the last
+ *
+ * @param keyframes - Keyframes in time order
+ * @param time - Seconds from the start of the video
+ */
+export function interpolateKeyframes(keyframes: SceneKeyframe[], time: number): number {
+    const next = keyframes.findIndex((k) => k.time > time);
+    const after = keyframes[next];
+    const before = keyframes[next === -1 ? keyframes.length - 1 : next - 1];
+
+    if (!before) return after?.value ?? 0;
+    if (!after) return before.value;
+
+    const t = (time - before.time) / (after.time - before.time);
+    return before.value + (after.value - before.value) * t;
+}
+
+/**
+ * Properties of an element on a frame
+ * Background, overlay and confetti elements always cover the whole canvas
+ *
+ * @param element - Scene element
+ * @param time - Seconds from the start of the video
+ * @param config - Render configuration (canvas size)
+ */
+export function getElementState(
+    element: SceneElement,
+    time: number,
+    config: Pick<RenderConfig, 'width' | 'height'>
+): ElementState {
+    const value = (property: keyof SceneElement['keyframes'], base: number): number => {
+        const keyframes = element.keyframes[property];
+        return keyframes ? interpolateKeyframes(keyframes, time) : base;
+    };
+    const fullCanvas = ['background', 'overlay', 'confetti'].includes(element.type);
+
+    return {
+        bounds: fullCanvas
+            ? { x: 0, y: 0, width: config.width, height: config.height }
+            : {
+                  x: value('x', element.x),
+                  y: value('y', element.y),
+                  width: value('width', element.width),
+                  height: value('height', element.height),
+              },
+        opacity: Math.min(Math.max(value('opacity', element.opacity), 0), 1),
+        rotation: (value('rotation', element.rotation) * Math.PI) / 180,
+        scale: value('scale', element.scale),
+    };
+}
+
+/**
+ * Rectangle to draw an image into so it covers or fits inside a box, keeping its aspect ratio
+ *
+ * @param imageWidth - Image width in pixels
+ * @param imageHeight - Image height in pixels
+ * @param box - Box to fill
+ * @param fit - 'cover' fills the box (and overflows), 'contain' fits inside it
+ */
+export function fitImage(
+    imageWidth: number,
+    imageHeight: number,
+    box: Bounds,
+    fit: 'cover' | 'contain'
+): Bounds {
+    const scales = [box.width / imageWidth, box.height / imageHeight];
+    const scale = fit === 'cover' ? Math.max(...scales) : Math.min(...scales);
+    const width = imageWidth * scale;
+    const height = imageHeight * scale;
+
+    return {
+        x: box.x + (box.width - width) / 2,
+        y: box.y + (box.height - height) / 2,
+        width,
+        height,
+    };
+}
+
+/**
+ * Compile the text element templates of a scene once for all frames
+ *
+ * @param variables - Variables of every frame (progressLabel is added per frame)
+ * @throws Error if a template uses a variable the content does not provide
+ */
+export function compileSceneTemplates(
+    scene: Scene,
+    variables: TemplateVariables
+): Map<string, CompiledTemplate> {
+    const templates = new Map<string, CompiledTemplate>();
+    const available = { ...variables, progressLabel: '' };
+
+    for (const element of scene.elements) {
+        if (element.type !== 'text' || templates.has(element.template)) continue;
+
+        const template = compileTemplate(element.template);
+        const missing = findMissingVariables(template, available);
+        if (missing.length > 0) {
+            throw new Error(
+                `Scene "${scene.name}": template "${element.template}" uses variable(s) the ` +
+                    `content does not provide: ${missing.join(', ')} ` +
+                    `(available: ${Object.keys(available).join(', ')})`
+            );
+        }
+        templates.set(element.template, template);
+    }
+
+    return templates;
+}
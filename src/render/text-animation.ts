@@ -0,0 +1,149 @@
+import type { AnimationTiming, TextAnimationPreset } from '../types/index.js';
+import { ease } from './easing.js';
+import { splitGraphemes } from './emoji.js';
+import type { FrameTiming } from './timing.js';
+
+/** Number of words popping in at the same time with word-pop */
+const WORD_POP_OVERLAP = 2;
+
+/**
+ * Opacity, vertical offset and scale of a line (or word) on a frame
+ */
+export interface EntranceState {
+    opacity: number;
+    /** Pixels below its place */
+    offset: number;
+    /** Scale around its center */
+    scale: number;
+}
+
+/**
+ * Horizontal span of a word, in pixels from the start edge of its line
+ */
+export interface WordSpan {
+    start: number;
+    end: number;
+}
+
+/**
+ * Seconds from the start of the video to the entrance of the first line
+ *
+ * @param text - Text entrance timing
+ * @param timing - Frame counts of the render
+ * @param fps - Frames per second
+ */
+export function getTextStartTime(
+    text: AnimationTiming['text'],
+    timing: FrameTiming,
+    fps: number
+): number {
+    const anchors = {
+        video: 0,
+        'bar-start': timing.delayFrames / fps,
+        'bar-end': timing.animationFrames / fps,
+    };
+    return Math.max(anchors[text.anchor] + text.delay, 0);
+}
+
+/**
+ * Entrance progress (0-1) of a line at a time; successive lines start a stagger apart
+ *
+ * @param time - Seconds from the start of the video
+ * @param start - Seconds to the entrance of the first line
+ * @param line - Index of the line, top to bottom
+ * @param text - Text entrance timing
+ */
+export function getLineProgress(
+    time: number,
+    start: number,
+    line: number,
+    text: Pick<AnimationTiming['text'], 'duration' | 'stagger'>
+): number {
+    const elapsed = time - start - line * text.stagger;
+    return Math.min(Math.max(elapsed / text.duration, 0), 1);
+}
+
+/**
+ * Progress (0-1) of one of several items that animate one after another, a few at a time,
+ * all finishing together with the whole
+ *
+ * @param progress - Progress of the whole (0-1)
+ * @param index - Index of the item
+ * @param count - Number of items
+ * @param overlap - Items animating at the same time
+ */
+export function getStaggeredProgress(
+    progress: number,
+    index: number,
+    count: number,
+    overlap: number = WORD_POP_OVERLAP
+): number {
+    const span = overlap / (count + overlap - 1);
+    const start = (index * span) / overlap;
+    return Math.min(Math.max((progress - start) / span, 0), 1);
+}
+
+/**
+ * State of a whole line for the presets that move lines (fade, slide-up, scale-bounce)
+ *
+ * @param preset - Entrance preset
+ * @param progress - Entrance progress of the line (0-1)
+ * @param slide - Distance slide-up rises, in pixels
+ */
+export function getLineEntrance(
+    preset: TextAnimationPreset,
+    progress: number,
+    slide: number
+): EntranceState {
+    switch (preset) {
+        case 'slide-up':
+            return {
+                opacity: progress,
+                offset: slide * (1 - ease('ease-out-cubic', progress)),
+                scale: 1,
+            };
+        case 'scale-bounce':
+            return {
+                opacity: Math.min(progress * 2, 1),
+                offset: 0,
+                scale: Math.max(ease('elastic', progress), 0),
+            };
+        default:
+            return { opacity: progress, offset: 0, scale: 1 };
+    }
+}
+
+/**
+ * State of a word popping in (grows past full size and settles)
+ */
+export function getWordPop(progress: number): EntranceState {
+    return {
+        opacity: Math.min(progress * 3, 1),
+        offset: 0,
+        scale: Math.max(ease('overshoot', progress), 0),
+    };
+}
+
+/**
+ * Characters typed so far (whole grapheme clusters, so emoji appear at once)
+ *
+ * @param text - Line of text
+ * @param progress - Entrance progress of the line (0-1)
+ */
+export function getTypedText(text: string, progress: number): string {
+    const graphemes = splitGraphemes(text);
+    return graphemes.slice(0, Math.floor(graphemes.length * progress)).join('');
+}
+
+/**
+ * Spans of the words of a line, measured from its start edge
+ *
+ * @param text - Line of text
+ * @param measure - Width of a prefix of the line
+ */
+export function getWordSpans(text: string, measure: (prefix: string) => number): WordSpan[] {
+    return [...text.matchAll(/\S+/g)].map((match) => ({
+        start: measure(text.slice(0, match.index)),
+        end: measure(text.slice(0, (match.index ?? 0) + match[0].length)),
+    }));
+}
@@ -0,0 +1,361 @@
+import type { RenderConfig, TextAlignment, TextDirection } from '../types/index.js';
+
+/** Languages written right to left */
+const RTL_LANGUAGES = new Set(['ar', 'arc', 'ckb', 'dv', 'fa', 'he', 'ps', 'sd', 'ug', 'ur', 'yi']);
+
+/** Hebrew, Arabic, Syriac, Thaana, N'Ko and their presentation forms */
+const RTL_CHARACTER = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufefc]/u;
+
+/** Letters that are not right-to-left (Latin, Greek, Cyrillic, CJK, ...) */
+const LTR_CHARACTER = /\p{L}/u;
+
+/** Marks that set the base direction of text whose first characters are neutral */
+const DIRECTION_MARKS: Record<TextDirection, string> = {
+    ltr: '\u200e',
+    rtl: '\u200f',
+};
+
+/**
+ * Canvas alignment and anchor for a line of text
+ */
+export interface TextPlacement {
+    /** Canvas textAlign value (node-canvas has no `direction`, so start/end are resolved here) */
+    textAlign: 'left' | 'right' | 'center';
+    /** X coordinate to draw at */
+    x: number;
+}
+
+/**
+ * Writing direction of a locale (e.g., 'ar' -> 'rtl', 'en-US' -> 'ltr')
+ */
+export function getLocaleDirection(locale: string): TextDirection {
+    const language = locale.split('-')[0]?.toLowerCase() ?? '';
+    return RTL_LANGUAGES.has(language) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Direction of the first strong character (Unicode bidi rule P2), or null if there is none
+ */
+export function detectTextDirection(text: string): TextDirection | null {
+    for (const char of text) {
+        if (RTL_CHARACTER.test(char)) return 'rtl';
+        if (LTR_CHARACTER.test(char)) return 'ltr';
+    }
+    return null;
+}
+
+/**
+ * Base direction of a line: from its own letters, or the locale for numbers and symbols only
+ */
+export function resolveTextDirection(text: string, locale: string): TextDirection {
+    return detectTextDirection(text) ?? getLocaleDirection(locale);
+}
+
+/**
+ * Prefix a line with a direction mark so the shaper lays it out in the base direction
+ * (e.g., '37% ...' in Arabic keeps the number on the right)
+ */
+export function applyBaseDirection(text: string, direction: TextDirection): string {
+    return `${DIRECTION_MARKS[direction]}${text}`;
+}
+
+/**
+ * Font families to try for a locale, most preferred first
+ *
+ * @param locale - BCP 47 locale
+ * @param primary - Primary font family
+ * @param fallbacks - Fallback families per language (e.g., { ar: ['Noto Naskh Arabic'] })
+ * @returns Primary family, the language fallbacks, then the generic sans-serif family
+ */
+export function getFontFallbackChain(
+    locale: string,
+    primary: string,
+    fallbacks: Readonly<Record<string, readonly string[]>>
+): string[] {
+    const language = locale.split('-')[0]?.toLowerCase() ?? '';
+    const families = [primary, ...(fallbacks[locale] ?? fallbacks[language] ?? []), 'sans-serif'];
+    return [...new Set(families)];
+}
+
+/**
+ * Format font families for a CSS font string (e.g., '"Primary", "Noto Sans Hebrew", sans-serif')
+ */
+export function formatFontFamilies(families: string[]): string {
+    const generic = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy']);
+    return families.map((f) => (generic.has(f) ? f : `"${f}"`)).join(', ');
+}
+
+/**
+ * Family name of a font file (e.g., 'Noto_Naskh_Arabic-Bold.ttf' -> 'Noto Naskh Arabic')
+ */
+export function getFontFamilyFromFileName(fileName: string): string {
+    const base = fileName.replace(/\.(ttf|otf)$/i, '');
+    return base.split('-')[0]?.replace(/_/g, ' ').trim() ?? base;
+}
+
+/**
+ * Place a line of text for an alignment; start and end follow the text direction
+ *
+ * @param alignment - Alignment relative to the reading direction
+ * @param direction - Base direction of the line
+ * @param width - Canvas width
+ * @param margin - Horizontal margin for start/end alignment
+ */
+export function getTextPlacement(
+    alignment: TextAlignment,
+    direction: TextDirection,
+    width: number,
+    margin: number
+): TextPlacement {
+    if (alignment === 'center') return { textAlign: 'center', x: width / 2 };
+
+    const alignLeft = (alignment === 'start') === (direction === 'ltr');
+    return alignLeft
+        ? { textAlign: 'left', x: margin }
+        : { textAlign: 'right', x: width - margin };
+}
+
+/** Progress bar size in pixels (centered vertically) */
+export const PROGRESS_BAR = { height: 60, padding: 120 } as const;
+
+/** Line that separates text above the bar from text below it */
+export const TEXT_BLOCK_SEPARATOR = '---';
+
+/** Space between the bar and the nearest line of text */
+const TEXT_GAP = 80;
+
+/** Line height as a multiple of the font size */
+const LINE_HEIGHT = 1.2;
+
+/** Smallest font size, as a fraction of the configured size */
+const MIN_FONT_SCALE = 0.4;
+
+/** Font size reduction per fitting attempt */
+const FONT_SIZE_STEP = 2;
+
+/**
+ * Measure the width of text at a font size (line is the index of the source line,
+ * for styles that differ per line)
+ */
+export type MeasureText = (text: string, fontSize: number, line: number) => number;
+
+/**
+ * Lines of a text block at the font size that fits its box
+ */
+export interface TextBlockLayout {
+    fontSize: number;
+    lines: string[];
+    /** Index of the source line each wrapped line came from */
+    sourceLines: number[];
+}
+
+/**
+ * A line of text and where to draw it (y is the middle of the line)
+ */
+export interface PositionedLine {
+    text: string;
+    y: number;
+    fontSize: number;
+    /** Index of the source line in the whole text, top to bottom */
+    line: number;
+}
+
+/**
+ * Rectangle on the canvas
+ */
+export interface Bounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Bounds of the progress bar
+ */
+export function getProgressBarBounds(config: Pick<RenderConfig, 'width' | 'height'>): Bounds {
+    return {
+        x: PROGRESS_BAR.padding,
+        y: config.height / 2 - PROGRESS_BAR.height / 2,
+        width: config.width - PROGRESS_BAR.padding * 2,
+        height: PROGRESS_BAR.height,
+    };
+}
+
+/**
+ * Split text into the lines above and below the bar
+ * Lines before a '---' line go above and the rest below; without a separator
+ * the first line goes above and the rest below
+ */
+export function splitTextBlocks(text: string): { above: string[]; below: string[] } {
+    const lines = text.split('\n').map((line) => line.trim());
+    const separator = lines.indexOf(TEXT_BLOCK_SEPARATOR);
+    const nonEmpty = (items: string[]): string[] => items.filter((line) => line.length > 0);
+
+    if (separator === -1) {
+        return { above: nonEmpty(lines.slice(0, 1)), below: nonEmpty(lines.slice(1)) };
+    }
+    return {
+        above: nonEmpty(lines.slice(0, separator)),
+        below: nonEmpty(lines.slice(separator + 1)),
+    };
+}
+
+/**
+ * Remove '---' separator lines (e.g., for the post caption)
+ */
+export function removeTextBlockSeparators(text: string): string {
+    return text
+        .split('\n')
+        .filter((line) => line.trim() !== TEXT_BLOCK_SEPARATOR)
+        .join('\n');
+}
+
+/**
+ * Wrap a line at word boundaries so each line fits a width
+ * (a single word wider than the width keeps a line of its own)
+ */
+export function wrapText(
+    text: string,
+    maxWidth: number,
+    fontSize: number,
+    measure: MeasureText,
+    line: number = 0
+): string[] {
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of text.split(/\s+/).filter((w) => w.length > 0)) {
+        const candidate = current === '' ? word : `${current} ${word}`;
+        if (current !== '' && measure(candidate, fontSize, line) > maxWidth) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = candidate;
+        }
+    }
+
+    if (current !== '') lines.push(current);
+    return lines;
+}
+
+/**
+ * Wrap lines and shrink the font until the block fits a box
+ *
+ * @param lines - Lines of the block (each is wrapped separately)
+ * @param box - Available width and height
+ * @param maxFontSize - Preferred font size
+ * @param measure - Text measuring function
+ * @returns Wrapped lines at the largest font size that fits (or the smallest size allowed)
+ */
+export function fitTextBlock(
+    lines: string[],
+    box: { width: number; height: number },
+    maxFontSize: number,
+    measure: MeasureText
+): TextBlockLayout {
+    const minFontSize = Math.max(Math.floor(maxFontSize * MIN_FONT_SCALE), 1);
+    let fontSize = maxFontSize;
+
+    for (;;) {
+        const wrapped = lines.flatMap((text, line) =>
+            wrapText(text, box.width, fontSize, measure, line).map((part) => ({ part, line }))
+        );
+        const fits =
+            wrapped.every(({ part, line }) => measure(part, fontSize, line) <= box.width) &&
+            wrapped.length * fontSize * LINE_HEIGHT <= box.height;
+
+        if (fits || fontSize <= minFontSize) {
+            return {
+                fontSize,
+                lines: wrapped.map(({ part }) => part),
+                sourceLines: wrapped.map(({ line }) => line),
+            };
+        }
+        fontSize = Math.max(fontSize - FONT_SIZE_STEP, minFontSize);
+    }
+}
+
+/**
+ * Lay out text above and below the progress visual so no line overlaps it or the edges
+ * Each block is anchored to the visual: the block above grows upwards, the block below downwards
+ *
+ * @param text - Text with one line per row ('---' separates above from below)
+ * @param config - Render configuration
+ * @param measure - Text measuring function
+ * @param bar - Bounds of the progress visual (defaults to the bar)
+ */
+export function layoutTextAroundBar(
+    text: string,
+    config: Pick<RenderConfig, 'width' | 'height' | 'fontSize' | 'textMargin'>,
+    measure: MeasureText,
+    bar: Bounds = getProgressBarBounds(config)
+): PositionedLine[] {
+    const { above, below } = splitTextBlocks(text);
+    const width = config.width - config.textMargin * 2;
+    const aboveBottom = bar.y - TEXT_GAP;
+    const belowTop = bar.y + bar.height + TEXT_GAP;
+
+    const aboveLayout = fitTextBlock(
+        above,
+        { width, height: aboveBottom - config.textMargin },
+        config.fontSize,
+        measure
+    );
+    const belowLayout = fitTextBlock(
+        below,
+        { width, height: config.height - config.textMargin - belowTop },
+        config.fontSize * 0.8,
+        (text, fontSize, line) => measure(text, fontSize, above.length + line)
+    );
+
+    const position = (
+        layout: TextBlockLayout,
+        top: number,
+        firstLine: number
+    ): PositionedLine[] => {
+        const lineHeight = layout.fontSize * LINE_HEIGHT;
+        return layout.lines.map((text, i) => ({
+            text,
+            y: top + lineHeight * (i + 0.5),
+            fontSize: layout.fontSize,
+            line: firstLine + (layout.sourceLines[i] ?? 0),
+        }));
+    };
+
+    const aboveHeight = aboveLayout.lines.length * aboveLayout.fontSize * LINE_HEIGHT;
+    return [
+        ...position(aboveLayout, aboveBottom - aboveHeight, 0),
+        ...position(belowLayout, belowTop, above.length),
+    ];
+}
+
+/**
+ * Wrap and fit text into a box, centered vertically (e.g., a text element of a scene)
+ *
+ * @param text - Text with one line per row
+ * @param box - Box to fit the text into
+ * @param maxFontSize - Preferred font size
+ * @param measure - Text measuring function
+ */
+export function layoutTextInBox(
+    text: string,
+    box: Bounds,
+    maxFontSize: number,
+    measure: MeasureText
+): PositionedLine[] {
+    const lines = text
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+    const layout = fitTextBlock(lines, box, maxFontSize, measure);
+    const lineHeight = layout.fontSize * LINE_HEIGHT;
+    const top = box.y + (box.height - layout.lines.length * lineHeight) / 2;
+
+    return layout.lines.map((line, i) => ({
+        text: line,
+        y: top + lineHeight * (i + 0.5),
+        fontSize: layout.fontSize,
+        line: layout.sourceLines[i] ?? 0,
+    }));
+}
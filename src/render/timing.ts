@@ -0,0 +1,146 @@
+import type {
+    AnimationOverrides,
+    AnimationTiming,
+    EasingName,
+    RenderConfig,
+} from '../types/index.js';
+import { MAX_PRECISION } from '../utils/precision.js';
+import { ease } from './easing.js';
+
+/**
+ * Frame counts for a render
+ */
+export interface FrameTiming {
+    /** Total frames in the video */
+    totalFrames: number;
+    /** Frames spent animating the progress bar (including the delay) */
+    animationFrames: number;
+    /** Frames before the bar starts filling */
+    delayFrames: number;
+}
+
+/**
+ * Clamp a percent to 0-100 (fractional values are kept)
+ */
+export function clampPercent(percent: number): number {
+    return Math.min(Math.max(percent, 0), 100);
+}
+
+/**
+ * Calculate video duration from the percent to animate
+ * Rounded up to a whole frame so fractional percents never produce partial frames
+ *
+ * @param percent - Progress percentage (0-100, may be fractional)
+ * @param showProgressBar - Whether the bar is animated at all
+ * @param config - Render configuration
+ * @param delay - Seconds before the bar starts filling
+ * @returns Duration in seconds
+ */
+export function calculateRenderDuration(
+    percent: number,
+    showProgressBar: boolean,
+    config: Pick<RenderConfig, 'fps' | 'minDuration' | 'animationSpeed' | 'pauseDuration'>,
+    delay: number = 0
+): number {
+    const animationTime = showProgressBar
+        ? delay + clampPercent(percent) / config.animationSpeed
+        : 0;
+    const duration = Math.max(config.minDuration, animationTime + config.pauseDuration);
+    return Math.ceil(duration * config.fps) / config.fps;
+}
+
+/**
+ * Split a duration into delay, animation and hold frames
+ *
+ * @param duration - Video duration in seconds
+ * @param config - Render configuration
+ * @param delay - Seconds before the bar starts filling (at least one frame is left to fill)
+ */
+export function getFrameTiming(
+    duration: number,
+    config: Pick<RenderConfig, 'fps' | 'pauseDuration'>,
+    delay: number = 0
+): FrameTiming {
+    const totalFrames = Math.round(config.fps * duration);
+    const pauseFrames = Math.round(config.fps * config.pauseDuration);
+    const animationFrames = Math.max(totalFrames - pauseFrames, 1);
+    return {
+        totalFrames,
+        animationFrames,
+        delayFrames: Math.min(Math.round(config.fps * delay), animationFrames - 1),
+    };
+}
+
+/**
+ * Bar progress (0-1) shown on a frame: empty during the delay, fills up to the percent
+ * along the easing curve, then holds (overshooting curves are capped at a full bar)
+ *
+ * @param frame - Frame index
+ * @param timing - Frame counts of the render
+ * @param percent - Progress percentage (0-100, may be fractional)
+ * @param easing - Easing curve of the fill (defaults to linear)
+ */
+export function getFrameProgress(
+    frame: number,
+    timing: FrameTiming,
+    percent: number,
+    easing: EasingName = 'linear'
+): number {
+    const target = clampPercent(percent) / 100;
+    if (frame >= timing.animationFrames) return target;
+
+    const t = (frame - timing.delayFrames) / (timing.animationFrames - timing.delayFrames);
+    return Math.min(Math.max(ease(easing, t) * target, 0), 1);
+}
+
+/**
+ * Copy of an object without its undefined values
+ */
+function definedValues<T extends object>(values: Partial<T>): Partial<T> {
+    return Object.fromEntries(
+        Object.entries(values).filter(([, value]) => value !== undefined)
+    ) as Partial<T>;
+}
+
+/**
+ * Apply per-render animation settings over a theme's (unset values keep the theme's)
+ */
+export function mergeAnimation(
+    base: AnimationTiming,
+    overrides: AnimationOverrides = {}
+): AnimationTiming {
+    return {
+        easing: overrides.easing ?? base.easing,
+        delay: overrides.delay ?? base.delay,
+        text: { ...base.text, ...definedValues(overrides.text ?? {}) },
+    };
+}
+
+/**
+ * Decimal places of a percent (e.g., 37.25 -> 2), capped at the maximum precision
+ */
+export function getDecimalPlaces(percent: number): number {
+    const [, fraction = ''] = String(percent).split('.');
+    return Math.min(fraction.length, MAX_PRECISION);
+}
+
+/**
+ * Percent counted up to on a frame, truncated to the precision so the count never runs
+ * ahead of the visual (e.g., 0.1234 of 37.25 -> 12.34); once the fill reaches the percent
+ * it is the exact percent, so it formats like the text does
+ *
+ * @param progress - Progress shown on the frame (0-1)
+ * @param percent - Final percent (0-100)
+ * @param precision - Decimal places shown (defaults to those of the percent)
+ */
+export function getFramePercent(
+    progress: number,
+    percent: number,
+    precision: number = getDecimalPlaces(percent)
+): number {
+    const target = clampPercent(percent);
+    if (progress * 100 >= target - 1e-9) return target;
+
+    const scale = 10 ** precision;
+    return Math.min(Math.floor(progress * 100 * scale + 1e-6) / scale, target);
+}
@@ -17,13 +17,45 @@ export interface ContentGenerator {
     readonly contentType: string;
 
     /** Generate content and return the result */
-    generate(): Promise<GeneratedContent>;
+    generate(options?: GenerateOptions): Promise<GeneratedContent>;
 
     /** Check if new content should be generated (prevents duplicates) */
     shouldGenerate(lastState: StateData | null): Promise<boolean>;
 
     /** Get the unique identifier for the current content (e.g., percentage, date) */
     getCurrentIdentifier(): string | number;
+
+    /** Build the state to persist after a successful post, from the state it replaces */
+    createState(lastState?: StateData | null): StateData;
+}
+
+/**
+ * Options for a single generate() call
+ */
+export interface GenerateOptions {
+    /** Locale of the captions and on-video text (BCP 47, e.g., 'es', 'pt-BR') */
+    locale?: string;
+
+    /** State of the last post (e.g., where a rotation left off) */
+    lastState?: StateData | null;
+
+    /** Theme name, or 'random' to pick any theme (milestone themes take precedence) */
+    theme?: string;
+
+    /** Progress visual (defaults to the theme's layout) */
+    layout?: ProgressLayoutName;
+
+    /** Scene to compose the video from (defaults to the built-in composition) */
+    scene?: string;
+
+    /** Animation settings (defaults to the theme's) */
+    animation?: AnimationOverrides;
+
+    /** Animated percent counter (defaults to the theme's) */
+    counter?: CounterPosition;
+
+    /** Background motion and slideshow (unset values come from the theme) */
+    background?: Partial<BackgroundSettings>;
 }
 
 /**
@@ -59,6 +91,18 @@ export interface ContentMetadata {
     /** Audio track used */
     audio: string;
 
+    /** Theme the video was rendered with */
+    theme: string;
+
+    /** Progress visual the video was rendered with */
+    layout: ProgressLayoutName;
+
+    /** Scene the video was composed from, or null for the built-in composition */
+    scene: string | null;
+
+    /** Background luminance and the text style picked for it (null if not adaptive) */
+    contrast: ContrastReport | null;
+
     /** Generation timestamp */
     generatedAt: string;
 
@@ -171,6 +215,358 @@ export interface YearProgress {
     date: string;
 }
 
+/**
+ * How often a progress post is triggered:
+ * once per integer percent, once per day, or once per N tenths of a percent
+ */
+export type PostGranularity = 'percent' | 'day' | `tenths:${number}`;
+
+/**
+ * Significant days of the year that get a special edition
+ * (first day, 25/50/75/99% and the last day, which is the only 100% day)
+ */
+export type YearMilestone =
+    | 'firstDay'
+    | 'quarter'
+    | 'half'
+    | 'threeQuarters'
+    | 'almostDone'
+    | 'lastDay';
+
+/**
+ * Year progress in a non-Gregorian calendar (Hijri, Hebrew, Persian, Chinese, ...)
+ * `year`, `dayOfYear` and `totalDays` are counted in that calendar
+ */
+export interface CalendarYearProgress extends YearProgress {
+    /** Unicode calendar identifier (e.g., 'islamic-umalqura') */
+    calendar: string;
+
+    /** Display name of the calendar (e.g., 'Hijri') */
+    calendarName: string;
+
+    /** Current month name in the calendar, in English (e.g., 'Heshvan') */
+    monthName: string;
+
+    /** Cyclic year name, for calendars that have one (e.g., 'bing-wu') */
+    yearName?: string;
+
+    /** Gregorian date the calendar year starts on (YYYY-MM-DD) */
+    startDate: string;
+
+    /** Gregorian date the calendar year ends on (YYYY-MM-DD) */
+    endDate: string;
+}
+
+/**
+ * Progress through a named custom period, in the same shape as year progress
+ * (`year`, `dayOfYear` and `totalDays` refer to the current occurrence of the period)
+ */
+export interface NamedPeriodProgress extends YearProgress {
+    /** Period name (e.g., 'fiscal-year-april') */
+    period: string;
+
+    /** Display label (e.g., 'Fiscal Year') */
+    label: string;
+
+    /** First day of the current occurrence (YYYY-MM-DD) */
+    startDate: string;
+
+    /** Last day of the current occurrence (YYYY-MM-DD) */
+    endDate: string;
+
+    /** Whether the date falls inside the occurrence */
+    isActive: boolean;
+}
+
+/**
+ * Progress through a calendar period (month, quarter, week, ...)
+ */
+export interface PeriodProgress {
+    /** Percentage of the period completed (0-100) */
+    percent: number;
+
+    /** Current day of the period (1-indexed) */
+    dayOfPeriod: number;
+
+    /** Total days in the period */
+    totalDays: number;
+
+    /** First day of the period (YYYY-MM-DD) */
+    startDate: string;
+
+    /** Last day of the period (YYYY-MM-DD) */
+    endDate: string;
+
+    /** Current date ISO string */
+    date: string;
+}
+
+/**
+ * Holiday from the local holiday calendar file
+ * `date` is a fixed date (YYYY-MM-DD) or a yearly date (MM-DD)
+ */
+export interface HolidayDefinition {
+    /** Holiday name (e.g., 'Christmas Day') */
+    name: string;
+
+    /** Fixed date (YYYY-MM-DD) or yearly date (MM-DD) */
+    date: string;
+}
+
+/**
+ * Statistics about the time left until the end of the year or period
+ * All values exclude the current day
+ */
+export interface ProgressStatistics {
+    /** Days left */
+    daysLeft: number;
+
+    /** Whole weeks left */
+    weeksLeft: number;
+
+    /** Weekends (Saturday and/or Sunday) left */
+    weekendsLeft: number;
+
+    /** Monday to Friday days left that are not holidays */
+    workdaysLeft: number;
+
+    /** Hours left, counted from the current wall-clock time */
+    hoursLeft: number;
+
+    /** Current quarter (1-4) */
+    quarter: number;
+
+    /** Current month (1-12) */
+    month: number;
+
+    /** Current month name (e.g., 'October') */
+    monthName: string;
+}
+
+/**
+ * Month progress data
+ */
+export interface MonthProgress extends PeriodProgress {
+    year: number;
+
+    /** Month (1-12) */
+    month: number;
+
+    /** Month name (e.g., 'October') */
+    monthName: string;
+}
+
+/**
+ * Quarter progress data
+ */
+export interface QuarterProgress extends PeriodProgress {
+    year: number;
+
+    /** Quarter (1-4) */
+    quarter: number;
+}
+
+/**
+ * ISO week progress data (weeks start on Monday)
+ */
+export interface WeekProgress extends PeriodProgress {
+    /** ISO week-numbering year (can differ from the calendar year around New Year) */
+    isoYear: number;
+
+    /** ISO week number (1-53) */
+    week: number;
+}
+
+/**
+ * Countdown progress towards a target date
+ */
+export interface CountdownProgress {
+    /** Percentage of the time between start and target that has elapsed (0-100) */
+    percent: number;
+
+    /** Days since the start date */
+    daysElapsed: number;
+
+    /** Days until the target date (0 on the day itself) */
+    daysRemaining: number;
+
+    /** Days between the start and target dates */
+    totalDays: number;
+
+    /** Whether today is the target date */
+    isTargetDay: boolean;
+
+    /** Whether the target date has passed */
+    isPast: boolean;
+
+    /** Current date ISO string */
+    date: string;
+}
+
+/**
+ * Calendar date and wall-clock time as seen in a specific timezone
+ */
+export interface ZonedDateParts {
+    year: number;
+
+    /** Month (1-12) */
+    month: number;
+
+    /** Day of month (1-31) */
+    day: number;
+
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+// ============================================
+// Horoscope Types
+// ============================================
+
+/**
+ * Western zodiac signs
+ */
+export type ZodiacSign =
+    | 'aries'
+    | 'taurus'
+    | 'gemini'
+    | 'cancer'
+    | 'leo'
+    | 'virgo'
+    | 'libra'
+    | 'scorpio'
+    | 'sagittarius'
+    | 'capricorn'
+    | 'aquarius'
+    | 'pisces';
+
+/**
+ * Progress through the zodiac season a date falls in
+ */
+export interface ZodiacSeason {
+    /** Sign whose season is running */
+    sign: ZodiacSign;
+
+    /** First day of the season (YYYY-MM-DD) */
+    startDate: string;
+
+    /** Last day of the season (YYYY-MM-DD) */
+    endDate: string;
+
+    /** Current day of the season (1-indexed) */
+    dayOfSeason: number;
+
+    /** Total days in the season */
+    totalDays: number;
+
+    /** Percentage of the season completed (0-100) */
+    percent: number;
+}
+
+/**
+ * Readings of a sign
+ */
+export interface HoroscopeReadings {
+    /** Readings for specific dates, keyed by date (YYYY-MM-DD) */
+    daily: Record<string, string>;
+
+    /** Date-independent readings, rotated through on days without a daily reading */
+    general: string[];
+}
+
+/**
+ * Readings keyed by sign
+ */
+export type HoroscopeDataset = Partial<Record<ZodiacSign, HoroscopeReadings>>;
+
+// ============================================
+// Custom Period Types
+// ============================================
+
+/**
+ * A period that repeats every year between two month-day rules
+ * (e.g., a fiscal year from 04-01 to 03-31, or a season)
+ */
+export interface RecurringPeriodDefinition {
+    name: string;
+    label: string;
+    type: 'recurring';
+
+    /** First day of each occurrence (MM-DD) */
+    start: string;
+
+    /** Last day of each occurrence (MM-DD, may fall in the following year) */
+    end: string;
+
+    /** Which year an occurrence is named after when it spans two years (defaults to 'start') */
+    labelYear?: 'start' | 'end';
+}
+
+/**
+ * A one-off period between two dates (e.g., an academic term)
+ */
+export interface FixedPeriodDefinition {
+    name: string;
+    label: string;
+    type: 'fixed';
+
+    /** First day (YYYY-MM-DD) */
+    start: string;
+
+    /** Last day (YYYY-MM-DD) */
+    end: string;
+}
+
+/**
+ * Named period definition
+ */
+export type PeriodDefinition = RecurringPeriodDefinition | FixedPeriodDefinition;
+
+// ============================================
+// Countdown Types
+// ============================================
+
+/**
+ * A named countdown to a target date
+ */
+export interface CountdownDefinition {
+    /** Unique name used to select the countdown (e.g., 'launch') */
+    name: string;
+
+    /** Display label (e.g., 'Product Launch') */
+    label: string;
+
+    /** Date the countdown starts (YYYY-MM-DD) */
+    start: string;
+
+    /** Target date (YYYY-MM-DD) */
+    target: string;
+}
+
+// ============================================
+// Quote Types
+// ============================================
+
+/**
+ * A quote with its author
+ */
+export interface Quote {
+    text: string;
+    author: string;
+}
+
+/**
+ * Position in the no-repeat quote rotation (persisted in state)
+ */
+export interface QuoteRotation {
+    /** Index into the shuffled order of the current cycle */
+    position: number;
+
+    /** Completed passes through the pool (seeds the shuffle) */
+    cycle: number;
+}
+
 // ============================================
 // Video Rendering Types
 // ============================================
@@ -202,8 +598,24 @@ export interface RenderConfig {
 
     /** Font size for main text */
     fontSize: number;
+
+    /** Text alignment relative to the reading direction */
+    textAlign: TextAlignment;
+
+    /** Horizontal margin in pixels for start/end aligned text */
+    textMargin: number;
 }
 
+/**
+ * Writing direction of text
+ */
+export type TextDirection = 'ltr' | 'rtl';
+
+/**
+ * Text alignment relative to the reading direction (start is right in RTL text)
+ */
+export type TextAlignment = 'start' | 'center' | 'end';
+
 /**
  * Result of video rendering
  */
@@ -218,11 +630,301 @@ export interface RenderResult {
     metadata: {
         background: string;
         audio: string;
+        theme: string;
+        layout: ProgressLayoutName;
+        scene: string | null;
+        contrast: ContrastReport | null;
         duration: number;
         resolution: string;
     };
 }
 
+/**
+ * Luminance measured behind the text and progress visual, and the style picked for it
+ */
+export interface ContrastReport {
+    /** Mean relative luminance of the background (0 black, 1 white) */
+    luminance: number;
+    /** Standard deviation of the luminance (high on busy backgrounds) */
+    variation: number;
+    overlayOpacity: number;
+    textColor: string;
+    outline: boolean;
+    /** Contrast ratio reached, at the brightest or darkest part of the background */
+    ratio: number;
+    /** Contrast ratio aimed for */
+    target: number;
+}
+
+/**
+ * Font weight of a line of text
+ */
+export type FontWeight =
+    | 'normal'
+    | 'bold'
+    | '100'
+    | '200'
+    | '300'
+    | '400'
+    | '500'
+    | '600'
+    | '700'
+    | '800'
+    | '900';
+
+/**
+ * Progress visual drawn between the text blocks
+ */
+export type ProgressLayoutName = 'bar' | 'ring' | 'dots' | 'battery' | 'hourglass';
+
+/**
+ * Where the animated percent counter is drawn, relative to the progress visual
+ */
+export type CounterPosition = 'none' | 'inside' | 'above' | 'tip';
+
+/**
+ * Easing curve of the progress fill
+ */
+export type EasingName = 'linear' | 'ease-out-cubic' | 'ease-in-out' | 'elastic' | 'overshoot';
+
+/**
+ * How each line of text enters
+ * - fade: fades in
+ * - slide-up: fades in while rising into place
+ * - typewriter: characters appear one at a time
+ * - word-pop: words pop in one at a time
+ * - scale-bounce: grows from nothing, overshoots and settles
+ */
+export type TextAnimationPreset = 'fade' | 'slide-up' | 'typewriter' | 'word-pop' | 'scale-bounce';
+
+/**
+ * Moment the text entrance delay counts from
+ */
+export type TextAnimationAnchor = 'video' | 'bar-start' | 'bar-end';
+
+/**
+ * Timeline of the progress fill and the text entrance
+ */
+export interface AnimationTiming {
+    /** Easing curve of the fill */
+    easing: EasingName;
+    /** Seconds before the fill starts */
+    delay: number;
+    /** Text entrance */
+    text: {
+        preset: TextAnimationPreset;
+        /** Moment the delay counts from: the start of the video, or the start or end of the fill */
+        anchor: TextAnimationAnchor;
+        /** Seconds from the anchor to the entrance (negative to finish as the fill ends) */
+        delay: number;
+        /** Seconds the entrance of a line takes */
+        duration: number;
+        /** Seconds between the entrances of successive lines */
+        stagger: number;
+        /** Distance the text rises with slide-up, in pixels */
+        slide: number;
+    };
+}
+
+/**
+ * Animation settings for a single render (unset values come from the theme)
+ */
+export interface AnimationOverrides {
+    easing?: EasingName;
+    delay?: number;
+    text?: Partial<AnimationTiming['text']>;
+}
+
+/**
+ * Movement of still backgrounds
+ * - none: the image stays put
+ * - ken-burns: slow pan and zoom across the image
+ */
+export type BackgroundMotion = 'none' | 'ken-burns';
+
+/**
+ * Image filter run over the background once per render
+ * - blur: gaussian blur (radius is the standard deviation in pixels, as with CSS blur())
+ * - vignette: darkens the edges (strength 0-1)
+ * - desaturate: removes color (amount 0-1)
+ * - duotone: maps dark to light tones onto two hex colors
+ * - brightness, contrast: multiply brightness or contrast (1 leaves the image as is)
+ * - lut: color grading with a .cube file in assets/luts, mixed in by intensity (0-1)
+ */
+export type BackgroundFilter =
+    | { type: 'blur'; radius: number }
+    | { type: 'vignette'; strength: number }
+    | { type: 'desaturate'; amount: number }
+    | { type: 'duotone'; shadows: string; highlights: string }
+    | { type: 'brightness'; amount: number }
+    | { type: 'contrast'; amount: number }
+    | { type: 'lut'; file: string; intensity: number };
+
+/**
+ * How the background looks, moves and changes over the video
+ * (video backgrounds play in a loop with the filters, and ignore the rest)
+ */
+export interface BackgroundSettings {
+    /** Filters run in order, before the overlay */
+    filters: BackgroundFilter[];
+    motion: BackgroundMotion;
+    /** Zoom at the end of the Ken Burns move (1 pans without zooming) */
+    zoom: number;
+    /** Images shown one after another (1 for a single background) */
+    slides: number;
+    /** Seconds each slide takes to crossfade into the next */
+    crossfade: number;
+}
+
+/**
+ * Day of a period and its length (e.g., day 135 of 365), drawn one dot per day
+ */
+export interface DayCount {
+    day: number;
+    total: number;
+}
+
+/**
+ * Look of a progress video (a JSON file in config/themes)
+ */
+export interface Theme {
+    /** Unique theme name */
+    name: string;
+
+    /** Milestones this theme is used for (e.g., ['half', 'lastDay']) */
+    milestones: YearMilestone[];
+
+    /** Progress visual (defaults to 'bar') */
+    layout: ProgressLayoutName;
+
+    /** Animated percent counter (defaults to 'none'; the ring and battery show one already) */
+    counter: CounterPosition;
+
+    /** Fill easing and text entrance (defaults to a linear fill and a 0.5s fade) */
+    animation: AnimationTiming;
+
+    /** Background filters, motion and slideshow (defaults to one still image as is) */
+    background: BackgroundSettings;
+
+    /** Overlay drawn over the background for readability */
+    overlay: { color: string; opacity: number };
+
+    /** Progress visual colors (every layout uses them) */
+    bar: {
+        /** Gradient colors of the fill, from start to end */
+        colors: string[];
+        /** Gradient colors on celebration days (defaults to colors) */
+        celebrationColors?: string[];
+        trackColor: string;
+        borderColor: string;
+        borderWidth: number;
+        radius: number;
+    };
+
+    /** Text above and below the bar */
+    text: {
+        color: string;
+        /** Font family (a registered font, defaults to the primary font) */
+        font?: string;
+        /** Font weight per line, top to bottom (the last weight repeats) */
+        weights: FontWeight[];
+        shadow: { color: string; blur: number };
+        /** Stroke around the letters (none by default) */
+        outline?: { color: string; width: number };
+    };
+
+    /** Overlay opacity, text color and outline picked from the background's luminance */
+    contrast: {
+        /** Whether to pick them (false keeps the theme's) */
+        adaptive: boolean;
+        /** Contrast ratio to aim for (WCAG AA asks 4.5 for text) */
+        ratio: number;
+    };
+
+    /** Confetti on celebration days */
+    confetti: { colors: string[] };
+}
+
+/**
+ * Element properties that can change over time
+ */
+export type SceneProperty = 'x' | 'y' | 'width' | 'height' | 'opacity' | 'rotation' | 'scale';
+
+/**
+ * Value of a property at a point in time (values between keyframes are interpolated)
+ */
+export interface SceneKeyframe {
+    /** Seconds from the start of the video */
+    time: number;
+    value: number;
+}
+
+/**
+ * Position, size and animation shared by all scene elements
+ */
+export interface SceneElementBase {
+    /** Top-left corner and size in pixels (background, overlay and confetti fill the canvas) */
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** Opacity (0-1) */
+    opacity: number;
+    /** Rotation around the center, in degrees */
+    rotation: number;
+    /** Scale around the center */
+    scale: number;
+    /** Keyframes per property, in time order */
+    keyframes: Partial<Record<SceneProperty, SceneKeyframe[]>>;
+}
+
+/**
+ * A layer of a scene, drawn in order (later elements on top)
+ */
+export type SceneElement = SceneElementBase &
+    (
+        | { type: 'background' }
+        | {
+              type: 'overlay';
+              /** Overlay color (defaults to the theme's overlay, at the theme's opacity) */
+              color?: string;
+          }
+        | { type: 'confetti' }
+        | {
+              type: 'shape';
+              shape: 'rect' | 'ellipse';
+              color: string;
+              /** Corner radius of rectangles */
+              radius: number;
+          }
+        | {
+              type: 'text';
+              /** texts.json template (e.g., '{textAbove}' or '{percentLabel} done') */
+              template: string;
+              /** Largest font size; the text shrinks to fit the element */
+              fontSize: number;
+              /** Text color (defaults to the theme's text color) */
+              color?: string;
+              align: TextAlignment;
+          }
+        | { type: 'progress'; layout: ProgressLayoutName }
+        | {
+              type: 'image';
+              /** Image path (relative to the project root) */
+              src: string;
+              fit: 'cover' | 'contain';
+          }
+    );
+
+/**
+ * Composition of a video as layered elements (a JSON file in config/scenes)
+ */
+export interface Scene {
+    /** Unique scene name */
+    name: string;
+    elements: SceneElement[];
+}
+
 // ============================================
 // Configuration Types
 // ============================================
@@ -256,7 +958,67 @@ export interface AppConfig {
         dryRun: boolean;
         logLevel: LogLevel;
         timezone: string;
+        /** Default locale of captions and on-video text (BCP 47) */
+        locale: string;
+        /** Locale overrides per upload target (e.g., { instagram: 'es' }) */
+        platformLocales: Partial<Record<Platform, string>>;
+        /** Theme name, or 'random' to pick any theme */
+        theme: string;
+        /** Progress visual for every theme (undefined keeps each theme's layout) */
+        progressLayout?: ProgressLayoutName;
+        /** Scene to compose videos from (undefined uses the built-in composition) */
+        scene?: string;
+        /** Animation settings for every theme (unset values keep each theme's) */
+        animation: AnimationOverrides;
+        /** Percent counter for every theme (undefined keeps each theme's) */
+        progressCounter?: CounterPosition;
+        /** Background motion and slideshow for every theme (unset values keep each theme's) */
+        background: Partial<BackgroundSettings>;
         contentType: string;
+        /** Extra modules to import so they can register their own generators */
+        generatorModules: string[];
+    };
+
+    /** Year progress generator settings */
+    yearProgress: {
+        /** Named period to measure instead of the calendar year */
+        period?: string;
+        /** Period definitions file (relative to project root) */
+        periodsFile: string;
+        /** Calendar to count the year in (Unicode identifier, defaults to 'gregory') */
+        calendar: string;
+        /** Whether milestone days get special editions */
+        milestones: boolean;
+        /** Decimal places shown in the percent */
+        precision: number;
+        /** How often to post */
+        granularity: PostGranularity;
+        /** Local holiday calendar used for workday counts (relative to project root) */
+        holidaysFile: string;
+    };
+
+    /** Horoscope generator settings */
+    horoscope: {
+        /** Sign to post (defaults to the sign whose season is running) */
+        sign?: ZodiacSign;
+        /** Dataset path (relative to project root, .json or .csv) */
+        dataset: string;
+    };
+
+    /** Countdown generator settings */
+    countdown: {
+        /** Name of the countdown to post (defaults to the first one defined) */
+        name?: string;
+        /** Countdown definitions file (relative to project root) */
+        file: string;
+    };
+
+    /** Quote generator settings */
+    quote: {
+        /** Dataset path (relative to project root) */
+        dataset: string;
+        /** Whether to draw the year progress bar under the quote */
+        showProgress: boolean;
     };
 }
 
@@ -2,11 +2,32 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import type { AssetInfo, AssetValidationResult } from '../types/index.js';
-import { ASSET_PATHS, ASSET_REQUIREMENTS } from '../config/index.js';
+import {
+    ASSET_PATHS,
+    ASSET_REQUIREMENTS,
+    EMOJI_FONT_FAMILY,
+    FONT_FALLBACKS,
+} from '../config/index.js';
+import {
+    compileTemplate,
+    findMissingVariables,
+    pickWeighted,
+    renderTemplate,
+} from './template-engine.js';
+import type { CompiledTemplate, TemplateVariables } from './template-engine.js';
+import { DEFAULT_LOCALE, getLocaleChain } from './locale.js';
+import { getTextVariables } from './text-variables.js';
+import { getFontFamilyFromFileName } from '../render/text-layout.js';
+import { loadThemes, selectTheme } from './themes.js';
+import { findScene, loadScenes } from './scenes.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const PROJECT_ROOT = path.resolve(__dirname, '../../');
 
+/** Still and video backgrounds, by file extension */
+const IMAGE_PATTERN = /\.(jpg|jpeg|png|webp)$/i;
+const VIDEO_PATTERN = /\.(mp4|mov|webm)$/i;
+
 /**
  * Get list of files in a directory (excluding hidden files)
  */
@@ -45,12 +66,40 @@ export function getRandomFile(directory: string): string {
 }
 
 /**
- * Get a random background image
+ * Get a random background (an image, or a video to loop)
  */
 export function getRandomBackground(): string {
     return getRandomFile(ASSET_PATHS.backgrounds);
 }
 
+/**
+ * Get random background images for a slideshow, without repeats
+ *
+ * @param count - Number of images (fewer are returned if there are not enough)
+ * @param exclude - Full paths of images already in use
+ */
+export function getRandomBackgroundImages(count: number, exclude: string[] = []): string[] {
+    const images = getFilesInDirectory(ASSET_PATHS.backgrounds)
+        .filter((f) => IMAGE_PATTERN.test(f))
+        .map((f) => path.join(PROJECT_ROOT, ASSET_PATHS.backgrounds, f))
+        .filter((f) => !exclude.includes(f));
+    const picked: string[] = [];
+
+    while (picked.length < count && images.length > 0) {
+        const [image] = images.splice(Math.floor(Math.random() * images.length), 1);
+        if (image) picked.push(image);
+    }
+
+    return picked;
+}
+
+/**
+ * Check whether a background is a video
+ */
+export function isVideoBackground(filePath: string): boolean {
+    return VIDEO_PATTERN.test(filePath);
+}
+
 /**
  * Get a random audio track
  */
@@ -58,6 +107,17 @@ export function getRandomAudio(): string {
     return getRandomFile(ASSET_PATHS.audio);
 }
 
+/**
+ * Whether a font file is one of the language or emoji fallbacks rather than a primary font
+ */
+function isFallbackFont(fileName: string): boolean {
+    const family = getFontFamilyFromFileName(fileName);
+    return (
+        family === EMOJI_FONT_FAMILY ||
+        Object.values(FONT_FALLBACKS).some((families) => families.includes(family))
+    );
+}
+
 /**
  * Get the primary font file
  */
@@ -69,9 +129,9 @@ export function getFontPath(): string {
         throw new Error(`No font files (.ttf or .otf) found in ${ASSET_PATHS.fonts}`);
     }
 
-    // Return the first font file, or one named 'primary' if it exists
+    // Return one named 'primary' if it exists, or else the first font that is not a fallback
     const primaryFont = ttfFiles.find((f) => f.toLowerCase().includes('primary'));
-    const selectedFont = primaryFont ?? ttfFiles[0];
+    const selectedFont = primaryFont ?? ttfFiles.find((f) => !isFallbackFont(f)) ?? ttfFiles[0];
 
     if (!selectedFont) {
         throw new Error('Failed to select font file');
@@ -80,19 +140,57 @@ export function getFontPath(): string {
     return path.join(PROJECT_ROOT, ASSET_PATHS.fonts, selectedFont);
 }
 
+/**
+ * Get the font files other than the primary font (fallbacks for other scripts)
+ */
+export function getFallbackFontPaths(): string[] {
+    const primaryFont = path.basename(getFontPath());
+
+    return getFilesInDirectory(ASSET_PATHS.fonts)
+        .filter((f) => /\.(ttf|otf)$/i.test(f) && f !== primaryFont)
+        .map((f) => path.join(PROJECT_ROOT, ASSET_PATHS.fonts, f));
+}
+
+/**
+ * Get the sprite of an emoji (e.g., assets/emoji/1f331.png), or null if there is none
+ *
+ * @param spriteName - Emoji codepoints in hex joined by '-'
+ */
+export function getEmojiSpritePath(spriteName: string): string | null {
+    const spritePath = path.join(PROJECT_ROOT, ASSET_PATHS.emoji, `${spriteName}.png`);
+    return fs.existsSync(spritePath) ? spritePath : null;
+}
+
+/**
+ * Template entry in texts.json: a template string, or a template with a weight
+ * (templates without a weight count as weight 1)
+ */
+type TemplateEntry = string | { text: string; weight?: number };
+
+/**
+ * Templates and hashtags of a content type, optionally overridden per locale
+ * (e.g., "locales": { "es": { "templates": [...] } }); a locale without its own
+ * templates or hashtags falls back to the parent locale (pt-BR -> pt), then the base entry
+ */
+interface TextTypeConfig {
+    templates: TemplateEntry[];
+    hashtags: string[];
+    locales?: Record<string, Partial<Pick<TextTypeConfig, 'templates' | 'hashtags'>>>;
+}
+
 /**
  * Text template configuration
  */
 interface TextConfig {
-    yearProgress?: {
-        templates: string[];
-        hashtags: string[];
-    };
-    horoscope?: {
-        templates: string[];
-        hashtags: string[];
-    };
-    [key: string]: { templates: string[]; hashtags: string[] } | undefined;
+    [key: string]: TextTypeConfig | undefined;
+}
+
+/**
+ * Compiled templates of a content type
+ */
+interface WeightedTemplate {
+    template: CompiledTemplate;
+    weight: number;
 }
 
 /**
@@ -109,60 +207,163 @@ function loadTextConfig(): TextConfig {
     return JSON.parse(content) as TextConfig;
 }
 
+/**
+ * Templates or hashtags of a content type for a locale, falling back along the locale chain
+ * Also returns the locale of what was found: the base entry is written in the default locale,
+ * so text that falls back to it is formatted like it
+ */
+function resolveLocalized<K extends 'templates' | 'hashtags'>(
+    typeConfig: TextTypeConfig,
+    field: K,
+    locale: string
+): { value: TextTypeConfig[K] | undefined; locale: string } {
+    for (const candidate of getLocaleChain(locale)) {
+        const value = typeConfig.locales?.[candidate]?.[field];
+        if (value !== undefined) return { value, locale };
+    }
+    return { value: typeConfig[field], locale: DEFAULT_LOCALE };
+}
+
+/**
+ * Compile the templates of a content type
+ *
+ * @throws Error if a template has a syntax error or an invalid weight
+ */
+function compileTemplates(contentType: string, entries: TemplateEntry[]): WeightedTemplate[] {
+    return entries.map((entry) => {
+        const text = typeof entry === 'string' ? entry : entry.text;
+        const weight = typeof entry === 'string' ? 1 : (entry.weight ?? 1);
+
+        if (!(weight > 0)) {
+            throw new Error(`Template "${text}" for ${contentType} must have a positive weight`);
+        }
+
+        return { template: compileTemplate(text), weight };
+    });
+}
+
+/**
+ * Check every template in texts.json for syntax errors, invalid weights and variables
+ * its generator does not provide (for keys whose generator declared its variables)
+ *
+ * @returns Error messages (empty when all templates are valid)
+ */
+export function validateTextTemplates(): string[] {
+    const errors: string[] = [];
+    const describe = (error: unknown): string =>
+        error instanceof Error ? error.message : 'Unknown error';
+
+    let config: TextConfig;
+    try {
+        config = loadTextConfig();
+    } catch (error) {
+        return [`Could not read ${ASSET_PATHS.texts}: ${describe(error)}`];
+    }
+
+    for (const [contentType, typeConfig] of Object.entries(config)) {
+        const templateSets: [string, TemplateEntry[] | undefined][] = [
+            [contentType, typeConfig?.templates],
+            ...Object.entries(typeConfig?.locales ?? {}).map(
+                ([locale, overrides]): [string, TemplateEntry[] | undefined] => [
+                    `${contentType} (${locale})`,
+                    overrides.templates,
+                ]
+            ),
+        ];
+
+        const available = getTextVariables(contentType);
+
+        for (const [label, entries] of templateSets) {
+            for (const entry of entries ?? []) {
+                try {
+                    const compiled = compileTemplates(contentType, [entry]);
+                    if (available === undefined) continue;
+
+                    for (const { template } of compiled) {
+                        const unknown = template.variables.filter((v) => !available.includes(v));
+                        if (unknown.length > 0) {
+                            errors.push(
+                                `${label}: "${template.source}" uses unknown variable(s): ` +
+                                    `${unknown.join(', ')} (available: ${available.join(', ')})`
+                            );
+                        }
+                    }
+                } catch (error) {
+                    errors.push(`${label}: ${describe(error)}`);
+                }
+            }
+        }
+    }
+
+    return errors;
+}
+
 /**
  * Get a random text template for a content type
  *
+ * Every template of the content type is checked against the variables first,
+ * so a typo in any template fails before anything is posted.
+ *
  * @param contentType - Content type (e.g., 'yearProgress', 'horoscope')
- * @param variables - Variables to substitute in the template
- * @returns Processed text with variables replaced
+ * @param variables - Variables available to the templates
+ * @param locale - Locale of the templates and number formatting (defaults to English)
+ * @returns Rendered text of a template picked by weight
+ * @throws Error if a template uses a variable that is not provided
  */
 export function getRandomText(
     contentType: string,
-    variables: Record<string, string | number>
+    variables: TemplateVariables,
+    locale: string = DEFAULT_LOCALE
 ): string {
     const config = loadTextConfig();
     const typeConfig = config[contentType];
+    const resolved = typeConfig && resolveLocalized(typeConfig, 'templates', locale);
+    const entries = resolved?.value;
 
-    if (!typeConfig || !typeConfig.templates || typeConfig.templates.length === 0) {
+    if (!resolved || !entries || entries.length === 0) {
         throw new Error(`No templates found for content type: ${contentType}`);
     }
 
-    const templates = typeConfig.templates;
-    const randomIndex = Math.floor(Math.random() * templates.length);
-    const template = templates[randomIndex];
+    const templates = compileTemplates(contentType, entries);
 
-    if (!template) {
-        throw new Error(`Failed to select template for ${contentType}`);
-    }
+    const errors = templates.flatMap(({ template }) => {
+        const missing = findMissingVariables(template, variables);
+        return missing.length > 0 ? [`"${template.source}" uses ${missing.join(', ')}`] : [];
+    });
 
-    // Replace variables in template
-    let result = template;
-    for (const [key, value] of Object.entries(variables)) {
-        result = result.replace(new RegExp(`\\{${key}\\}`, 'g'), String(value));
+    if (errors.length > 0) {
+        const available = Object.keys(variables).join(', ');
+        throw new Error(
+            `Unknown template variables for ${contentType}:\n${errors.join('\n')}\n` +
+                `Available variables: ${available}`
+        );
     }
 
-    return result;
+    return renderTemplate(pickWeighted(templates).template, variables, resolved.locale);
 }
 
 /**
- * Get hashtags for a content type
+ * Get hashtags for a content type in a locale
  */
-export function getHashtags(contentType: string): string[] {
+export function getHashtags(contentType: string, locale: string = DEFAULT_LOCALE): string[] {
     const config = loadTextConfig();
     const typeConfig = config[contentType];
 
-    return typeConfig?.hashtags ?? [];
+    return (typeConfig && resolveLocalized(typeConfig, 'hashtags', locale).value) ?? [];
 }
 
 /**
  * Validate that all required assets exist
+ *
+ * @param theme - Configured theme name or 'random', which must match a theme in config/themes
+ * @param scene - Configured scene name (optional), which must match a scene in config/scenes
  */
-export function validateAssets(): AssetValidationResult {
+export function validateAssets(theme: string = 'default', scene?: string): AssetValidationResult {
     const errors: string[] = [];
 
     // Count assets
     const backgrounds = getFilesInDirectory(ASSET_PATHS.backgrounds).filter(
-        (f) => /\.(jpg|jpeg|png|webp)$/i.test(f)
+        (f) => IMAGE_PATTERN.test(f) || VIDEO_PATTERN.test(f)
     );
     const audio = getFilesInDirectory(ASSET_PATHS.audio).filter(
         (f) => /\.(mp3|wav|aac|m4a)$/i.test(f)
@@ -192,10 +393,46 @@ export function validateAssets(): AssetValidationResult {
         );
     }
 
+    // Check font fallbacks: every language needs at least one of its fallback fonts
+    const families = new Set(fonts.map(getFontFamilyFromFileName));
+    for (const [language, fallbacks] of Object.entries(FONT_FALLBACKS)) {
+        if (!fallbacks.some((family) => families.has(family))) {
+            errors.push(
+                `No fallback font for "${language}" in ${ASSET_PATHS.fonts} (need one of: ${fallbacks.join(', ')})`
+            );
+        }
+    }
+
+    // Check emoji: sprites, or the emoji font for emoji without one
+    const sprites = getFilesInDirectory(ASSET_PATHS.emoji).filter((f) => /\.png$/i.test(f));
+    if (sprites.length === 0 && !families.has(EMOJI_FONT_FAMILY)) {
+        errors.push(
+            `No emoji sprites in ${ASSET_PATHS.emoji} and no ${EMOJI_FONT_FAMILY} font in ${ASSET_PATHS.fonts}`
+        );
+    }
+
+    // Check the themes and that the configured one exists
+    try {
+        selectTheme(loadThemes(ASSET_PATHS.themes), theme);
+    } catch (error) {
+        errors.push(error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    // Check that the configured scene exists
+    if (scene !== undefined && scene !== '') {
+        try {
+            findScene(loadScenes(ASSET_PATHS.scenes), scene);
+        } catch (error) {
+            errors.push(error instanceof Error ? error.message : 'Unknown error');
+        }
+    }
+
     // Check texts.json
     const textsPath = path.join(PROJECT_ROOT, ASSET_PATHS.texts);
     if (!fs.existsSync(textsPath)) {
         errors.push(`Text configuration not found at ${ASSET_PATHS.texts}`);
+    } else {
+        errors.push(...validateTextTemplates());
     }
 
     return {
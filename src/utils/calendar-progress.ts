@@ -0,0 +1,183 @@
+import type { CalendarYearProgress, ZonedDateParts } from '../types/index.js';
+import { addDays, daysBetween, formatDateKey, getZonedDateParts } from './progress-calculator.js';
+import { calculatePercent } from './precision.js';
+import { DEFAULT_LOCALE } from './locale.js';
+
+type CalendarDate = Pick<ZonedDateParts, 'year' | 'month' | 'day'>;
+
+/** Longest possible year in any supported calendar, used to bound the day scan */
+const MAX_YEAR_DAYS = 390;
+
+/**
+ * Short display names for calendars commonly asked for
+ */
+const CALENDAR_NAMES: Record<string, string> = {
+    gregory: 'Gregorian',
+    islamic: 'Hijri',
+    'islamic-umalqura': 'Hijri',
+    'islamic-civil': 'Hijri',
+    'islamic-tbla': 'Hijri',
+    'islamic-rgsa': 'Hijri',
+    hebrew: 'Hebrew',
+    persian: 'Persian',
+    chinese: 'Chinese',
+    dangi: 'Korean',
+};
+
+/**
+ * Check whether the runtime supports a calendar (e.g., 'hebrew', 'islamic-umalqura')
+ */
+export function isSupportedCalendar(calendar: string): boolean {
+    return Intl.supportedValuesOf('calendar').includes(calendar);
+}
+
+/**
+ * Get a display name for a calendar (e.g., 'islamic-umalqura' -> 'Hijri')
+ */
+export function getCalendarName(calendar: string): string {
+    return (
+        CALENDAR_NAMES[calendar] ??
+        new Intl.DisplayNames('en', { type: 'calendar' }).of(calendar) ??
+        calendar
+    );
+}
+
+/**
+ * Reads year and month values of Gregorian dates in another calendar
+ */
+class CalendarReader {
+    private readonly numeric: Intl.DateTimeFormat;
+    private readonly names: Intl.DateTimeFormat;
+
+    /**
+     * @param locale - Locale of the month and year names (numbers are always read in en-US)
+     */
+    constructor(calendar: string, locale: string = DEFAULT_LOCALE) {
+        this.numeric = new Intl.DateTimeFormat(`en-US-u-ca-${calendar}`, {
+            timeZone: 'UTC',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+        });
+        this.names = new Intl.DateTimeFormat(new Intl.Locale(locale, { calendar }).toString(), {
+            timeZone: 'UTC',
+            year: 'numeric',
+            month: 'long',
+        });
+    }
+
+    /**
+     * Year number in the calendar (related Gregorian year for cyclic calendars)
+     */
+    getYear(date: CalendarDate): number {
+        const parts = this.numeric.formatToParts(this.toInstant(date));
+        // Cyclic calendars (chinese, dangi) report the Gregorian-related year instead
+        const year = parts.find((p) => p.type === 'year' || (p.type as string) === 'relatedYear');
+        return parseInt(year?.value ?? '0', 10);
+    }
+
+    /**
+     * Month name and cyclic year name (if the calendar has one)
+     */
+    getNames(date: CalendarDate): { monthName: string; yearName?: string } {
+        const parts = this.names.formatToParts(this.toInstant(date));
+        return {
+            monthName: parts.find((p) => p.type === 'month')?.value ?? '',
+            yearName: parts.find((p) => (p.type as string) === 'yearName')?.value,
+        };
+    }
+
+    private toInstant(date: CalendarDate): Date {
+        // Noon avoids any ambiguity at day boundaries
+        return new Date(Date.UTC(date.year, date.month - 1, date.day, 12));
+    }
+}
+
+/**
+ * Month name and cyclic year name (if the calendar has one) of a date in a locale
+ * (e.g., 'hebrew' in 'ar' -> 'مرحشوان')
+ *
+ * @param calendar - Unicode calendar identifier (e.g., 'hebrew')
+ * @param date - Date to name
+ * @param timezone - Optional timezone (IANA format) that decides the current day
+ * @param locale - Locale of the names
+ */
+export function getCalendarDateNames(
+    calendar: string,
+    date: Date,
+    timezone: string | undefined,
+    locale: string
+): { monthName: string; yearName?: string } {
+    return new CalendarReader(calendar, locale).getNames(getZonedDateParts(date, timezone));
+}
+
+/**
+ * Walk from a date in one direction until the calendar year changes
+ *
+ * @returns Last date (in that direction) that still belongs to the same year
+ */
+function findYearBoundary(reader: CalendarReader, from: CalendarDate, step: 1 | -1): CalendarDate {
+    const year = reader.getYear(from);
+    let current = from;
+
+    for (let i = 0; i < MAX_YEAR_DAYS; i++) {
+        const next = addDays(current, step);
+        if (reader.getYear(next) !== year) {
+            return current;
+        }
+        current = next;
+    }
+
+    throw new Error('Could not find the calendar year boundary');
+}
+
+/**
+ * Calculate year progress in a non-Gregorian calendar (Hijri, Hebrew, Persian, Chinese, ...)
+ *
+ * @param calendar - Unicode calendar identifier (e.g., 'islamic-umalqura', 'hebrew')
+ * @param date - Optional date to calculate progress for (defaults to now)
+ * @param timezone - Optional timezone (IANA format)
+ * @param precision - Decimal places kept in the percent (defaults to 0)
+ * @returns Year progress where year, day of year and total days are in that calendar
+ */
+export function calculateCalendarYearProgress(
+    calendar: string,
+    date?: Date,
+    timezone?: string,
+    precision: number = 0
+): CalendarYearProgress {
+    if (!isSupportedCalendar(calendar)) {
+        throw new Error(`Unsupported calendar: ${calendar}`);
+    }
+
+    const now = date ?? new Date();
+    const today = getZonedDateParts(now, timezone);
+    const reader = new CalendarReader(calendar);
+
+    const start = findYearBoundary(reader, today, -1);
+    const end = findYearBoundary(reader, today, 1);
+    const dayOfYear = daysBetween(start, today) + 1;
+    const totalDays = daysBetween(start, end) + 1;
+
+    // Lunisolar calendars add a leap month; solar and lunar ones add a day
+    const months = new Set<string>();
+    for (let day = start; daysBetween(day, end) >= 0; day = addDays(day, 1)) {
+        months.add(reader.getNames(day).monthName);
+    }
+    const isLunar = calendar.startsWith('islamic');
+    const isLeapYear = months.size > 12 || totalDays === 366 || (isLunar && totalDays === 355);
+
+    return {
+        year: reader.getYear(today),
+        percent: calculatePercent(dayOfYear, totalDays, precision),
+        dayOfYear,
+        totalDays,
+        isLeapYear,
+        date: now.toISOString(),
+        calendar,
+        calendarName: getCalendarName(calendar),
+        ...reader.getNames(today),
+        startDate: formatDateKey(start),
+        endDate: formatDateKey(end),
+    };
+}
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import type { CountdownDefinition } from '../types/index.js';
+import { daysBetween, parseDateKey } from './progress-calculator.js';
+import { loadJsonFile } from './json-directory.js';
+
+const dateKeySchema = z.string().refine(
+    (value) => {
+        try {
+            parseDateKey(value);
+            return true;
+        } catch {
+            return false;
+        }
+    },
+    { message: 'must be a valid YYYY-MM-DD date' }
+);
+
+/**
+ * Countdown definitions file schema
+ */
+const countdownsSchema = z
+    .array(
+        z
+            .object({
+                name: z.string().min(1),
+                label: z.string().min(1),
+                start: dateKeySchema,
+                target: dateKeySchema,
+            })
+            .refine((c) => daysBetween(parseDateKey(c.start), parseDateKey(c.target)) > 0, {
+                message: 'target must be after start',
+            })
+    )
+    .min(1, 'at least one countdown is required')
+    .refine((list) => new Set(list.map((c) => c.name)).size === list.length, {
+        message: 'countdown names must be unique',
+    });
+
+/**
+ * Load and validate countdown definitions
+ *
+ * @param filePath - Path to the definitions file (relative to project root or absolute)
+ * @returns Countdown definitions in file order
+ */
+export function loadCountdowns(filePath: string): CountdownDefinition[] {
+    return loadJsonFile(filePath, countdownsSchema, 'countdown definitions');
+}
+
+/**
+ * Find a countdown by name (or the first one when no name is given)
+ *
+ * @throws Error if no countdown has that name
+ */
+export function findCountdown(
+    countdowns: CountdownDefinition[],
+    name?: string
+): CountdownDefinition {
+    const countdown = name === undefined ? countdowns[0] : countdowns.find((c) => c.name === name);
+
+    if (!countdown) {
+        const available = countdowns.map((c) => c.name).join(', ');
+        throw new Error(`Unknown countdown: "${name ?? ''}". Defined countdowns: ${available}`);
+    }
+
+    return countdown;
+}
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import type { HolidayDefinition } from '../types/index.js';
+import { formatDateKey, isLeapYear, parseDateKey, parseMonthDay } from './progress-calculator.js';
+import { loadJsonFile } from './json-directory.js';
+
+/**
+ * Check whether a holiday date is a valid YYYY-MM-DD or MM-DD value
+ */
+function isHolidayDate(value: string): boolean {
+    try {
+        if (value.length === 5) {
+            parseMonthDay(value);
+        } else {
+            parseDateKey(value);
+        }
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Holiday calendar file schema
+ */
+const holidaysSchema = z.array(
+    z.object({
+        name: z.string().min(1),
+        date: z.string().refine((value) => isHolidayDate(value), {
+            message: 'must be a valid YYYY-MM-DD date or MM-DD yearly date',
+        }),
+    })
+);
+
+/**
+ * Load and validate the local holiday calendar
+ *
+ * @param filePath - Path to the holiday file (relative to project root or absolute)
+ * @returns Holidays in file order
+ */
+export function loadHolidays(filePath: string): HolidayDefinition[] {
+    return loadJsonFile(filePath, holidaysSchema, 'holiday calendar');
+}
+
+/**
+ * Get the date keys (YYYY-MM-DD) of all holidays falling in a range of years
+ * Yearly 02-29 holidays only fall in leap years
+ *
+ * @param holidays - Holiday definitions
+ * @param fromYear - First year (inclusive)
+ * @param toYear - Last year (inclusive)
+ */
+export function getHolidayDateKeys(
+    holidays: HolidayDefinition[],
+    fromYear: number,
+    toYear: number
+): Set<string> {
+    const keys = new Set<string>();
+
+    for (const holiday of holidays) {
+        if (holiday.date.length !== 5) {
+            keys.add(holiday.date);
+            continue;
+        }
+
+        const { month, day } = parseMonthDay(holiday.date);
+        for (let year = fromYear; year <= toYear; year++) {
+            if (month === 2 && day === 29 && !isLeapYear(year)) continue;
+            keys.add(formatDateKey({ year, month, day }));
+        }
+    }
+
+    return keys;
+}
@@ -0,0 +1,171 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { HoroscopeDataset, ZodiacSign } from '../types/index.js';
+import { isZodiacSign } from './zodiac.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = path.resolve(__dirname, '../../');
+
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * Split a CSV line into fields, honoring double-quoted values
+ */
+function parseCsvLine(line: string): string[] {
+    const fields: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+
+        if (inQuotes) {
+            if (char === '"' && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                current += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            fields.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+
+    fields.push(current);
+    return fields.map((f) => f.trim());
+}
+
+/**
+ * Add a reading to the dataset, validating the sign
+ * Readings without a date are general readings, used on any day
+ */
+function addReading(
+    dataset: HoroscopeDataset,
+    sign: string,
+    date: string,
+    content: string,
+    source: string
+): void {
+    const normalizedSign = sign.toLowerCase();
+
+    if (!isZodiacSign(normalizedSign)) {
+        throw new Error(`Unknown zodiac sign "${sign}" in ${source}`);
+    }
+
+    const readings = dataset[normalizedSign] ?? { daily: {}, general: [] };
+    if (date === '') {
+        readings.general.push(content);
+    } else {
+        readings.daily[date] = content;
+    }
+    dataset[normalizedSign] = readings;
+}
+
+/**
+ * Parse a CSV dataset with `sign,date,content` columns (header row required)
+ * Rows with an empty date are general readings
+ */
+export function parseHoroscopeCsv(content: string, source: string = 'CSV'): HoroscopeDataset {
+    const lines = content.split(/\r?\n/).filter((line) => line.trim().length > 0);
+    const header = parseCsvLine(lines[0] ?? '').map((h) => h.toLowerCase());
+
+    const signIndex = header.indexOf('sign');
+    const dateIndex = header.indexOf('date');
+    const contentIndex = header.indexOf('content');
+
+    if (signIndex === -1 || dateIndex === -1 || contentIndex === -1) {
+        throw new Error(`${source} must have sign, date and content columns`);
+    }
+
+    const dataset: HoroscopeDataset = {};
+
+    for (const line of lines.slice(1)) {
+        const fields = parseCsvLine(line);
+        addReading(
+            dataset,
+            fields[signIndex] ?? '',
+            fields[dateIndex] ?? '',
+            fields[contentIndex] ?? '',
+            source
+        );
+    }
+
+    return dataset;
+}
+
+/**
+ * Parse a JSON dataset shaped as
+ * { "<sign>": { "<YYYY-MM-DD>": "<reading>", "general": ["<reading>", ...] } }
+ */
+export function parseHoroscopeJson(content: string, source: string = 'JSON'): HoroscopeDataset {
+    const raw = JSON.parse(content) as Record<string, Record<string, string | string[]>>;
+    const dataset: HoroscopeDataset = {};
+
+    for (const [sign, readings] of Object.entries(raw)) {
+        for (const [key, value] of Object.entries(readings)) {
+            if (key === 'general' && Array.isArray(value)) {
+                for (const reading of value) addReading(dataset, sign, '', reading, source);
+            } else if (typeof value === 'string') {
+                addReading(dataset, sign, key, value, source);
+            } else {
+                throw new Error(`Invalid reading "${key}" for ${sign} in ${source}`);
+            }
+        }
+    }
+
+    return dataset;
+}
+
+/**
+ * Load a horoscope dataset from disk (.json or .csv)
+ *
+ * @param datasetPath - Path to the dataset (relative to project root or absolute)
+ * @returns Parsed dataset
+ */
+export function loadHoroscopeDataset(datasetPath: string): HoroscopeDataset {
+    const fullPath = path.resolve(PROJECT_ROOT, datasetPath);
+
+    if (!fs.existsSync(fullPath)) {
+        throw new Error(`Horoscope dataset not found at ${fullPath}`);
+    }
+
+    const content = fs.readFileSync(fullPath, 'utf-8');
+
+    return path.extname(fullPath).toLowerCase() === '.csv'
+        ? parseHoroscopeCsv(content, datasetPath)
+        : parseHoroscopeJson(content, datasetPath);
+}
+
+/**
+ * Get the reading for a sign on a date
+ * Days without a daily reading rotate through the sign's general readings, one per day
+ *
+ * @throws Error if the dataset has no reading for that sign and date
+ */
+export function getHoroscopeReading(
+    dataset: HoroscopeDataset,
+    sign: ZodiacSign,
+    date: string
+): string {
+    const readings = dataset[sign];
+    const daily = readings?.daily[date];
+
+    if (daily !== undefined && daily.length > 0) return daily;
+
+    const general = readings?.general.filter((reading) => reading.length > 0) ?? [];
+    const day = Math.floor(Date.parse(`${date}T00:00:00Z`) / MS_PER_DAY);
+
+    if (general.length === 0 || Number.isNaN(day)) {
+        throw new Error(`No horoscope reading for ${sign} on ${date}`);
+    }
+
+    return general[((day % general.length) + general.length) % general.length] ?? '';
+}
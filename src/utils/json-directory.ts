@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { z } from 'zod';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = path.resolve(__dirname, '../../');
+
+/**
+ * 'theme' -> 'Theme'
+ */
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Validate parsed JSON content, naming the file in errors
+ */
+function parseJson<T>(
+    content: unknown,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    kind: string,
+    filePath: string
+): T {
+    const result = schema.safeParse(content);
+
+    if (!result.success) {
+        const errors = result.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`);
+        throw new Error(`Invalid ${kind} in ${filePath}:\n${errors.join('\n')}`);
+    }
+
+    return result.data;
+}
+
+/**
+ * Load and validate a single JSON file
+ *
+ * @param filePath - File (relative to project root or absolute)
+ * @param schema - Schema of the file
+ * @param kind - What the file holds, for error messages (e.g., 'holiday calendar')
+ * @throws Error if the file is missing or invalid
+ */
+export function loadJsonFile<T>(
+    filePath: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    kind: string
+): T {
+    const fullPath = path.resolve(PROJECT_ROOT, filePath);
+
+    if (!fs.existsSync(fullPath)) {
+        throw new Error(`${capitalize(kind)} not found at ${fullPath}`);
+    }
+
+    const content: unknown = JSON.parse(fs.readFileSync(fullPath, 'utf-8'));
+    return parseJson(content, schema, kind, filePath);
+}
+
+/**
+ * Load and validate all named entries (*.json, one per file) in a directory
+ *
+ * @param dirPath - Directory (relative to project root or absolute)
+ * @param schema - Schema of one file
+ * @param kind - What the files hold, for error messages (e.g., 'theme')
+ * @returns Entries sorted by file name
+ * @throws Error if the directory is missing, a file is invalid or names repeat
+ */
+export function loadJsonDirectory<T extends { name: string }>(
+    dirPath: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    kind: string
+): T[] {
+    const fullPath = path.resolve(PROJECT_ROOT, dirPath);
+    const label = capitalize(kind);
+
+    if (!fs.existsSync(fullPath)) {
+        throw new Error(`${label}s directory not found at ${fullPath}`);
+    }
+
+    const files = fs
+        .readdirSync(fullPath)
+        .filter((f) => f.endsWith('.json'))
+        .sort();
+
+    const entries = files.map((file) => {
+        const content: unknown = JSON.parse(fs.readFileSync(path.join(fullPath, file), 'utf-8'));
+        return parseJson(content, schema, kind, path.join(dirPath, file));
+    });
+
+    const names = entries.map((e) => e.name);
+    const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+    if (duplicate !== undefined) {
+        throw new Error(`${label} name "${duplicate}" is used more than once in ${dirPath}`);
+    }
+
+    return entries;
+}
@@ -0,0 +1,144 @@
+import type { Platform } from '../types/index.js';
+
+/** Locale used when none is configured */
+export const DEFAULT_LOCALE = 'en';
+
+/**
+ * Check whether a value is a valid BCP 47 locale (e.g., 'es', 'pt-BR')
+ */
+export function isValidLocale(locale: string): boolean {
+    try {
+        return Intl.getCanonicalLocales(locale).length === 1;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Locales to try in order, most specific first (e.g., 'pt-BR' -> ['pt-BR', 'pt'])
+ */
+export function getLocaleChain(locale: string): string[] {
+    const chain: string[] = [];
+    const parts = locale.split('-');
+
+    for (let i = parts.length; i > 0; i--) {
+        chain.push(parts.slice(0, i).join('-'));
+    }
+
+    return chain;
+}
+
+/**
+ * Format a number for a locale without grouping separators (e.g., 37.5 -> '37,5' in 'es')
+ *
+ * @param value - Number to format
+ * @param locale - BCP 47 locale
+ * @param fractionDigits - Fixed number of decimal places (defaults to as many as needed)
+ */
+export function formatLocalizedNumber(
+    value: number,
+    locale: string,
+    fractionDigits?: number
+): string {
+    return new Intl.NumberFormat(locale, {
+        useGrouping: false,
+        minimumFractionDigits: fractionDigits,
+        maximumFractionDigits: fractionDigits ?? 20,
+    }).format(value);
+}
+
+/**
+ * Format a percentage with the locale's percent sign and spacing
+ * (e.g., 37 -> '37%' in 'en', '37 %' in 'es')
+ *
+ * @param percent - Percentage (0-100)
+ * @param locale - BCP 47 locale
+ * @param precision - Decimal places (defaults to 0)
+ */
+export function formatLocalizedPercent(
+    percent: number,
+    locale: string,
+    precision: number = 0
+): string {
+    return new Intl.NumberFormat(locale, {
+        style: 'percent',
+        minimumFractionDigits: precision,
+        maximumFractionDigits: precision,
+    }).format(percent / 100);
+}
+
+/**
+ * Month name in a locale (e.g., 10 -> 'octubre' in 'es')
+ */
+export function formatMonthName(month: number, locale: string): string {
+    return new Intl.DateTimeFormat(locale, { month: 'long', timeZone: 'UTC' }).format(
+        new Date(Date.UTC(2000, month - 1, 1))
+    );
+}
+
+/**
+ * Template variables for a percentage: the number (formatted for the locale when a template
+ * renders it, so filters and conditions can still use it) and the number with its percent sign
+ */
+export function getPercentVariables(
+    percent: number,
+    locale: string,
+    precision: number = 0
+): { percent: number; percentLabel: string } {
+    return {
+        percent,
+        percentLabel: formatLocalizedPercent(percent, locale, precision),
+    };
+}
+
+/**
+ * Parse per-platform locales (e.g., 'instagram:es,youtube:pt-BR')
+ *
+ * @throws Error if an entry is malformed or names an unknown platform or invalid locale
+ */
+export function parsePlatformLocales(value: string): Partial<Record<Platform, string>> {
+    const platforms: Platform[] = ['instagram', 'facebook', 'youtube', 'tiktok'];
+    const result: Partial<Record<Platform, string>> = {};
+
+    for (const entry of value.split(',').map((e) => e.trim()).filter((e) => e.length > 0)) {
+        const [platform = '', locale = ''] = entry.split(':').map((p) => p.trim());
+
+        if (!platforms.includes(platform as Platform)) {
+            throw new Error(`Unknown platform "${platform}" in "${entry}"`);
+        }
+        if (!isValidLocale(locale)) {
+            throw new Error(`Invalid locale "${locale}" in "${entry}"`);
+        }
+
+        result[platform as Platform] = locale;
+    }
+
+    return result;
+}
+
+/**
+ * Group upload targets by the locale they post in, so each locale is rendered once
+ *
+ * @param platforms - Upload targets (e.g., ['instagram', 'youtube'])
+ * @param defaultLocale - Locale of targets without an override
+ * @param overrides - Per-platform locales
+ * @returns Platforms per locale, default locale first
+ */
+export function groupPlatformsByLocale(
+    platforms: string[],
+    defaultLocale: string,
+    overrides: Partial<Record<Platform, string>>
+): Map<string, string[]> {
+    const groups = new Map<string, string[]>([[defaultLocale, []]]);
+
+    for (const platform of platforms) {
+        const locale = overrides[platform as Platform] ?? defaultLocale;
+        groups.set(locale, [...(groups.get(locale) ?? []), platform]);
+    }
+
+    for (const [locale, targets] of groups) {
+        if (targets.length === 0) groups.delete(locale);
+    }
+
+    return groups;
+}
@@ -0,0 +1,65 @@
+import type { YearMilestone, YearProgress } from '../types/index.js';
+import { calculatePercent } from './precision.js';
+
+/**
+ * Milestones in the order they fall in the year
+ */
+export const YEAR_MILESTONES = [
+    'firstDay',
+    'quarter',
+    'half',
+    'threeQuarters',
+    'almostDone',
+    'lastDay',
+] as const satisfies readonly YearMilestone[];
+
+/**
+ * Percent values that get a milestone edition
+ * 100% is only reached on the last day, which has its own edition
+ */
+const PERCENT_MILESTONES: ReadonlyArray<[number, YearMilestone]> = [
+    [25, 'quarter'],
+    [50, 'half'],
+    [75, 'threeQuarters'],
+    [99, 'almostDone'],
+];
+
+/**
+ * Milestones posted even when the integer percent hasn't changed
+ */
+const FORCED_MILESTONES: ReadonlySet<YearMilestone> = new Set(['firstDay', 'lastDay']);
+
+/**
+ * Find the milestone for a day of the year, if any
+ * Percent milestones only fall on the first day that reaches the percent
+ *
+ * @param progress - Year progress for the day
+ * @returns Milestone, or null for an ordinary day
+ */
+export function getYearMilestone(
+    progress: Pick<YearProgress, 'percent' | 'dayOfYear' | 'totalDays'>
+): YearMilestone | null {
+    if (progress.dayOfYear === 1) return 'firstDay';
+    if (progress.dayOfYear === progress.totalDays) return 'lastDay';
+
+    const percent = Math.floor(progress.percent);
+    const previous = calculatePercent(progress.dayOfYear - 1, progress.totalDays);
+    if (previous >= percent) return null;
+
+    const match = PERCENT_MILESTONES.find(([value]) => value === percent);
+    return match ? match[1] : null;
+}
+
+/**
+ * Whether a milestone must be posted even if the percent is unchanged
+ */
+export function isForcedMilestone(milestone: YearMilestone | null): boolean {
+    return milestone !== null && FORCED_MILESTONES.has(milestone);
+}
+
+/**
+ * Key of the milestone templates and hashtags in texts.json (e.g., 'halfMilestone')
+ */
+export function getMilestoneTextKey(milestone: YearMilestone): string {
+    return `${milestone}Milestone`;
+}
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import type { PeriodDefinition } from '../types/index.js';
+import { daysBetween, parseDateKey, parseMonthDay } from './progress-calculator.js';
+import { loadJsonFile } from './json-directory.js';
+
+/**
+ * Build a zod string schema from a parser that throws on invalid input
+ */
+function parsedString(
+    parse: (value: string) => unknown,
+    message: string
+): z.ZodEffects<z.ZodString> {
+    return z.string().refine(
+        (value) => {
+            try {
+                parse(value);
+                return true;
+            } catch {
+                return false;
+            }
+        },
+        { message }
+    );
+}
+
+const recurringSchema = z.object({
+    name: z.string().min(1),
+    label: z.string().min(1),
+    type: z.literal('recurring'),
+    start: parsedString((v) => parseMonthDay(v), 'must be a valid MM-DD month and day'),
+    end: parsedString((v) => parseMonthDay(v), 'must be a valid MM-DD month and day'),
+    labelYear: z.enum(['start', 'end']).optional(),
+});
+
+const fixedSchema = z
+    .object({
+        name: z.string().min(1),
+        label: z.string().min(1),
+        type: z.literal('fixed'),
+        start: parsedString((v) => parseDateKey(v), 'must be a valid YYYY-MM-DD date'),
+        end: parsedString((v) => parseDateKey(v), 'must be a valid YYYY-MM-DD date'),
+    })
+    .refine((p) => daysBetween(parseDateKey(p.start), parseDateKey(p.end)) >= 0, {
+        message: 'end must not be before start',
+    });
+
+/**
+ * Period definitions file schema
+ */
+const periodsSchema = z
+    .array(z.union([recurringSchema, fixedSchema]))
+    .refine((list) => new Set(list.map((p) => p.name)).size === list.length, {
+        message: 'period names must be unique',
+    });
+
+/**
+ * Load and validate period definitions
+ *
+ * @param filePath - Path to the definitions file (relative to project root or absolute)
+ * @returns Period definitions in file order
+ */
+export function loadPeriods(filePath: string): PeriodDefinition[] {
+    return loadJsonFile(filePath, periodsSchema, 'period definitions');
+}
+
+/**
+ * Find a period by name
+ *
+ * @throws Error if no period has that name
+ */
+export function findPeriod(periods: PeriodDefinition[], name: string): PeriodDefinition {
+    const period = periods.find((p) => p.name === name);
+
+    if (!period) {
+        const available = periods.map((p) => p.name).join(', ');
+        throw new Error(`Unknown period: "${name}". Defined periods: ${available}`);
+    }
+
+    return period;
+}
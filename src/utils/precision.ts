@@ -0,0 +1,52 @@
+import type { PostGranularity } from '../types/index.js';
+
+/** Highest supported number of decimal places */
+export const MAX_PRECISION = 4;
+
+/**
+ * Calculate a percentage rounded down to a number of decimal places
+ * Uses integer math so e.g. 73/365 is exactly 20, not 19.99
+ *
+ * @param part - Elapsed amount (e.g., day of year)
+ * @param total - Total amount (e.g., days in year)
+ * @param precision - Decimal places to keep (defaults to 0)
+ * @returns Percentage floored to the precision
+ */
+export function calculatePercent(part: number, total: number, precision: number = 0): number {
+    const scale = 10 ** precision;
+    return Math.floor((part * 100 * scale) / total) / scale;
+}
+
+/**
+ * Check whether a value is a valid post granularity ('percent', 'day' or 'tenths:N')
+ */
+export function isPostGranularity(value: string): value is PostGranularity {
+    if (value === 'percent' || value === 'day') return true;
+
+    const match = /^tenths:(\d+)$/.exec(value);
+    const tenths = parseInt(match?.[1] ?? '', 10);
+    return match !== null && tenths >= 1 && tenths <= 1000;
+}
+
+/**
+ * Value that changes once per post at a granularity
+ *
+ * - 'percent': the integer percent (e.g., 37)
+ * - 'day': the day of the year (e.g., 136)
+ * - 'tenths:N': the last N-tenths step reached (e.g., 37.5 for 'tenths:5' at 37.8%)
+ *
+ * @param progress - Percent and elapsed and total days
+ * @param granularity - Post granularity
+ */
+export function getGranularityValue(
+    progress: { percent: number; dayOfYear: number; totalDays: number },
+    granularity: PostGranularity
+): number {
+    if (granularity === 'day') return progress.dayOfYear;
+    if (granularity === 'percent') return Math.floor(progress.percent);
+
+    const tenths = parseInt(granularity.slice('tenths:'.length), 10);
+    // Tenths of a percent elapsed = dayOfYear * 1000 / totalDays
+    const step = Math.floor((progress.dayOfYear * 1000) / (progress.totalDays * tenths));
+    return (step * tenths) / 10;
+}
@@ -1,19 +1,179 @@
-import type { YearProgress } from '../types/index.js';
+import type {
+    CountdownProgress,
+    MonthProgress,
+    NamedPeriodProgress,
+    PeriodDefinition,
+    PeriodProgress,
+    QuarterProgress,
+    WeekProgress,
+    YearProgress,
+    ZonedDateParts,
+} from '../types/index.js';
+import { calculatePercent } from './precision.js';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+type CalendarDate = Pick<ZonedDateParts, 'year' | 'month' | 'day'>;
 
 /**
  * Calculate the current year progress
  *
  * @param date - Optional date to calculate progress for (defaults to now)
- * @param timezone - Optional timezone (IANA format, defaults to UTC)
+ * @param timezone - Optional timezone (IANA format); uses the host timezone when omitted
+ * @param precision - Decimal places kept in the percent (defaults to 0)
  * @returns Year progress data
  */
-export function calculateYearProgress(date?: Date, timezone?: string): YearProgress {
+export function calculateYearProgress(
+    date?: Date,
+    timezone?: string,
+    precision: number = 0
+): YearProgress {
     // Use provided date or current date
     const now = date ?? new Date();
 
-    // Apply timezone if specified
-    let workingDate = now;
-    if (timezone && timezone !== 'UTC') {
+    // Calendar date in the timezone; day math below is done on UTC dates so
+    // neither the host timezone nor DST shifts can skew it
+    const today = getZonedDateParts(now, timezone);
+    const year = today.year;
+
+    // Calculate day of year (1-indexed)
+    const dayOfYear = daysBetween({ year, month: 1, day: 1 }, today) + 1;
+
+    // Calculate total days in year
+    const totalDays = getDaysInYear(year);
+
+    // Calculate percentage (rounded down to the precision)
+    const percent = calculatePercent(dayOfYear, totalDays, precision);
+
+    return {
+        year,
+        percent,
+        dayOfYear,
+        totalDays,
+        isLeapYear: totalDays === 366,
+        date: now.toISOString(),
+    };
+}
+
+/**
+ * Calculate progress through a named custom period (fiscal year, term, season, ...)
+ *
+ * Recurring periods use the latest occurrence that started on or before the date;
+ * when the date is outside that occurrence the result is marked inactive.
+ *
+ * @param definition - Period definition
+ * @param date - Optional date to calculate progress for (defaults to now)
+ * @param timezone - Optional timezone (IANA format)
+ * @param precision - Decimal places kept in the percent (defaults to 0)
+ * @returns Period progress in the same shape as year progress
+ */
+export function calculatePeriodProgress(
+    definition: PeriodDefinition,
+    date?: Date,
+    timezone?: string,
+    precision: number = 0
+): NamedPeriodProgress {
+    const now = date ?? new Date();
+    const today = getZonedDateParts(now, timezone);
+
+    let start: CalendarDate;
+    let end: CalendarDate;
+
+    if (definition.type === 'fixed') {
+        start = parseDateKey(definition.start);
+        end = parseDateKey(definition.end);
+    } else {
+        const startRule = parseMonthDay(definition.start);
+        const endRule = parseMonthDay(definition.end);
+        const crossesYear =
+            endRule.month * 100 + endRule.day < startRule.month * 100 + startRule.day;
+
+        let startYear = today.year;
+        if (daysBetween(resolveMonthDay(startYear, startRule), today) < 0) {
+            startYear -= 1;
+        }
+
+        start = resolveMonthDay(startYear, startRule);
+        end = resolveMonthDay(crossesYear ? startYear + 1 : startYear, endRule);
+    }
+
+    const totalDays = daysBetween(start, end) + 1;
+    if (totalDays <= 0) {
+        throw new Error(`Period "${definition.name}" ends before it starts`);
+    }
+
+    const dayOfPeriod = daysBetween(start, today) + 1;
+    const clampedDay = Math.min(Math.max(dayOfPeriod, 0), totalDays);
+    const year = definition.type === 'recurring' && definition.labelYear === 'end'
+        ? end.year
+        : start.year;
+
+    return {
+        year,
+        percent: calculatePercent(clampedDay, totalDays, precision),
+        dayOfYear: clampedDay,
+        totalDays,
+        isLeapYear: containsLeapDay(start, end),
+        date: now.toISOString(),
+        period: definition.name,
+        label: definition.label,
+        startDate: formatDateKey(start),
+        endDate: formatDateKey(end),
+        isActive: dayOfPeriod >= 1 && dayOfPeriod <= totalDays,
+    };
+}
+
+/**
+ * Parse a MM-DD rule used by recurring periods
+ *
+ * @throws Error if the rule is not a valid month and day
+ */
+export function parseMonthDay(rule: string): { month: number; day: number } {
+    const match = /^(\d{2})-(\d{2})$/.exec(rule);
+    const month = parseInt(match?.[1] ?? '', 10);
+    const day = parseInt(match?.[2] ?? '', 10);
+
+    // Validate against a leap year so 02-29 is accepted
+    const check = new Date(Date.UTC(2000, month - 1, day));
+    if (!match || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+        throw new Error(`Invalid month-day "${rule}", expected MM-DD`);
+    }
+
+    return { month, day };
+}
+
+/**
+ * Resolve a month-day rule in a year (02-29 falls back to 02-28 outside leap years)
+ */
+function resolveMonthDay(year: number, rule: { month: number; day: number }): CalendarDate {
+    if (rule.month === 2 && rule.day === 29 && !isLeapYear(year)) {
+        return { year, month: 2, day: 28 };
+    }
+    return { year, month: rule.month, day: rule.day };
+}
+
+/**
+ * Check whether a date range (inclusive) contains a February 29th
+ */
+function containsLeapDay(start: CalendarDate, end: CalendarDate): boolean {
+    for (let year = start.year; year <= end.year; year++) {
+        const leapDay = { year, month: 2, day: 29 };
+        if (isLeapYear(year) && daysBetween(start, leapDay) >= 0 && daysBetween(leapDay, end) >= 0) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Get the calendar date and wall-clock time of an instant in a timezone
+ *
+ * @param date - Instant to convert
+ * @param timezone - Optional timezone (IANA format); uses the host timezone when omitted
+ * @returns Date parts as seen in the timezone
+ */
+export function getZonedDateParts(date: Date, timezone?: string): ZonedDateParts {
+    if (timezone !== undefined && timezone !== '') {
         try {
             const formatter = new Intl.DateTimeFormat('en-US', {
                 timeZone: timezone,
@@ -23,44 +183,236 @@ export function calculateYearProgress(date?: Date, timezone?: string): YearProgr
                 hour: 'numeric',
                 minute: 'numeric',
                 second: 'numeric',
+                hourCycle: 'h23',
             });
-            const parts = formatter.formatToParts(now);
-            const getPart = (type: string): string =>
-                parts.find((p) => p.type === type)?.value ?? '0';
-
-            workingDate = new Date(
-                parseInt(getPart('year'), 10),
-                parseInt(getPart('month'), 10) - 1,
-                parseInt(getPart('day'), 10),
-                parseInt(getPart('hour'), 10),
-                parseInt(getPart('minute'), 10),
-                parseInt(getPart('second'), 10)
-            );
+            const parts = formatter.formatToParts(date);
+            const getPart = (type: string): number =>
+                parseInt(parts.find((p) => p.type === type)?.value ?? '0', 10);
+
+            return {
+                year: getPart('year'),
+                month: getPart('month'),
+                day: getPart('day'),
+                hour: getPart('hour'),
+                minute: getPart('minute'),
+                second: getPart('second'),
+            };
         } catch {
-            // Fall back to original date if timezone parsing fails
-            workingDate = now;
+            // Fall back to the host timezone if the timezone is invalid
         }
     }
 
-    const year = workingDate.getFullYear();
-    const start = new Date(year, 0, 1); // January 1st
-    const end = new Date(year + 1, 0, 1); // Next January 1st
+    return {
+        year: date.getFullYear(),
+        month: date.getMonth() + 1,
+        day: date.getDate(),
+        hour: date.getHours(),
+        minute: date.getMinutes(),
+        second: date.getSeconds(),
+    };
+}
 
-    // Calculate day of year (1-indexed)
-    const dayOfYear = Math.floor((workingDate.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+/**
+ * Check whether a timezone is a valid IANA name (e.g., 'Europe/Berlin', 'UTC')
+ */
+export function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
 
-    // Calculate total days in year
-    const totalDays = Math.floor((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
+/**
+ * Format a calendar date as a YYYY-MM-DD key
+ */
+export function formatDateKey(parts: Pick<ZonedDateParts, 'year' | 'month' | 'day'>): string {
+    const month = parts.month.toString().padStart(2, '0');
+    const day = parts.day.toString().padStart(2, '0');
+    return `${parts.year}-${month}-${day}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD key into calendar date parts
+ *
+ * @throws Error if the key is not a valid date
+ */
+export function parseDateKey(key: string): Pick<ZonedDateParts, 'year' | 'month' | 'day'> {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+    if (!match) {
+        throw new Error(`Invalid date "${key}", expected YYYY-MM-DD`);
+    }
+
+    const year = parseInt(match[1] ?? '', 10);
+    const month = parseInt(match[2] ?? '', 10);
+    const day = parseInt(match[3] ?? '', 10);
+    const check = new Date(Date.UTC(year, month - 1, day));
 
-    // Calculate percentage (rounded down to nearest integer)
-    const percent = Math.floor((dayOfYear / totalDays) * 100);
+    if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+        throw new Error(`Invalid date "${key}", expected YYYY-MM-DD`);
+    }
+
+    return { year, month, day };
+}
 
+/**
+ * Count whole calendar days from one date to another (independent of DST)
+ */
+export function daysBetween(
+    from: Pick<ZonedDateParts, 'year' | 'month' | 'day'>,
+    to: Pick<ZonedDateParts, 'year' | 'month' | 'day'>
+): number {
+    const fromUtc = Date.UTC(from.year, from.month - 1, from.day);
+    const toUtc = Date.UTC(to.year, to.month - 1, to.day);
+    return Math.round((toUtc - fromUtc) / MS_PER_DAY);
+}
+
+/**
+ * Shift a calendar date by a number of days
+ */
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+    const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
     return {
-        year,
-        percent,
-        dayOfYear,
+        year: shifted.getUTCFullYear(),
+        month: shifted.getUTCMonth() + 1,
+        day: shifted.getUTCDate(),
+    };
+}
+
+/**
+ * Calculate progress through the days from start (inclusive) to end (exclusive)
+ */
+function calculateRangeProgress(
+    today: CalendarDate,
+    start: CalendarDate,
+    end: CalendarDate,
+    now: Date
+): PeriodProgress {
+    const dayOfPeriod = daysBetween(start, today) + 1;
+    const totalDays = daysBetween(start, end);
+
+    return {
+        percent: calculatePercent(dayOfPeriod, totalDays),
+        dayOfPeriod,
         totalDays,
-        isLeapYear: totalDays === 366,
+        startDate: formatDateKey(start),
+        endDate: formatDateKey(addDays(end, -1)),
+        date: now.toISOString(),
+    };
+}
+
+/**
+ * Calculate the current month progress
+ *
+ * @param date - Optional date to calculate progress for (defaults to now)
+ * @param timezone - Optional timezone (IANA format)
+ * @returns Month progress data
+ */
+export function calculateMonthProgress(date?: Date, timezone?: string): MonthProgress {
+    const now = date ?? new Date();
+    const today = getZonedDateParts(now, timezone);
+    const start = { year: today.year, month: today.month, day: 1 };
+    const end = today.month === 12
+        ? { year: today.year + 1, month: 1, day: 1 }
+        : { year: today.year, month: today.month + 1, day: 1 };
+
+    return {
+        ...calculateRangeProgress(today, start, end, now),
+        year: today.year,
+        month: today.month,
+        monthName: new Intl.DateTimeFormat('en-US', { month: 'long', timeZone: 'UTC' }).format(
+            new Date(Date.UTC(today.year, today.month - 1, 1))
+        ),
+    };
+}
+
+/**
+ * Calculate the current quarter progress
+ *
+ * @param date - Optional date to calculate progress for (defaults to now)
+ * @param timezone - Optional timezone (IANA format)
+ * @returns Quarter progress data
+ */
+export function calculateQuarterProgress(date?: Date, timezone?: string): QuarterProgress {
+    const now = date ?? new Date();
+    const today = getZonedDateParts(now, timezone);
+    const quarter = Math.floor((today.month - 1) / 3) + 1;
+    const startMonth = (quarter - 1) * 3 + 1;
+    const start = { year: today.year, month: startMonth, day: 1 };
+    const end = quarter === 4
+        ? { year: today.year + 1, month: 1, day: 1 }
+        : { year: today.year, month: startMonth + 3, day: 1 };
+
+    return {
+        ...calculateRangeProgress(today, start, end, now),
+        year: today.year,
+        quarter,
+    };
+}
+
+/**
+ * Calculate the current ISO week progress (Monday to Sunday)
+ *
+ * @param date - Optional date to calculate progress for (defaults to now)
+ * @param timezone - Optional timezone (IANA format)
+ * @returns Week progress data
+ */
+export function calculateWeekProgress(date?: Date, timezone?: string): WeekProgress {
+    const now = date ?? new Date();
+    const today = getZonedDateParts(now, timezone);
+
+    // ISO weekday: Monday = 1 ... Sunday = 7
+    const weekday = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay() || 7;
+    const start = addDays(today, 1 - weekday);
+    const end = addDays(start, 7);
+
+    // The ISO week-numbering year is the year of the week's Thursday
+    const thursday = addDays(start, 3);
+    const week = Math.floor(daysBetween({ year: thursday.year, month: 1, day: 1 }, thursday) / 7) + 1;
+
+    return {
+        ...calculateRangeProgress(today, start, end, now),
+        isoYear: thursday.year,
+        week,
+    };
+}
+
+/**
+ * Calculate progress of a countdown from a start date to a target date
+ *
+ * @param start - Start date (YYYY-MM-DD)
+ * @param target - Target date (YYYY-MM-DD)
+ * @param date - Optional date to calculate progress for (defaults to now)
+ * @param timezone - Optional timezone (IANA format)
+ * @returns Countdown progress data
+ */
+export function calculateCountdownProgress(
+    start: string,
+    target: string,
+    date?: Date,
+    timezone?: string
+): CountdownProgress {
+    const now = date ?? new Date();
+    const today = getZonedDateParts(now, timezone);
+    const startDate = parseDateKey(start);
+    const targetDate = parseDateKey(target);
+
+    const totalDays = daysBetween(startDate, targetDate);
+    if (totalDays <= 0) {
+        throw new Error(`Countdown target ${target} must be after start ${start}`);
+    }
+
+    const daysElapsed = Math.min(Math.max(daysBetween(startDate, today), 0), totalDays);
+    const daysUntilTarget = daysBetween(today, targetDate);
+
+    return {
+        percent: calculatePercent(daysElapsed, totalDays),
+        daysElapsed,
+        daysRemaining: Math.max(daysUntilTarget, 0),
+        totalDays,
+        isTargetDay: daysUntilTarget === 0,
+        isPast: daysUntilTarget < 0,
         date: now.toISOString(),
     };
 }
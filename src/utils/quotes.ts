@@ -0,0 +1,123 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { Quote, QuoteRotation, StateData } from '../types/index.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = path.resolve(__dirname, '../../');
+
+/**
+ * Load quotes from a JSON file containing an array of { text, author }
+ *
+ * @param datasetPath - Path to the quotes file (relative to project root or absolute)
+ * @returns Quotes in file order
+ */
+export function loadQuotes(datasetPath: string): Quote[] {
+    const fullPath = path.resolve(PROJECT_ROOT, datasetPath);
+
+    if (!fs.existsSync(fullPath)) {
+        throw new Error(`Quotes file not found at ${fullPath}`);
+    }
+
+    const raw = JSON.parse(fs.readFileSync(fullPath, 'utf-8')) as unknown;
+
+    if (!Array.isArray(raw) || raw.length === 0) {
+        throw new Error(`Quotes file must contain a non-empty array: ${datasetPath}`);
+    }
+
+    return raw.map((entry: unknown, index) => {
+        const quote = entry as Partial<Quote>;
+        if (typeof quote.text !== 'string' || typeof quote.author !== 'string') {
+            throw new Error(`Quote ${index} in ${datasetPath} must have text and author`);
+        }
+        return { text: quote.text, author: quote.author };
+    });
+}
+
+/**
+ * Deterministic pseudo-random generator (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Get the order quotes are shown in for a rotation cycle
+ * Every cycle is a different shuffle, so no quote repeats until the pool is used up
+ *
+ * @param poolSize - Number of quotes
+ * @param cycle - Rotation cycle (seeds the shuffle)
+ * @returns Quote indexes in display order
+ */
+export function getQuoteOrder(poolSize: number, cycle: number): number[] {
+    const order = Array.from({ length: poolSize }, (_, i) => i);
+    const random = createRandom(cycle + 1);
+
+    for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        const current = order[i] ?? i;
+        order[i] = order[j] ?? j;
+        order[j] = current;
+    }
+
+    return order;
+}
+
+/**
+ * Read the last rotation position from state
+ */
+export function getRotationFromState(
+    lastState: StateData | null,
+    contentType: string
+): QuoteRotation | null {
+    if (!lastState || lastState.contentType !== contentType) {
+        return null;
+    }
+
+    const { quotePosition, quoteCycle } = lastState;
+    if (typeof quotePosition !== 'number' || typeof quoteCycle !== 'number') {
+        return null;
+    }
+
+    return { position: quotePosition, cycle: quoteCycle };
+}
+
+/**
+ * Advance the rotation by one quote, starting a new cycle when the pool is used up
+ *
+ * @param last - Rotation of the last posted quote (null to start fresh)
+ * @param poolSize - Number of quotes
+ */
+export function getNextRotation(last: QuoteRotation | null, poolSize: number): QuoteRotation {
+    if (!last) {
+        return { position: 0, cycle: 0 };
+    }
+
+    const position = last.position + 1;
+    if (position >= poolSize) {
+        return { position: 0, cycle: last.cycle + 1 };
+    }
+
+    return { position, cycle: last.cycle };
+}
+
+/**
+ * Get the quote at a rotation position
+ */
+export function getQuoteAt(quotes: Quote[], rotation: QuoteRotation): Quote {
+    const order = getQuoteOrder(quotes.length, rotation.cycle);
+    const quote = quotes[order[rotation.position] ?? 0];
+
+    if (!quote) {
+        throw new Error(`No quote at rotation position ${rotation.position}`);
+    }
+
+    return quote;
+}
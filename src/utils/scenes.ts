@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import type { Scene } from '../types/index.js';
+import { compileTemplate } from './template-engine.js';
+import { loadJsonDirectory } from './json-directory.js';
+
+const keyframesSchema = z
+    .array(z.object({ time: z.number().min(0), value: z.number() }))
+    .min(1)
+    .refine((frames) => isInTimeOrder(frames), { message: 'keyframes must be in time order' });
+
+/**
+ * Position, size and animation shared by all elements
+ */
+const elementBaseSchema = z.object({
+    x: z.number().optional().default(0),
+    y: z.number().optional().default(0),
+    width: z.number().min(0).optional().default(0),
+    height: z.number().min(0).optional().default(0),
+    opacity: z.number().min(0).max(1).optional().default(1),
+    rotation: z.number().optional().default(0),
+    scale: z.number().min(0).optional().default(1),
+    keyframes: z
+        .object({
+            x: keyframesSchema,
+            y: keyframesSchema,
+            width: keyframesSchema,
+            height: keyframesSchema,
+            opacity: keyframesSchema,
+            rotation: keyframesSchema,
+            scale: keyframesSchema,
+        })
+        .strict()
+        .partial()
+        .optional()
+        .default({}),
+});
+
+/**
+ * Scene element schema, by element type
+ */
+const elementSchema = z.discriminatedUnion('type', [
+    elementBaseSchema.extend({ type: z.literal('background') }),
+    elementBaseSchema.extend({
+        type: z.literal('overlay'),
+        color: z.string().min(1).optional(),
+    }),
+    elementBaseSchema.extend({ type: z.literal('confetti') }),
+    elementBaseSchema.extend({
+        type: z.literal('shape'),
+        shape: z.enum(['rect', 'ellipse']).optional().default('rect'),
+        color: z.string().min(1),
+        radius: z.number().min(0).optional().default(0),
+    }),
+    elementBaseSchema.extend({
+        type: z.literal('text'),
+        template: z.string().refine((value) => isValidTemplate(value), {
+            message: 'must be a valid template',
+        }),
+        fontSize: z.number().positive(),
+        color: z.string().min(1).optional(),
+        align: z.enum(['start', 'center', 'end']).optional().default('center'),
+    }),
+    elementBaseSchema.extend({
+        type: z.literal('progress'),
+        layout: z.enum(['bar', 'ring', 'dots', 'battery', 'hourglass']),
+    }),
+    elementBaseSchema.extend({
+        type: z.literal('image'),
+        src: z.string().min(1),
+        fit: z.enum(['cover', 'contain']).optional().default('contain'),
+    }),
+]);
+
+/**
+ * Scene file schema
+ */
+const sceneSchema = z.object({
+    name: z.string().min(1),
+    elements: z.array(elementSchema).min(1),
+});
+
+/**
+ * Check whether keyframes are sorted by time
+ */
+function isInTimeOrder(frames: Array<{ time: number }>): boolean {
+    return frames.every((frame, i) => i === 0 || frame.time >= (frames[i - 1]?.time ?? 0));
+}
+
+/**
+ * Check whether a template parses
+ */
+function isValidTemplate(template: string): boolean {
+    try {
+        compileTemplate(template);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Load and validate all scenes (*.json) in a directory
+ *
+ * @param dirPath - Scenes directory (relative to project root or absolute)
+ * @returns Scenes sorted by file name
+ * @throws Error if the directory is missing, a scene is invalid or names repeat
+ */
+export function loadScenes(dirPath: string): Scene[] {
+    return loadJsonDirectory(dirPath, sceneSchema, 'scene');
+}
+
+/**
+ * Find a scene by name
+ *
+ * @throws Error if no scene has the name
+ */
+export function findScene(scenes: Scene[], name: string): Scene {
+    const scene = scenes.find((s) => s.name === name);
+
+    if (!scene) {
+        const available = scenes.map((s) => s.name).join(', ');
+        throw new Error(`Unknown scene: "${name}". Defined scenes: ${available}`);
+    }
+
+    return scene;
+}
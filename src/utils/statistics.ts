@@ -0,0 +1,65 @@
+import type { HolidayDefinition, ProgressStatistics, ZonedDateParts } from '../types/index.js';
+import { getHolidayDateKeys } from './holidays.js';
+import { DEFAULT_LOCALE, formatMonthName } from './locale.js';
+import { addDays, daysBetween, formatDateKey, getZonedDateParts } from './progress-calculator.js';
+
+type CalendarDate = Pick<ZonedDateParts, 'year' | 'month' | 'day'>;
+
+/**
+ * Day of the week (0 = Sunday ... 6 = Saturday)
+ */
+function getWeekday(date: CalendarDate): number {
+    return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+/**
+ * Calculate statistics about the time left until an end date
+ *
+ * @param end - Last day of the year or period (inclusive)
+ * @param date - Optional date to calculate statistics for (defaults to now)
+ * @param timezone - Optional timezone (IANA format)
+ * @param holidays - Holidays excluded from the workday count
+ * @returns Time-left statistics (all zero once the end date has passed)
+ */
+export function calculateProgressStatistics(
+    end: CalendarDate,
+    date?: Date,
+    timezone?: string,
+    holidays: HolidayDefinition[] = []
+): ProgressStatistics {
+    const now = date ?? new Date();
+    const today = getZonedDateParts(now, timezone);
+    const daysLeft = Math.max(daysBetween(today, end), 0);
+    const holidayKeys = getHolidayDateKeys(holidays, today.year, end.year);
+
+    let weekendsLeft = 0;
+    let workdaysLeft = 0;
+    for (let i = 1; i <= daysLeft; i++) {
+        const day = addDays(today, i);
+        const weekday = getWeekday(day);
+
+        // Count each weekend once: on its Saturday, or on its Sunday if Saturday is today
+        if (weekday === 6 || (weekday === 0 && i === 1)) {
+            weekendsLeft++;
+        } else if (weekday !== 0 && !holidayKeys.has(formatDateKey(day))) {
+            workdaysLeft++;
+        }
+    }
+
+    // Wall-clock hours left today plus the remaining days
+    const secondsToday = today.hour * 3600 + today.minute * 60 + today.second;
+    const hoursLeft = daysBetween(today, end) < 0
+        ? 0
+        : Math.floor((86400 - secondsToday + daysLeft * 86400) / 3600);
+
+    return {
+        daysLeft,
+        weeksLeft: Math.floor(daysLeft / 7),
+        weekendsLeft,
+        workdaysLeft,
+        hoursLeft,
+        quarter: Math.floor((today.month - 1) / 3) + 1,
+        month: today.month,
+        monthName: formatMonthName(today.month, DEFAULT_LOCALE),
+    };
+}
@@ -0,0 +1,483 @@
+/**
+ * Template engine for texts.json
+ *
+ * Syntax:
+ * - `{name}` inserts a variable
+ * - `{name | filter:arg | filter}` applies filters (see FILTERS)
+ * - `{#if daysLeft < 30}...{#else}...{/if}` shows text conditionally
+ *   (operators: < <= > >= == !=, a bare `name` or `!name` tests for truthiness)
+ * - `{{` and `}}` insert literal braces
+ *
+ * Numbers, plurals and dates are formatted for the locale passed to renderTemplate.
+ */
+
+import { DEFAULT_LOCALE, formatLocalizedNumber } from './locale.js';
+
+export type TemplateValue = string | number;
+export type TemplateVariables = Record<string, TemplateValue>;
+
+type Operator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+type Operand = { kind: 'variable'; name: string } | { kind: 'literal'; value: TemplateValue };
+
+type Condition =
+    | { kind: 'truthy'; name: string; negate: boolean }
+    | { kind: 'compare'; left: Operand; operator: Operator; right: Operand };
+
+interface FilterCall {
+    name: string;
+    args: string[];
+}
+
+type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'variable'; name: string; filters: FilterCall[] }
+    | { type: 'if'; condition: Condition; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+/**
+ * A parsed template ready to render
+ */
+export interface CompiledTemplate {
+    /** Original template source */
+    source: string;
+    /** Variables the template reads */
+    variables: string[];
+    nodes: TemplateNode[];
+}
+
+/**
+ * Filter implementation: value, arguments and locale in, text out
+ */
+type Filter = (value: TemplateValue, args: string[], locale: string) => TemplateValue;
+
+const DATE_STYLES = ['short', 'medium', 'long', 'full'] as const;
+
+/**
+ * Check whether a filter argument is a date style
+ */
+function isDateStyle(style: string): style is (typeof DATE_STYLES)[number] {
+    return (DATE_STYLES as readonly string[]).includes(style);
+}
+
+/**
+ * Available filters
+ */
+const FILTERS: Record<string, { minArgs: number; maxArgs: number; apply: Filter }> = {
+    /** 1234 -> '1,234'; `number:1` keeps one decimal place */
+    number: {
+        minArgs: 0,
+        maxArgs: 1,
+        apply: (value, [digits], locale) => {
+            const fractionDigits = digits === undefined ? undefined : parseInt(digits, 10);
+            return new Intl.NumberFormat(locale, {
+                minimumFractionDigits: fractionDigits,
+                maximumFractionDigits: fractionDigits,
+            }).format(toNumber(value));
+        },
+    },
+    /** `plural:day:days` -> '1 day' / '2 days' */
+    plural: {
+        minArgs: 2,
+        maxArgs: 2,
+        apply: (value, [one, other], locale) => {
+            const count = toNumber(value);
+            const form = new Intl.PluralRules(locale).select(count) === 'one' ? one : other;
+            return `${formatValue(value, locale)} ${form}`;
+        },
+    },
+    /** '2026-10-19' -> 'October 19, 2026' (`date:short|medium|long|full`, defaults to long) */
+    date: {
+        minArgs: 0,
+        maxArgs: 1,
+        apply: (value, [style], locale) => {
+            const date = new Date(String(value));
+            if (Number.isNaN(date.getTime())) {
+                throw new Error(`Cannot format "${value}" as a date`);
+            }
+            return new Intl.DateTimeFormat(locale, {
+                dateStyle: style !== undefined && isDateStyle(style) ? style : 'long',
+                timeZone: 'UTC',
+            }).format(date);
+        },
+    },
+    /** 7 -> '07' with `pad:2` */
+    pad: {
+        minArgs: 1,
+        maxArgs: 1,
+        apply: (value, [width]) => String(value).padStart(parseInt(width ?? '0', 10), '0'),
+    },
+    upper: { minArgs: 0, maxArgs: 0, apply: (value) => String(value).toUpperCase() },
+    lower: { minArgs: 0, maxArgs: 0, apply: (value) => String(value).toLowerCase() },
+    capitalize: {
+        minArgs: 0,
+        maxArgs: 0,
+        apply: (value) => {
+            const text = String(value);
+            return text.charAt(0).toUpperCase() + text.slice(1);
+        },
+    },
+    /** Fallback text for empty values */
+    default: {
+        minArgs: 1,
+        maxArgs: 1,
+        apply: (value, [fallback]) => (value === '' ? (fallback ?? '') : value),
+    },
+};
+
+/**
+ * Format a value for output: numbers use the locale's decimal separator
+ */
+function formatValue(value: TemplateValue, locale: string): string {
+    return typeof value === 'number' ? formatLocalizedNumber(value, locale) : value;
+}
+
+/**
+ * Convert a template value to a number
+ */
+function toNumber(value: TemplateValue): number {
+    const number = typeof value === 'number' ? value : Number(value);
+    if (Number.isNaN(number)) {
+        throw new Error(`Expected a number but got "${value}"`);
+    }
+    return number;
+}
+
+/**
+ * Split a template into text and tag tokens
+ */
+function tokenize(source: string): Array<{ tag: boolean; value: string }> {
+    const tokens: Array<{ tag: boolean; value: string }> = [];
+    let text = '';
+    let i = 0;
+
+    while (i < source.length) {
+        const char = source[i];
+        const next = source[i + 1];
+
+        if ((char === '{' && next === '{') || (char === '}' && next === '}')) {
+            text += char;
+            i += 2;
+        } else if (char === '{') {
+            const end = source.indexOf('}', i);
+            if (end === -1) {
+                throw new Error(`Unclosed "{" at position ${i}`);
+            }
+            if (text) tokens.push({ tag: false, value: text });
+            text = '';
+            tokens.push({ tag: true, value: source.slice(i + 1, end).trim() });
+            i = end + 1;
+        } else if (char === '}') {
+            throw new Error(`Unexpected "}" at position ${i} (use "}}" for a literal brace)`);
+        } else {
+            text += char;
+            i++;
+        }
+    }
+
+    if (text) tokens.push({ tag: false, value: text });
+    return tokens;
+}
+
+/**
+ * Check a variable name
+ */
+function parseName(name: string): string {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        throw new Error(`Invalid variable name "${name}"`);
+    }
+    return name;
+}
+
+/**
+ * Parse a condition operand: a number, a quoted string or a variable name
+ */
+function parseOperand(text: string): Operand {
+    if (/^-?\d+(\.\d+)?$/.test(text)) {
+        return { kind: 'literal', value: parseFloat(text) };
+    }
+    const quoted = /^(['"])(.*)\1$/.exec(text);
+    if (quoted) {
+        return { kind: 'literal', value: quoted[2] ?? '' };
+    }
+    return { kind: 'variable', name: parseName(text) };
+}
+
+/**
+ * Parse the condition of an {#if} tag
+ */
+function parseCondition(text: string): Condition {
+    const match = /^(.+?)\s*(<=|>=|==|!=|<|>)\s*(.+)$/.exec(text);
+    if (match) {
+        return {
+            kind: 'compare',
+            left: parseOperand(match[1] ?? ''),
+            operator: match[2] as Operator,
+            right: parseOperand(match[3] ?? ''),
+        };
+    }
+
+    const negate = text.startsWith('!');
+    return { kind: 'truthy', name: parseName(negate ? text.slice(1).trim() : text), negate };
+}
+
+/**
+ * Parse a `name | filter:arg` expression
+ */
+function parseExpression(text: string): TemplateNode {
+    const [name = '', ...filterTexts] = text.split('|').map((part) => part.trim());
+
+    const filters = filterTexts.map((filterText): FilterCall => {
+        const [filterName = '', ...args] = filterText.split(':');
+        const filter = FILTERS[filterName];
+        if (!filter) {
+            throw new Error(`Unknown filter "${filterName}"`);
+        }
+        if (args.length < filter.minArgs || args.length > filter.maxArgs) {
+            throw new Error(
+                `Filter "${filterName}" takes ${filter.minArgs}-${filter.maxArgs} arguments`
+            );
+        }
+        const style = args[0];
+        if (filterName === 'date' && style !== undefined && !isDateStyle(style)) {
+            throw new Error(`Unknown date style "${style}"`);
+        }
+        return { name: filterName, args };
+    });
+
+    return { type: 'variable', name: parseName(name), filters };
+}
+
+/**
+ * Collect the variables read by a list of nodes
+ */
+function collectVariables(nodes: TemplateNode[], names: Set<string>): Set<string> {
+    const addOperand = (operand: Operand): void => {
+        if (operand.kind === 'variable') names.add(operand.name);
+    };
+
+    for (const node of nodes) {
+        if (node.type === 'variable') {
+            names.add(node.name);
+        } else if (node.type === 'if') {
+            if (node.condition.kind === 'truthy') {
+                names.add(node.condition.name);
+            } else {
+                addOperand(node.condition.left);
+                addOperand(node.condition.right);
+            }
+            collectVariables(node.then, names);
+            collectVariables(node.otherwise, names);
+        }
+    }
+
+    return names;
+}
+
+/**
+ * Parse a template
+ *
+ * @throws Error describing the first syntax error
+ */
+export function compileTemplate(source: string): CompiledTemplate {
+    const root: TemplateNode[] = [];
+    const stack: Array<Extract<TemplateNode, { type: 'if' }> & { inElse: boolean }> = [];
+    const current = (): TemplateNode[] => {
+        const block = stack[stack.length - 1];
+        if (!block) return root;
+        return block.inElse ? block.otherwise : block.then;
+    };
+
+    try {
+        for (const token of tokenize(source)) {
+            if (!token.tag) {
+                current().push({ type: 'text', value: token.value });
+            } else if (token.value.startsWith('#if ')) {
+                const block = {
+                    type: 'if' as const,
+                    condition: parseCondition(token.value.slice(4).trim()),
+                    then: [],
+                    otherwise: [],
+                    inElse: false,
+                };
+                current().push(block);
+                stack.push(block);
+            } else if (token.value === '#else') {
+                const block = stack[stack.length - 1];
+                if (!block || block.inElse) {
+                    throw new Error('Unexpected {#else}');
+                }
+                block.inElse = true;
+            } else if (token.value === '/if') {
+                if (!stack.pop()) {
+                    throw new Error('Unexpected {/if}');
+                }
+            } else {
+                current().push(parseExpression(token.value));
+            }
+        }
+
+        if (stack.length > 0) {
+            throw new Error('Missing {/if}');
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`Invalid template "${source}": ${message}`);
+    }
+
+    return {
+        source,
+        variables: [...collectVariables(root, new Set())],
+        nodes: root,
+    };
+}
+
+/**
+ * Get the variables a template uses that are not provided
+ */
+export function findMissingVariables(
+    template: CompiledTemplate,
+    variables: TemplateVariables
+): string[] {
+    return template.variables.filter((name) => !(name in variables));
+}
+
+/**
+ * Resolve a condition operand
+ */
+function resolveOperand(operand: Operand, variables: TemplateVariables): TemplateValue {
+    return operand.kind === 'literal' ? operand.value : (variables[operand.name] ?? '');
+}
+
+/**
+ * Evaluate an {#if} condition
+ * Values are compared as numbers when both sides are numeric
+ */
+function evaluate(condition: Condition, variables: TemplateVariables): boolean {
+    if (condition.kind === 'truthy') {
+        const value = variables[condition.name];
+        const truthy = value !== undefined && value !== '' && value !== 0 && value !== '0';
+        return condition.negate ? !truthy : truthy;
+    }
+
+    let left: TemplateValue = resolveOperand(condition.left, variables);
+    let right: TemplateValue = resolveOperand(condition.right, variables);
+    const numeric = [left, right].every((v) => v !== '' && !Number.isNaN(Number(v)));
+    if (numeric) {
+        left = Number(left);
+        right = Number(right);
+    } else {
+        left = String(left);
+        right = String(right);
+    }
+
+    switch (condition.operator) {
+        case '<':
+            return left < right;
+        case '<=':
+            return left <= right;
+        case '>':
+            return left > right;
+        case '>=':
+            return left >= right;
+        case '==':
+            return left === right;
+        case '!=':
+            return left !== right;
+    }
+}
+
+/**
+ * Render a list of nodes
+ * A conditional that renders nothing takes one of the spaces around it along, so
+ * 'a {#if x}b{/if} c' renders 'a c' and text next to the conditional keeps its spacing
+ */
+function renderNodes(nodes: TemplateNode[], variables: TemplateVariables, locale: string): string {
+    let result = '';
+    let afterEmpty = false;
+
+    for (const node of nodes) {
+        let text: string;
+
+        if (node.type === 'text') {
+            text = node.value;
+        } else if (node.type === 'variable') {
+            let value: TemplateValue = variables[node.name] ?? '';
+            for (const filter of node.filters) {
+                value = FILTERS[filter.name]?.apply(value, filter.args, locale) ?? value;
+            }
+            text = formatValue(value, locale);
+        } else {
+            const branch = evaluate(node.condition, variables) ? node.then : node.otherwise;
+            text = renderNodes(branch, variables, locale);
+            if (text === '') {
+                afterEmpty = true;
+                continue;
+            }
+        }
+
+        if (afterEmpty) {
+            if (text.startsWith('\n')) {
+                result = result.replace(/[ \t]+$/, '');
+            } else if (result === '' || /[ \t\n]$/.test(result)) {
+                text = text.replace(/^[ \t]+/, '');
+            }
+            afterEmpty = false;
+        }
+
+        result += text;
+    }
+
+    // Nothing follows an empty conditional at the end
+    return afterEmpty ? result.replace(/[ \t]+$/, '') : result;
+}
+
+/**
+ * Render a template
+ *
+ * @param template - Template source or compiled template
+ * @param variables - Variable values
+ * @param locale - BCP 47 locale used to format numbers, plurals and dates
+ * @returns Rendered text
+ * @throws Error if the template uses a variable that is not provided
+ */
+export function renderTemplate(
+    template: string | CompiledTemplate,
+    variables: TemplateVariables,
+    locale: string = DEFAULT_LOCALE
+): string {
+    const compiled = typeof template === 'string' ? compileTemplate(template) : template;
+    const missing = findMissingVariables(compiled, variables);
+
+    if (missing.length > 0) {
+        throw new Error(
+            `Template "${compiled.source}" uses unknown variable(s): ${missing.join(', ')}`
+        );
+    }
+
+    return renderNodes(compiled.nodes, variables, locale);
+}
+
+/**
+ * Pick an item at random, weighted by its `weight`
+ *
+ * @param items - Items with positive weights
+ * @param random - Random number source in [0, 1) (defaults to Math.random)
+ */
+export function pickWeighted<T extends { weight: number }>(
+    items: T[],
+    random: () => number = Math.random
+): T {
+    const total = items.reduce((sum, item) => sum + item.weight, 0);
+    let threshold = random() * total;
+
+    for (const item of items) {
+        threshold -= item.weight;
+        if (threshold < 0) return item;
+    }
+
+    const last = items[items.length - 1];
+    if (!last) {
+        throw new Error('Cannot pick from an empty list');
+    }
+    return last;
+}
@@ -0,0 +1,24 @@
+/**
+ * Variables each texts.json key is rendered with
+ * Generators declare them when they are loaded, so template typos are caught at startup
+ * instead of on the day a template is picked
+ */
+
+const textVariables = new Map<string, readonly string[]>();
+
+/**
+ * Declare the variables a text key is rendered with
+ *
+ * @param textKey - Key in texts.json (e.g., 'horoscope')
+ * @param variables - Variables every render of the key provides
+ */
+export function registerTextVariables(textKey: string, variables: readonly string[]): void {
+    textVariables.set(textKey, variables);
+}
+
+/**
+ * Get the variables declared for a text key, or undefined if no generator declared any
+ */
+export function getTextVariables(textKey: string): readonly string[] | undefined {
+    return textVariables.get(textKey);
+}
@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import type { Theme, YearMilestone } from '../types/index.js';
+import { YEAR_MILESTONES } from './milestones.js';
+import { loadJsonDirectory } from './json-directory.js';
+
+/** Theme preference that picks any theme */
+export const RANDOM_THEME = 'random';
+
+const colorSchema = z.string().min(1);
+
+const fontWeightSchema = z.enum([
+    'normal',
+    'bold',
+    '100',
+    '200',
+    '300',
+    '400',
+    '500',
+    '600',
+    '700',
+    '800',
+    '900',
+]);
+
+const easingSchema = z.enum(['linear', 'ease-out-cubic', 'ease-in-out', 'elastic', 'overshoot']);
+
+const hexColorSchema = z
+    .string()
+    .regex(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i, { message: 'must be a hex color like #1E3A8A' });
+
+/**
+ * Background filter schema, by filter type
+ */
+const filterSchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('blur'), radius: z.number().min(0) }),
+    z.object({ type: z.literal('vignette'), strength: z.number().min(0).max(1) }),
+    z.object({ type: z.literal('desaturate'), amount: z.number().min(0).max(1) }),
+    z.object({ type: z.literal('duotone'), shadows: hexColorSchema, highlights: hexColorSchema }),
+    z.object({ type: z.literal('brightness'), amount: z.number().min(0) }),
+    z.object({ type: z.literal('contrast'), amount: z.number().min(0) }),
+    z.object({
+        type: z.literal('lut'),
+        file: z.string().endsWith('.cube', { message: 'must be a .cube file' }),
+        intensity: z.number().min(0).max(1).optional().default(1),
+    }),
+]);
+
+/**
+ * Theme file schema
+ */
+const themeSchema = z.object({
+    name: z.string().min(1),
+    milestones: z.array(z.enum(YEAR_MILESTONES)).optional().default([]),
+    layout: z.enum(['bar', 'ring', 'dots', 'battery', 'hourglass']).optional().default('bar'),
+    counter: z.enum(['none', 'inside', 'above', 'tip']).optional().default('none'),
+    animation: z
+        .object({
+            easing: easingSchema.optional().default('linear'),
+            delay: z.number().min(0).optional().default(0),
+            text: z
+                .object({
+                    preset: z
+                        .enum(['fade', 'slide-up', 'typewriter', 'word-pop', 'scale-bounce'])
+                        .optional()
+                        .default('fade'),
+                    anchor: z.enum(['video', 'bar-start', 'bar-end']).optional().default('video'),
+                    delay: z.number().optional().default(0),
+                    duration: z.number().positive().optional().default(0.5),
+                    stagger: z.number().min(0).optional().default(0),
+                    slide: z.number().optional().default(80),
+                })
+                .optional()
+                .default({}),
+        })
+        .optional()
+        .default({}),
+    background: z
+        .object({
+            filters: z.array(filterSchema).optional().default([]),
+            motion: z.enum(['none', 'ken-burns']).optional().default('none'),
+            zoom: z.number().min(1).optional().default(1.15),
+            slides: z.number().int().min(1).optional().default(1),
+            crossfade: z.number().min(0).optional().default(1),
+        })
+        .optional()
+        .default({}),
+    overlay: z.object({
+        color: colorSchema,
+        opacity: z.number().min(0).max(1),
+    }),
+    bar: z.object({
+        colors: z.array(colorSchema).min(2),
+        celebrationColors: z.array(colorSchema).min(2).optional(),
+        trackColor: colorSchema,
+        borderColor: colorSchema,
+        borderWidth: z.number().min(0),
+        radius: z.number().min(0).max(30),
+    }),
+    text: z.object({
+        color: colorSchema,
+        font: z.string().min(1).optional(),
+        weights: z.array(fontWeightSchema).min(1),
+        shadow: z.object({
+            color: colorSchema,
+            blur: z.number().min(0),
+        }),
+        outline: z.object({ color: colorSchema, width: z.number().min(0) }).optional(),
+    }),
+    contrast: z
+        .object({
+            adaptive: z.boolean().optional().default(true),
+            ratio: z.number().min(1).max(21).optional().default(4.5),
+        })
+        .optional()
+        .default({}),
+    confetti: z.object({
+        colors: z.array(colorSchema).min(1),
+    }),
+});
+
+/**
+ * Load and validate all themes (*.json) in a directory
+ *
+ * @param dirPath - Themes directory (relative to project root or absolute)
+ * @returns Themes sorted by file name
+ * @throws Error if the directory has no themes, a theme is invalid or names repeat
+ */
+export function loadThemes(dirPath: string): Theme[] {
+    const themes = loadJsonDirectory(dirPath, themeSchema, 'theme');
+
+    if (themes.length === 0) {
+        throw new Error(`No themes (.json) found in ${dirPath}`);
+    }
+
+    return themes;
+}
+
+/**
+ * Choose the theme for a render
+ * A theme listing the milestone wins; otherwise the preferred theme by name, or any
+ * theme for 'random'
+ *
+ * @param themes - Available themes
+ * @param preference - Theme name or 'random'
+ * @param milestone - Milestone being celebrated, if any
+ * @param random - Random number generator (0-1)
+ * @throws Error if the preferred theme does not exist
+ */
+export function selectTheme(
+    themes: Theme[],
+    preference: string,
+    milestone: YearMilestone | null = null,
+    random: () => number = Math.random
+): Theme {
+    const pick = (candidates: Theme[]): Theme | undefined =>
+        candidates[Math.floor(random() * candidates.length)];
+
+    const milestoneThemes =
+        milestone === null ? [] : themes.filter((t) => t.milestones.includes(milestone));
+    const theme =
+        pick(milestoneThemes) ??
+        (preference === RANDOM_THEME ? pick(themes) : themes.find((t) => t.name === preference));
+
+    if (!theme) {
+        const available = themes.map((t) => t.name).join(', ');
+        throw new Error(`Unknown theme: "${preference}". Defined themes: ${available}`);
+    }
+
+    return theme;
+}
@@ -0,0 +1,158 @@
+import type { ZodiacSeason, ZodiacSign, ZonedDateParts } from '../types/index.js';
+import { daysBetween, formatDateKey } from './progress-calculator.js';
+import { calculatePercent } from './precision.js';
+
+/**
+ * Zodiac signs in season order, starting with Aries
+ */
+export const ZODIAC_SIGNS = [
+    'aries',
+    'taurus',
+    'gemini',
+    'cancer',
+    'leo',
+    'virgo',
+    'libra',
+    'scorpio',
+    'sagittarius',
+    'capricorn',
+    'aquarius',
+    'pisces',
+] as const satisfies readonly ZodiacSign[];
+
+/**
+ * First day (month, day) of each sign's season (tropical zodiac)
+ */
+const SEASON_STARTS: Record<ZodiacSign, { month: number; day: number }> = {
+    aries: { month: 3, day: 21 },
+    taurus: { month: 4, day: 20 },
+    gemini: { month: 5, day: 21 },
+    cancer: { month: 6, day: 21 },
+    leo: { month: 7, day: 23 },
+    virgo: { month: 8, day: 23 },
+    libra: { month: 9, day: 23 },
+    scorpio: { month: 10, day: 23 },
+    sagittarius: { month: 11, day: 22 },
+    capricorn: { month: 12, day: 22 },
+    aquarius: { month: 1, day: 20 },
+    pisces: { month: 2, day: 19 },
+};
+
+type CalendarDate = Pick<ZonedDateParts, 'year' | 'month' | 'day'>;
+
+/**
+ * Check if a value is a known zodiac sign
+ */
+export function isZodiacSign(value: string): value is ZodiacSign {
+    return (ZODIAC_SIGNS as readonly string[]).includes(value);
+}
+
+/**
+ * Get the sign whose season a calendar date falls in
+ */
+export function getZodiacSign(date: CalendarDate): ZodiacSign {
+    let current: ZodiacSign = 'capricorn';
+    let latestStart = -1;
+
+    for (const sign of ZODIAC_SIGNS) {
+        const start = SEASON_STARTS[sign];
+        const startValue = start.month * 100 + start.day;
+        const dateValue = date.month * 100 + date.day;
+
+        if (startValue <= dateValue && startValue > latestStart) {
+            latestStart = startValue;
+            current = sign;
+        }
+    }
+
+    return current;
+}
+
+/**
+ * Get the sign that follows another in season order
+ */
+function getNextSign(sign: ZodiacSign): ZodiacSign {
+    const index = ZODIAC_SIGNS.indexOf(sign);
+    return ZODIAC_SIGNS[(index + 1) % ZODIAC_SIGNS.length] ?? 'aries';
+}
+
+/**
+ * First day of a sign's latest season that started on or before a date,
+ * and the first day of the season that follows it
+ */
+function getSeasonBounds(
+    sign: ZodiacSign,
+    date: CalendarDate
+): { start: CalendarDate; next: CalendarDate } {
+    const start = SEASON_STARTS[sign];
+    const next = SEASON_STARTS[getNextSign(sign)];
+
+    // Capricorn season starts in December, so early January belongs to last year's season
+    const startValue = start.month * 100 + start.day;
+    const startYear = startValue > date.month * 100 + date.day ? date.year - 1 : date.year;
+    const nextYear = next.month < start.month ? startYear + 1 : startYear;
+
+    return {
+        start: { year: startYear, month: start.month, day: start.day },
+        next: { year: nextYear, month: next.month, day: next.day },
+    };
+}
+
+/**
+ * Calculate how far the zodiac season a date falls in has run
+ *
+ * @param date - Calendar date (in the target timezone)
+ * @returns Season progress data
+ */
+export function getZodiacSeason(date: CalendarDate): ZodiacSeason {
+    const sign = getZodiacSign(date);
+    const { start: startDate, next: nextStart } = getSeasonBounds(sign, date);
+
+    const endUtc = new Date(Date.UTC(nextStart.year, nextStart.month - 1, nextStart.day - 1));
+    const endDate = {
+        year: endUtc.getUTCFullYear(),
+        month: endUtc.getUTCMonth() + 1,
+        day: endUtc.getUTCDate(),
+    };
+
+    const dayOfSeason = daysBetween(startDate, date) + 1;
+    const totalDays = daysBetween(startDate, nextStart);
+
+    return {
+        sign,
+        startDate: formatDateKey(startDate),
+        endDate: formatDateKey(endDate),
+        dayOfSeason,
+        totalDays,
+        percent: calculatePercent(dayOfSeason, totalDays),
+    };
+}
+
+/**
+ * Calculate a sign's progress on a date: how far its season has run while it is running,
+ * otherwise how far the wait for its next season has run
+ *
+ * @param sign - Sign to measure
+ * @param date - Calendar date (in the target timezone)
+ * @returns Percentage (0-100)
+ */
+export function getSignProgress(sign: ZodiacSign, date: CalendarDate): number {
+    const { start, next } = getSeasonBounds(sign, date);
+    const day = daysBetween(start, date) + 1;
+    const seasonDays = daysBetween(start, next);
+
+    if (day <= seasonDays) {
+        return calculatePercent(day, seasonDays);
+    }
+
+    const nextSeason = { ...start, year: start.year + 1 };
+    const dayOfWait = daysBetween(next, date) + 1;
+    return calculatePercent(dayOfWait, daysBetween(next, nextSeason));
+}
+
+/**
+ * Format a sign for display (e.g., 'aries' -> 'Aries')
+ */
+export function formatSignName(sign: ZodiacSign): string {
+    return sign.charAt(0).toUpperCase() + sign.slice(1);
+}
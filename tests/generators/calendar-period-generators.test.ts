@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { StateData } from '../../src/types/index.js';
+
+vi.mock('../../src/utils/asset-picker.js', () => ({
+    getRandomText: vi.fn(
+        (type: string, vars: Record<string, string | number>) =>
+            `${type}: ${vars.percent}% (${vars.daysLeft} left)`
+    ),
+    getHashtags: vi.fn((type: string) => [`#${type}`]),
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warn: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../../src/render/index.js', () => ({
+    renderVideo: vi.fn(async (options: { text: string }) => ({
+        videoPath: '/path/to/video.mp4',
+        caption: options.text,
+        metadata: {
+            background: 'bg1.jpg',
+            audio: 'audio1.mp3',
+            duration: 15,
+            resolution: '1080x1920',
+        },
+    })),
+}));
+
+const DATE = new Date('2026-10-19T12:00:00Z');
+
+function stateFor(contentType: string, lastValue: string): StateData {
+    return { lastValue, lastDate: '2026-10-19T01:00:00.000Z', contentType };
+}
+
+describe('calendar period generators', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('MonthProgressGenerator', () => {
+        it('should post once per day', async () => {
+            const { MonthProgressGenerator } = await import(
+                '../../src/generators/month-progress-generator.js'
+            );
+            const generator = new MonthProgressGenerator({ date: DATE, timezone: 'UTC' });
+
+            expect(generator.contentType).toBe('month-progress');
+            expect(generator.getCurrentIdentifier()).toBe('2026-10-19');
+            expect(
+                await generator.shouldGenerate(stateFor('month-progress', '2026-10-19'))
+            ).toBe(false);
+            expect(
+                await generator.shouldGenerate(stateFor('month-progress', '2026-10-18'))
+            ).toBe(true);
+        });
+
+        it('should use the month templates and hashtags', async () => {
+            const { MonthProgressGenerator } = await import(
+                '../../src/generators/month-progress-generator.js'
+            );
+            const generator = new MonthProgressGenerator({ date: DATE, timezone: 'UTC' });
+
+            const content = await generator.generate();
+
+            expect(content.caption).toBe('monthProgress: 61% (12 left)');
+            expect(content.hashtags).toEqual(['#monthProgress']);
+            expect(content.metadata.monthName).toBe('October');
+        });
+    });
+
+    describe('QuarterProgressGenerator', () => {
+        it('should post once per integer percent of the quarter', async () => {
+            const { QuarterProgressGenerator } = await import(
+                '../../src/generators/quarter-progress-generator.js'
+            );
+            const generator = new QuarterProgressGenerator({ date: DATE, timezone: 'UTC' });
+
+            expect(generator.contentType).toBe('quarter-progress');
+            expect(generator.getCurrentIdentifier()).toBe('2026-Q4_20');
+            expect(
+                await generator.shouldGenerate(stateFor('quarter-progress', '2026-Q4_20'))
+            ).toBe(false);
+            expect(
+                await generator.shouldGenerate(stateFor('quarter-progress', '2026-Q4_19'))
+            ).toBe(true);
+        });
+    });
+
+    describe('WeekProgressGenerator', () => {
+        it('should post once per day of the ISO week', async () => {
+            const { WeekProgressGenerator } = await import(
+                '../../src/generators/week-progress-generator.js'
+            );
+            const generator = new WeekProgressGenerator({ date: DATE, timezone: 'UTC' });
+
+            expect(generator.contentType).toBe('week-progress');
+            expect(generator.getCurrentIdentifier()).toBe('2026-W43-1');
+            expect(await generator.shouldGenerate(stateFor('week-progress', '2026-W43-1'))).toBe(
+                false
+            );
+            expect(await generator.shouldGenerate(stateFor('year-progress', '2026-W43-1'))).toBe(
+                true
+            );
+        });
+    });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { CountdownDefinition, StateData } from '../../src/types/index.js';
+
+vi.mock('../../src/utils/asset-picker.js', () => ({
+    getRandomText: vi.fn(
+        (type: string, vars: Record<string, string | number>) =>
+            `${type}: ${vars.daysRemaining} days until ${vars.label}`
+    ),
+    getHashtags: vi.fn().mockReturnValue(['#countdown']),
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warn: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../../src/render/index.js', () => ({
+    renderVideo: vi.fn(async (options: { text: string }) => ({
+        videoPath: '/path/to/video.mp4',
+        caption: options.text,
+        metadata: {
+            background: 'bg1.jpg',
+            audio: 'audio1.mp3',
+            duration: 15,
+            resolution: '1080x1920',
+        },
+    })),
+}));
+
+const LAUNCH: CountdownDefinition = {
+    name: 'launch',
+    label: 'Launch Day',
+    start: '2026-09-01',
+    target: '2026-12-01',
+};
+
+describe('CountdownGenerator', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should identify posts by countdown name and date', async () => {
+        const { CountdownGenerator } = await import('../../src/generators/countdown-generator.js');
+        const generator = new CountdownGenerator({
+            countdown: LAUNCH,
+            date: new Date('2026-10-19T12:00:00Z'),
+            timezone: 'UTC',
+        });
+
+        expect(generator.contentType).toBe('countdown');
+        expect(generator.getCurrentIdentifier()).toBe('launch_2026-10-19');
+        expect(generator.getCountdownProgress().daysRemaining).toBe(43);
+    });
+
+    it('should use the regular templates before the target day', async () => {
+        const { CountdownGenerator } = await import('../../src/generators/countdown-generator.js');
+        const generator = new CountdownGenerator({
+            countdown: LAUNCH,
+            date: new Date('2026-10-19T12:00:00Z'),
+            timezone: 'UTC',
+        });
+
+        const content = await generator.generate();
+
+        expect(content.caption).toBe('countdown: 43 days until Launch Day');
+    });
+
+    it("should switch to the today's-the-day templates on the target date", async () => {
+        const { CountdownGenerator } = await import('../../src/generators/countdown-generator.js');
+        const generator = new CountdownGenerator({
+            countdown: LAUNCH,
+            date: new Date('2026-12-01T12:00:00Z'),
+            timezone: 'UTC',
+        });
+
+        const content = await generator.generate();
+
+        expect(content.caption).toBe('countdownToday: 0 days until Launch Day');
+        expect(content.metadata.isTargetDay).toBe(true);
+    });
+
+    describe('shouldGenerate', () => {
+        it('should generate once per day', async () => {
+            const { CountdownGenerator } = await import(
+                '../../src/generators/countdown-generator.js'
+            );
+            const generator = new CountdownGenerator({
+                countdown: LAUNCH,
+                date: new Date('2026-10-19T12:00:00Z'),
+                timezone: 'UTC',
+            });
+
+            const postedToday: StateData = {
+                lastValue: 'launch_2026-10-19',
+                lastDate: '2026-10-19T01:00:00.000Z',
+                contentType: 'countdown',
+            };
+            const postedYesterday: StateData = {
+                ...postedToday,
+                lastValue: 'launch_2026-10-18',
+            };
+
+            expect(await generator.shouldGenerate(postedToday)).toBe(false);
+            expect(await generator.shouldGenerate(postedYesterday)).toBe(true);
+            expect(await generator.shouldGenerate(null)).toBe(true);
+        });
+
+        it('should stop once the target has passed', async () => {
+            const { CountdownGenerator } = await import(
+                '../../src/generators/countdown-generator.js'
+            );
+            const generator = new CountdownGenerator({
+                countdown: LAUNCH,
+                date: new Date('2026-12-02T12:00:00Z'),
+                timezone: 'UTC',
+            });
+
+            expect(await generator.shouldGenerate(null)).toBe(false);
+        });
+    });
+
+    describe('findCountdown', () => {
+        it('should select countdowns by name', async () => {
+            const { findCountdown } = await import('../../src/utils/countdowns.js');
+            const other = { ...LAUNCH, name: 'holiday', label: 'Holiday' };
+
+            expect(findCountdown([LAUNCH, other], 'holiday')).toBe(other);
+            expect(findCountdown([LAUNCH, other])).toBe(LAUNCH);
+            expect(() => findCountdown([LAUNCH], 'missing')).toThrow('Unknown countdown');
+        });
+    });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { StateData } from '../../src/types/index.js';
+
+vi.mock('../../src/utils/horoscope-data.js', () => ({
+    loadHoroscopeDataset: vi.fn().mockReturnValue({
+        libra: { daily: { '2026-10-19': 'Balance ambition with rest.' }, general: [] },
+        leo: { daily: { '2026-10-19': 'Let generosity be your headline.' }, general: [] },
+    }),
+    getHoroscopeReading: vi.fn(
+        (dataset: Record<string, { daily: Record<string, string> }>, sign: string, date: string) =>
+            dataset[sign]?.daily[date] ?? ''
+    ),
+}));
+
+vi.mock('../../src/utils/asset-picker.js', () => ({
+    getRandomText: vi.fn(
+        (_type: string, vars: Record<string, string>) =>
+            `${vars.sign} - ${vars.date}\n${vars.content}`
+    ),
+    getHashtags: vi.fn().mockReturnValue(['#horoscope']),
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warn: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../../src/render/index.js', () => ({
+    renderVideo: vi.fn(async (options: { text: string }) => ({
+        videoPath: '/path/to/video.mp4',
+        caption: options.text,
+        metadata: {
+            background: 'bg1.jpg',
+            audio: 'audio1.mp3',
+            duration: 15,
+            resolution: '1080x1920',
+        },
+    })),
+}));
+
+const DATE = new Date('2026-10-19T12:00:00Z');
+
+describe('HoroscopeGenerator', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should default to the sign whose season is running', async () => {
+        const { HoroscopeGenerator } = await import('../../src/generators/horoscope-generator.js');
+        const generator = new HoroscopeGenerator({ date: DATE, timezone: 'UTC' });
+
+        expect(generator.contentType).toBe('horoscope');
+        expect(generator.getSign()).toBe('libra');
+        expect(generator.getCurrentIdentifier()).toBe('libra_2026-10-19');
+    });
+
+    it('should use the configured sign', async () => {
+        const { HoroscopeGenerator } = await import('../../src/generators/horoscope-generator.js');
+        const generator = new HoroscopeGenerator({ sign: 'leo', date: DATE, timezone: 'UTC' });
+
+        expect(generator.getCurrentIdentifier()).toBe('leo_2026-10-19');
+    });
+
+    it('should use the date in the configured timezone', async () => {
+        const { HoroscopeGenerator } = await import('../../src/generators/horoscope-generator.js');
+        const generator = new HoroscopeGenerator({
+            date: new Date('2026-10-19T02:00:00Z'),
+            timezone: 'America/Los_Angeles',
+        });
+
+        expect(generator.getDateKey()).toBe('2026-10-18');
+    });
+
+    it('should fill the templates with the reading', async () => {
+        const { HoroscopeGenerator } = await import('../../src/generators/horoscope-generator.js');
+        const generator = new HoroscopeGenerator({ date: DATE, timezone: 'UTC' });
+
+        const content = await generator.generate();
+
+        expect(content.caption).toBe('Libra - October 19\nBalance ambition with rest.');
+        expect(content.hashtags).toEqual(['#horoscope']);
+        expect(content.metadata.identifier).toBe('libra_2026-10-19');
+        expect(content.metadata.sign).toBe('libra');
+    });
+
+    it('should use zodiac season progress for the bar', async () => {
+        const { renderVideo } = await import('../../src/render/index.js');
+        const { HoroscopeGenerator } = await import('../../src/generators/horoscope-generator.js');
+        const generator = new HoroscopeGenerator({ date: DATE, timezone: 'UTC' });
+
+        await generator.generate();
+
+        expect(renderVideo).toHaveBeenCalledWith(expect.objectContaining({ percent: 90 }));
+    });
+
+    it('should use the progress of the configured sign for the bar', async () => {
+        const { renderVideo } = await import('../../src/render/index.js');
+        const { HoroscopeGenerator } = await import('../../src/generators/horoscope-generator.js');
+        const generator = new HoroscopeGenerator({ sign: 'leo', date: DATE, timezone: 'UTC' });
+
+        await generator.generate();
+
+        expect(renderVideo).toHaveBeenCalledWith(expect.objectContaining({ percent: 17 }));
+    });
+
+    it('should pass the sign, date and reading to the scene text', async () => {
+        const { renderVideo } = await import('../../src/render/index.js');
+        const { HoroscopeGenerator } = await import('../../src/generators/horoscope-generator.js');
+        const generator = new HoroscopeGenerator({ date: DATE, timezone: 'UTC' });
+
+        await generator.generate();
+
+        expect(renderVideo).toHaveBeenCalledWith(
+            expect.objectContaining({
+                variables: expect.objectContaining({
+                    sign: 'Libra',
+                    content: 'Balance ambition with rest.',
+                }),
+            })
+        );
+    });
+
+    it('should keep the injected date on refresh', async () => {
+        const { HoroscopeGenerator } = await import('../../src/generators/horoscope-generator.js');
+        const generator = new HoroscopeGenerator({ date: DATE, timezone: 'UTC' });
+
+        generator.refresh();
+
+        expect(generator.getDateKey()).toBe('2026-10-19');
+    });
+
+    describe('shouldGenerate', () => {
+        it('should return true when no previous state', async () => {
+            const { HoroscopeGenerator } =
+                await import('../../src/generators/horoscope-generator.js');
+            const generator = new HoroscopeGenerator({ date: DATE, timezone: 'UTC' });
+
+            expect(await generator.shouldGenerate(null)).toBe(true);
+        });
+
+        it('should return false when sign and date already posted', async () => {
+            const { HoroscopeGenerator } =
+                await import('../../src/generators/horoscope-generator.js');
+            const generator = new HoroscopeGenerator({ date: DATE, timezone: 'UTC' });
+
+            const lastState: StateData = {
+                lastValue: 'libra_2026-10-19',
+                lastDate: '2026-10-19T01:00:00.000Z',
+                contentType: 'horoscope',
+            };
+
+            expect(await generator.shouldGenerate(lastState)).toBe(false);
+        });
+
+        it('should return true on a new date', async () => {
+            const { HoroscopeGenerator } =
+                await import('../../src/generators/horoscope-generator.js');
+            const generator = new HoroscopeGenerator({ date: DATE, timezone: 'UTC' });
+
+            const lastState: StateData = {
+                lastValue: 'libra_2026-10-18',
+                lastDate: '2026-10-18T01:00:00.000Z',
+                contentType: 'horoscope',
+            };
+
+            expect(await generator.shouldGenerate(lastState)).toBe(true);
+        });
+
+        it('should return true when the sign changed', async () => {
+            const { HoroscopeGenerator } =
+                await import('../../src/generators/horoscope-generator.js');
+            const generator = new HoroscopeGenerator({ sign: 'leo', date: DATE, timezone: 'UTC' });
+
+            const lastState: StateData = {
+                lastValue: 'libra_2026-10-19',
+                lastDate: '2026-10-19T01:00:00.000Z',
+                contentType: 'horoscope',
+            };
+
+            expect(await generator.shouldGenerate(lastState)).toBe(true);
+        });
+    });
+
+    it('should store sign and date in state', async () => {
+        const { HoroscopeGenerator } = await import('../../src/generators/horoscope-generator.js');
+        const generator = new HoroscopeGenerator({ date: DATE, timezone: 'UTC' });
+
+        const state = generator.createState();
+
+        expect(state.lastValue).toBe('libra_2026-10-19');
+        expect(state.sign).toBe('libra');
+        expect(state.date).toBe('2026-10-19');
+    });
+});
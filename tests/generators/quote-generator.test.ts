@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { StateData } from '../../src/types/index.js';
+
+vi.mock('../../src/utils/quotes.js', async () => {
+    const actual = await vi.importActual<typeof import('../../src/utils/quotes.js')>(
+        '../../src/utils/quotes.js'
+    );
+    return {
+        ...actual,
+        loadQuotes: vi.fn().mockReturnValue([
+            { text: 'First quote', author: 'Ada' },
+            { text: 'Second quote', author: 'Grace' },
+            { text: 'Third quote', author: 'Linus' },
+        ]),
+    };
+});
+
+vi.mock('../../src/utils/asset-picker.js', () => ({
+    getRandomText: vi.fn(
+        (_type: string, vars: Record<string, string>) => `“${vars.quote}”\n— ${vars.author}`
+    ),
+    getHashtags: vi.fn().mockReturnValue(['#quoteoftheday']),
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warn: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+vi.mock('../../src/render/index.js', () => ({
+    renderVideo: vi.fn(async (options: { text: string }) => ({
+        videoPath: '/path/to/video.mp4',
+        caption: options.text,
+        metadata: {
+            background: 'bg1.jpg',
+            audio: 'audio1.mp3',
+            duration: 15,
+            resolution: '1080x1920',
+        },
+    })),
+}));
+
+const DATE = new Date('2026-10-19T12:00:00Z');
+
+describe('QuoteGenerator', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should use the date as identifier', async () => {
+        const { QuoteGenerator } = await import('../../src/generators/quote-generator.js');
+        const generator = new QuoteGenerator({ date: DATE, timezone: 'UTC' });
+
+        expect(generator.contentType).toBe('quote');
+        expect(generator.getCurrentIdentifier()).toBe('2026-10-19');
+    });
+
+    it('should render the quote with the author on a second line', async () => {
+        const { QuoteGenerator } = await import('../../src/generators/quote-generator.js');
+        const generator = new QuoteGenerator({ date: DATE, timezone: 'UTC' });
+
+        const content = await generator.generate();
+        const quote = generator.getQuote();
+
+        expect(content.caption).toBe(`“${quote.text}”\n— ${quote.author}`);
+        expect(content.metadata.author).toBe(quote.author);
+    });
+
+    it('should pass the quote and author to the scene text', async () => {
+        const { renderVideo } = await import('../../src/render/index.js');
+        const { QuoteGenerator } = await import('../../src/generators/quote-generator.js');
+        const generator = new QuoteGenerator({ date: DATE, timezone: 'UTC' });
+
+        await generator.generate();
+        const quote = generator.getQuote();
+
+        expect(renderVideo).toHaveBeenCalledWith(
+            expect.objectContaining({ variables: { quote: quote.text, author: quote.author } })
+        );
+    });
+
+    it('should continue the rotation from the last state', async () => {
+        const { QuoteGenerator } = await import('../../src/generators/quote-generator.js');
+        const generator = new QuoteGenerator({ date: DATE, timezone: 'UTC' });
+
+        const lastState: StateData = {
+            lastValue: '2026-10-18',
+            lastDate: '2026-10-18T12:00:00.000Z',
+            contentType: 'quote',
+            quotePosition: 1,
+            quoteCycle: 4,
+        };
+
+        expect(await generator.shouldGenerate(lastState)).toBe(true);
+        expect(generator.getRotation(lastState)).toEqual({ position: 2, cycle: 4 });
+
+        const state = generator.createState(lastState);
+        expect(state.quotePosition).toBe(2);
+        expect(state.quoteCycle).toBe(4);
+    });
+
+    it('should render the next quote without checking shouldGenerate first', async () => {
+        const { QuoteGenerator } = await import('../../src/generators/quote-generator.js');
+        const generator = new QuoteGenerator({ date: DATE, timezone: 'UTC' });
+
+        const lastState: StateData = {
+            lastValue: '2026-10-19',
+            lastDate: '2026-10-19T01:00:00.000Z',
+            contentType: 'quote',
+            quotePosition: 0,
+            quoteCycle: 0,
+        };
+
+        const content = await generator.generate({ lastState });
+
+        expect(content.metadata.quotePosition).toBe(1);
+        expect(content.metadata.author).toBe(generator.getQuote(lastState).author);
+        expect(generator.getQuote(lastState)).not.toEqual(generator.getQuote());
+    });
+
+    it('should not generate twice on the same day', async () => {
+        const { QuoteGenerator } = await import('../../src/generators/quote-generator.js');
+        const generator = new QuoteGenerator({ date: DATE, timezone: 'UTC' });
+
+        const lastState: StateData = {
+            lastValue: '2026-10-19',
+            lastDate: '2026-10-19T01:00:00.000Z',
+            contentType: 'quote',
+            quotePosition: 0,
+            quoteCycle: 0,
+        };
+
+        expect(await generator.shouldGenerate(lastState)).toBe(false);
+    });
+
+    it('should turn off the progress bar when configured', async () => {
+        const { renderVideo } = await import('../../src/render/index.js');
+        const { QuoteGenerator } = await import('../../src/generators/quote-generator.js');
+        const generator = new QuoteGenerator({ date: DATE, timezone: 'UTC', showProgress: false });
+
+        await generator.generate();
+
+        expect(renderVideo).toHaveBeenCalledWith(
+            expect.objectContaining({ showProgressBar: false })
+        );
+    });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { AppConfig, ContentGenerator } from '../../src/types/index.js';
+import {
+    registerGenerator,
+    unregisterGenerator,
+    hasGenerator,
+    getRegisteredContentTypes,
+    createGenerator,
+} from '../../src/generators/registry.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warn: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+function createConfig(contentType: string): AppConfig {
+    return {
+        gist: { id: 'test-gist', token: 'test-token' },
+        meta: { pageAccessToken: 'token', instagramId: 'ig', pageId: 'page' },
+        youtube: { clientId: 'id', clientSecret: 'secret', refreshToken: 'refresh' },
+        app: {
+            dryRun: true,
+            logLevel: 'info',
+            timezone: 'UTC',
+            contentType,
+            generatorModules: [],
+        },
+        yearProgress: {
+            periodsFile: 'config/periods.json',
+            calendar: 'gregory',
+            milestones: true,
+            precision: 0,
+            granularity: 'percent',
+            holidaysFile: 'config/holidays.json',
+        },
+        horoscope: { dataset: 'config/horoscopes.json' },
+        countdown: { file: 'config/countdowns.json' },
+        quote: { dataset: 'config/quotes.json', showProgress: true },
+    };
+}
+
+function createStubGenerator(contentType: string): ContentGenerator {
+    return {
+        contentType,
+        generate: vi.fn(),
+        shouldGenerate: vi.fn().mockResolvedValue(true),
+        getCurrentIdentifier: () => 'stub',
+        createState: () => ({ lastValue: 'stub', lastDate: '', contentType }),
+    };
+}
+
+describe('generator registry', () => {
+    afterEach(() => {
+        unregisterGenerator('stub');
+        unregisterGenerator('other');
+    });
+
+    it('should create the generator registered for the configured content type', () => {
+        registerGenerator('stub', () => createStubGenerator('stub'));
+
+        const generator = createGenerator(createConfig('stub'));
+
+        expect(generator.contentType).toBe('stub');
+        expect(hasGenerator('stub')).toBe(true);
+    });
+
+    it('should pass the config to the factory', () => {
+        const factory = vi.fn(() => createStubGenerator('stub'));
+        registerGenerator('stub', factory);
+
+        const config = createConfig('stub');
+        createGenerator(config);
+
+        expect(factory).toHaveBeenCalledWith(config);
+    });
+
+    it('should throw for unknown content types and list registered ones', () => {
+        registerGenerator('stub', () => createStubGenerator('stub'));
+
+        expect(() => createGenerator(createConfig('missing'))).toThrow(
+            'Unknown content type: "missing". Registered content types: stub'
+        );
+    });
+
+    it('should reject duplicate registrations', () => {
+        registerGenerator('stub', () => createStubGenerator('stub'));
+
+        expect(() => registerGenerator('stub', () => createStubGenerator('stub'))).toThrow(
+            'already registered'
+        );
+    });
+
+    it('should reject generators reporting a different content type', () => {
+        registerGenerator('stub', () => createStubGenerator('other'));
+
+        expect(() => createGenerator(createConfig('stub'))).toThrow('reports content type');
+    });
+
+    it('should list registered content types in order', () => {
+        registerGenerator('stub', () => createStubGenerator('stub'));
+        registerGenerator('other', () => createStubGenerator('other'));
+
+        expect(getRegisteredContentTypes()).toEqual(['other', 'stub']);
+    });
+});
@@ -1,8 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import type { StateData } from '../../src/types/index.js';
+import type { AppConfig, StateData } from '../../src/types/index.js';
 
 // Mock dependencies
-vi.mock('../../src/utils/progress-calculator.js', () => ({
+vi.mock('../../src/utils/progress-calculator.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../src/utils/progress-calculator.js')>()),
     calculateYearProgress: vi.fn().mockReturnValue({
         year: 2025,
         percent: 50,
@@ -11,6 +12,36 @@ vi.mock('../../src/utils/progress-calculator.js', () => ({
         isLeapYear: false,
         date: '2025-07-01T00:00:00.000Z',
     }),
+    calculatePeriodProgress: vi.fn().mockReturnValue({
+        year: 2025,
+        percent: 30,
+        dayOfYear: 110,
+        totalDays: 365,
+        isLeapYear: false,
+        date: '2025-07-19T00:00:00.000Z',
+        period: 'fiscal-year-april',
+        label: 'Fiscal Year',
+        startDate: '2025-04-01',
+        endDate: '2026-03-31',
+        isActive: true,
+    }),
+}));
+
+vi.mock('../../src/utils/calendar-progress.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../src/utils/calendar-progress.js')>()),
+    calculateCalendarYearProgress: vi.fn().mockReturnValue({
+        year: 5786,
+        percent: 80,
+        dayOfYear: 283,
+        totalDays: 354,
+        isLeapYear: false,
+        date: '2026-08-27T00:00:00.000Z',
+        calendar: 'hebrew',
+        calendarName: 'Hebrew',
+        monthName: 'Elul',
+        startDate: '2025-09-23',
+        endDate: '2026-09-11',
+    }),
 }));
 
 vi.mock('../../src/utils/asset-picker.js', () => ({
@@ -176,4 +207,439 @@ describe('YearProgressGenerator', () => {
             expect(content.metadata.identifier).toBe(50);
         });
     });
+
+    describe('named periods', () => {
+        const period = {
+            name: 'fiscal-year-april',
+            label: 'Fiscal Year',
+            type: 'recurring' as const,
+            start: '04-01',
+            end: '03-31',
+        };
+
+        it('should measure progress through the configured period', async () => {
+            const { getRandomText } = await import('../../src/utils/asset-picker.js');
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const generator = new YearProgressGenerator({ period });
+
+            await generator.generate();
+
+            expect(generator.getCurrentIdentifier()).toBe(30);
+            expect(getRandomText).toHaveBeenCalledWith(
+                'periodProgress',
+                expect.objectContaining({ label: 'Fiscal Year', percent: 30 }),
+                'en'
+            );
+        });
+
+        it('should generate when the configured period changed', async () => {
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const generator = new YearProgressGenerator({ period });
+
+            const lastState: StateData = {
+                lastValue: 30,
+                lastDate: '2025-07-18T00:00:00.000Z',
+                contentType: 'year-progress',
+                year: 2025,
+            };
+
+            expect(await generator.shouldGenerate(lastState)).toBe(true);
+            expect(
+                await generator.shouldGenerate({ ...lastState, period: 'fiscal-year-april' })
+            ).toBe(false);
+        });
+
+        it('should not generate outside the period', async () => {
+            const { calculatePeriodProgress } = await import(
+                '../../src/utils/progress-calculator.js'
+            );
+            vi.mocked(calculatePeriodProgress).mockReturnValueOnce({
+                ...vi.mocked(calculatePeriodProgress)(period),
+                isActive: false,
+            });
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const generator = new YearProgressGenerator({ period });
+
+            expect(await generator.shouldGenerate(null)).toBe(false);
+        });
+    });
+
+    describe('non-Gregorian calendars', () => {
+        it('should use the calendar templates with calendar variables', async () => {
+            const { getRandomText } = await import('../../src/utils/asset-picker.js');
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const generator = new YearProgressGenerator({ calendar: 'hebrew' });
+
+            await generator.generate();
+
+            expect(getRandomText).toHaveBeenCalledWith(
+                'calendarProgress',
+                expect.objectContaining({
+                    calendarName: 'Hebrew',
+                    monthName: 'Elul',
+                }),
+                'en'
+            );
+            expect(generator.createState().calendar).toBe('hebrew');
+        });
+
+        it('should name the calendar month in the post locale', async () => {
+            const { getRandomText } = await import('../../src/utils/asset-picker.js');
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const generator = new YearProgressGenerator({ calendar: 'hebrew' });
+
+            await generator.generate({ locale: 'ar' });
+
+            expect(getRandomText).toHaveBeenCalledWith(
+                'calendarProgress',
+                expect.objectContaining({ monthName: 'أيلول' }),
+                'ar'
+            );
+        });
+
+        it('should treat gregory as the default calendar', async () => {
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const generator = new YearProgressGenerator({ calendar: 'gregory' });
+
+            expect(generator.getCurrentIdentifier()).toBe(50);
+            expect(generator.createState().calendar).toBeUndefined();
+        });
+    });
+
+    describe('timezones', () => {
+        it('should calculate progress in the configured timezone', async () => {
+            const { calculateYearProgress, calculatePeriodProgress } = await import(
+                '../../src/utils/progress-calculator.js'
+            );
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const date = new Date('2026-01-01T03:00:00Z');
+
+            new YearProgressGenerator({ timezone: 'America/New_York', date });
+            const period = {
+                name: 'fiscal-year-april',
+                label: 'Fiscal Year',
+                type: 'recurring' as const,
+                start: '04-01',
+                end: '03-31',
+            };
+            new YearProgressGenerator({ period, timezone: 'Asia/Tokyo', date });
+
+            expect(calculateYearProgress).toHaveBeenCalledWith(date, 'America/New_York', 0);
+            expect(calculatePeriodProgress).toHaveBeenCalledWith(period, date, 'Asia/Tokyo', 0);
+        });
+
+        it('should pass the timezone from config through the registry', async () => {
+            const { calculateYearProgress } = await import(
+                '../../src/utils/progress-calculator.js'
+            );
+            const { createGenerator } = await import('../../src/generators/registry.js');
+            await import('../../src/generators/year-progress-generator.js');
+
+            createGenerator({
+                app: { contentType: 'year-progress', timezone: 'Europe/Berlin' },
+                yearProgress: {
+                    periodsFile: 'config/periods.json',
+                    calendar: 'gregory',
+                    milestones: true,
+                    precision: 1,
+                    granularity: 'percent',
+                    holidaysFile: 'config/holidays.json',
+                },
+            } as unknown as AppConfig);
+
+            expect(calculateYearProgress).toHaveBeenCalledWith(
+                expect.any(Date),
+                'Europe/Berlin',
+                1
+            );
+        });
+    });
+
+    describe('milestones', () => {
+        it('should use the milestone templates and celebration theme', async () => {
+            const { getRandomText, getHashtags } = await import('../../src/utils/asset-picker.js');
+            const { renderVideo } = await import('../../src/render/index.js');
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const generator = new YearProgressGenerator();
+
+            const content = await generator.generate();
+
+            expect(generator.getMilestone()).toBe('half');
+            expect(getRandomText).toHaveBeenCalledWith('halfMilestone', expect.anything(), 'en');
+            expect(getHashtags).toHaveBeenCalledWith('halfMilestone', 'en');
+            expect(renderVideo).toHaveBeenCalledWith(
+                expect.objectContaining({ celebration: true })
+            );
+            expect(content.metadata.milestone).toBe('half');
+        });
+
+        it('should render ordinary days without milestones', async () => {
+            const { calculateYearProgress } = await import(
+                '../../src/utils/progress-calculator.js'
+            );
+            vi.mocked(calculateYearProgress).mockReturnValueOnce({
+                ...vi.mocked(calculateYearProgress)(),
+                percent: 51,
+                dayOfYear: 187,
+            });
+            const { getRandomText } = await import('../../src/utils/asset-picker.js');
+            const { renderVideo } = await import('../../src/render/index.js');
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const generator = new YearProgressGenerator();
+
+            await generator.generate();
+
+            expect(generator.getMilestone()).toBeNull();
+            expect(getRandomText).toHaveBeenCalledWith('yearProgress', expect.anything(), 'en');
+            expect(renderVideo).toHaveBeenCalledWith(
+                expect.objectContaining({ celebration: false })
+            );
+        });
+
+        it('should skip milestones when disabled', async () => {
+            const { getRandomText } = await import('../../src/utils/asset-picker.js');
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const generator = new YearProgressGenerator({ milestones: false });
+
+            await generator.generate();
+
+            expect(generator.getMilestone()).toBeNull();
+            expect(getRandomText).toHaveBeenCalledWith('yearProgress', expect.anything(), 'en');
+        });
+
+        it('should force a post on the last day unless already posted that day', async () => {
+            const { calculateYearProgress } = await import(
+                '../../src/utils/progress-calculator.js'
+            );
+            vi.mocked(calculateYearProgress).mockReturnValueOnce({
+                ...vi.mocked(calculateYearProgress)(),
+                percent: 99,
+                dayOfYear: 365,
+            });
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const generator = new YearProgressGenerator();
+
+            const lastState: StateData = {
+                lastValue: 99,
+                lastDate: '2025-12-30T00:00:00.000Z',
+                contentType: 'year-progress',
+                year: 2025,
+                dayOfYear: 364,
+            };
+
+            expect(generator.getMilestone()).toBe('lastDay');
+            expect(await generator.shouldGenerate(lastState)).toBe(true);
+            expect(await generator.shouldGenerate({ ...lastState, dayOfYear: 365 })).toBe(false);
+            expect(generator.createState().dayOfYear).toBe(365);
+        });
+
+        it('should not force posts on other milestones', async () => {
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const generator = new YearProgressGenerator();
+
+            const lastState: StateData = {
+                lastValue: 50,
+                lastDate: '2025-06-30T00:00:00.000Z',
+                contentType: 'year-progress',
+                year: 2025,
+                dayOfYear: 181,
+            };
+
+            expect(await generator.shouldGenerate(lastState)).toBe(false);
+        });
+    });
+
+    describe('precision and granularity', () => {
+        const precise = {
+            year: 2025,
+            percent: 37.2,
+            dayOfYear: 136,
+            totalDays: 365,
+            isLeapYear: false,
+            date: '2025-05-16T00:00:00.000Z',
+        };
+
+        it('should show decimals in captions and render the exact percent', async () => {
+            const { calculateYearProgress } = await import(
+                '../../src/utils/progress-calculator.js'
+            );
+            vi.mocked(calculateYearProgress).mockReturnValueOnce({ ...precise, percent: 37 });
+            const { getRandomText } = await import('../../src/utils/asset-picker.js');
+            const { renderVideo } = await import('../../src/render/index.js');
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const generator = new YearProgressGenerator({ precision: 2 });
+
+            vi.mocked(calculateYearProgress).mockReturnValueOnce(precise);
+            generator.refresh();
+            await generator.generate();
+
+            expect(getRandomText).toHaveBeenCalledWith(
+                'yearProgress',
+                expect.objectContaining({ percent: 37.2, percentLabel: '37.20%' }),
+                'en'
+            );
+            expect(renderVideo).toHaveBeenCalledWith(
+                expect.objectContaining({ percent: 37.2, precision: 2 })
+            );
+            expect(calculateYearProgress).toHaveBeenLastCalledWith(expect.any(Date), undefined, 2);
+        });
+
+        it('should format captions and hashtags for the requested locale', async () => {
+            const { calculateYearProgress } = await import(
+                '../../src/utils/progress-calculator.js'
+            );
+            vi.mocked(calculateYearProgress).mockReturnValueOnce(precise);
+            const { getRandomText, getHashtags } = await import(
+                '../../src/utils/asset-picker.js'
+            );
+            const { renderVideo } = await import('../../src/render/index.js');
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const generator = new YearProgressGenerator({ precision: 1 });
+
+            const content = await generator.generate({ locale: 'es' });
+
+            expect(getRandomText).toHaveBeenCalledWith(
+                'yearProgress',
+                expect.objectContaining({ percent: 37.2, percentLabel: '37,2\u00a0%' }),
+                'es'
+            );
+            expect(getHashtags).toHaveBeenCalledWith('yearProgress', 'es');
+            expect(renderVideo).toHaveBeenCalledWith(expect.objectContaining({ locale: 'es' }));
+            expect(content.metadata.locale).toBe('es');
+        });
+
+        it('should post once per day with the day granularity', async () => {
+            const { calculateYearProgress } = await import(
+                '../../src/utils/progress-calculator.js'
+            );
+            vi.mocked(calculateYearProgress).mockReturnValueOnce(precise);
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const generator = new YearProgressGenerator({ precision: 1, granularity: 'day' });
+
+            const lastState: StateData = {
+                lastValue: 135,
+                lastDate: '2025-05-15T00:00:00.000Z',
+                contentType: 'year-progress',
+                year: 2025,
+                granularity: 'day',
+            };
+
+            expect(generator.getCurrentIdentifier()).toBe(136);
+            expect(await generator.shouldGenerate(lastState)).toBe(true);
+            expect(await generator.shouldGenerate({ ...lastState, lastValue: 136 })).toBe(false);
+            expect(generator.createState()).toMatchObject({ lastValue: 136, granularity: 'day' });
+        });
+
+        it('should post once per step with the tenths granularity', async () => {
+            const { calculateYearProgress } = await import(
+                '../../src/utils/progress-calculator.js'
+            );
+            vi.mocked(calculateYearProgress).mockReturnValueOnce(precise);
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const generator = new YearProgressGenerator({ granularity: 'tenths:5' });
+
+            expect(generator.getCurrentIdentifier()).toBe(37);
+        });
+
+        it('should generate when the granularity changed', async () => {
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const generator = new YearProgressGenerator({ granularity: 'day' });
+
+            const lastState: StateData = {
+                lastValue: 182,
+                lastDate: '2025-06-30T00:00:00.000Z',
+                contentType: 'year-progress',
+                year: 2025,
+            };
+
+            expect(await generator.shouldGenerate(lastState)).toBe(true);
+        });
+    });
+
+    describe('statistics', () => {
+        it('should expose time-left statistics to the templates', async () => {
+            const { getRandomText } = await import('../../src/utils/asset-picker.js');
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            // Mocked progress is for 2025; statistics run to the end of that year
+            const generator = new YearProgressGenerator({
+                date: new Date('2025-07-01T12:00:00Z'),
+                timezone: 'UTC',
+                holidays: [{ name: 'Christmas Day', date: '12-25' }],
+            });
+
+            await generator.generate();
+
+            const expected = {
+                daysLeft: 183,
+                weeksLeft: 26,
+                weekendsLeft: 26,
+                workdaysLeft: 130,
+                hoursLeft: 4404,
+                quarter: 3,
+                month: 7,
+                monthName: 'July',
+            };
+            expect(generator.getStatistics()).toEqual(expected);
+            expect(getRandomText).toHaveBeenCalledWith(
+                'yearSubtitle',
+                expect.objectContaining(expected),
+                'en'
+            );
+        });
+
+        it('should count statistics to the end of a named period', async () => {
+            const { YearProgressGenerator } = await import(
+                '../../src/generators/year-progress-generator.js'
+            );
+            const generator = new YearProgressGenerator({
+                period: {
+                    name: 'fiscal-year-april',
+                    label: 'Fiscal Year',
+                    type: 'recurring',
+                    start: '04-01',
+                    end: '03-31',
+                },
+                date: new Date('2026-03-30T12:00:00Z'),
+                timezone: 'UTC',
+            });
+
+            expect(generator.getStatistics().daysLeft).toBe(1);
+        });
+    });
 });
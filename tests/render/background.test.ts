@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { getKenBurnsRect, getVisibleSlides, mergeBackground } from '../../src/render/background.js';
+import type { BackgroundSettings } from '../../src/types/index.js';
+
+const CANVAS = { width: 1080, height: 1920 };
+
+/**
+ * Check whether a rectangle covers the whole canvas
+ */
+function coversCanvas(rect: { x: number; y: number; width: number; height: number }): boolean {
+    return (
+        rect.x <= 1e-9 &&
+        rect.y <= 1e-9 &&
+        rect.x + rect.width >= CANVAS.width - 1e-9 &&
+        rect.y + rect.height >= CANVAS.height - 1e-9
+    );
+}
+
+describe('background', () => {
+    describe('mergeBackground', () => {
+        const base: BackgroundSettings = {
+            filters: [],
+            motion: 'none',
+            zoom: 1.15,
+            slides: 1,
+            crossfade: 1,
+        };
+
+        it('should override only the values that are set', () => {
+            expect(mergeBackground(base, { motion: 'ken-burns', slides: undefined })).toEqual({
+                ...base,
+                motion: 'ken-burns',
+            });
+            expect(mergeBackground(base)).toEqual(base);
+        });
+    });
+
+    describe('getVisibleSlides', () => {
+        it('should show a single image for the whole video', () => {
+            expect(getVisibleSlides(0, 6, 1, 1)).toEqual([{ index: 0, opacity: 1, motion: 1 / 7 }]);
+            expect(getVisibleSlides(5.9, 6, 1, 1)).toHaveLength(1);
+        });
+
+        it('should crossfade into the next slide at the end of each share', () => {
+            expect(getVisibleSlides(1, 6, 3, 1).map((s) => s.index)).toEqual([0]);
+            expect(getVisibleSlides(1.5, 6, 3, 1)).toEqual([
+                { index: 0, opacity: 1, motion: 2.5 / 3 },
+                { index: 1, opacity: 0.5, motion: 0.5 / 3 },
+            ]);
+            expect(getVisibleSlides(3, 6, 3, 1).map((s) => s.index)).toEqual([1]);
+            expect(getVisibleSlides(5.9, 6, 3, 1).map((s) => s.index)).toEqual([2]);
+        });
+
+        it('should cut between slides without a crossfade', () => {
+            expect(getVisibleSlides(1.99, 6, 3, 0).map((s) => s.index)).toEqual([0]);
+            expect(getVisibleSlides(2, 6, 3, 0).map((s) => s.index)).toEqual([1]);
+        });
+    });
+
+    describe('getKenBurnsRect', () => {
+        const tall = { x: 0, y: -60, width: 1080, height: 2040 };
+        const wide = { x: -420, y: 0, width: 1920, height: 1920 };
+
+        it('should zoom in over the move', () => {
+            expect(getKenBurnsRect(tall, CANVAS, 0, 1.2).width).toBe(1080);
+            expect(getKenBurnsRect(tall, CANVAS, 1, 1.2).width).toBeCloseTo(1296);
+        });
+
+        it('should pan across the spare image of a wide background', () => {
+            const start = getKenBurnsRect(wide, CANVAS, 0, 1);
+            const end = getKenBurnsRect(wide, CANVAS, 1, 1);
+
+            expect(start.x).toBe(-840);
+            expect(end.x).toBe(0);
+        });
+
+        it('should always cover the canvas', () => {
+            for (const cover of [tall, wide]) {
+                for (const slide of [0, 1, 2, 3]) {
+                    for (const motion of [0, 0.25, 0.5, 1]) {
+                        const rect = getKenBurnsRect(cover, CANVAS, motion, 1.15, slide);
+                        expect(coversCanvas(rect)).toBe(true);
+                    }
+                }
+            }
+        });
+    });
+});
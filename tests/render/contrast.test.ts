@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+    blendLuminance,
+    chooseTextStyle,
+    getContrastRatio,
+    getRelativeLuminance,
+    measureLuminance,
+} from '../../src/render/contrast.js';
+import type { Pixels } from '../../src/render/filters.js';
+
+/**
+ * Image whose left half is one gray and right half another
+ */
+function createPixels(width: number, height: number, left: number, right: number): Pixels {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+        const value = i % width < width / 2 ? left : right;
+        data.set([value, value, value, 255], i * 4);
+    }
+    return { data, width, height };
+}
+
+const LIGHT_TEXT = { text: '#FFFFFF', overlay: '#000000' };
+
+describe('adaptive contrast', () => {
+    describe('getRelativeLuminance', () => {
+        it('should follow the WCAG definition', () => {
+            expect(getRelativeLuminance(0, 0, 0)).toBe(0);
+            expect(getRelativeLuminance(255, 255, 255)).toBeCloseTo(1);
+            expect(getRelativeLuminance(128, 128, 128)).toBeCloseTo(0.2158, 3);
+        });
+    });
+
+    describe('getContrastRatio', () => {
+        it('should range from 1 to 21', () => {
+            expect(getContrastRatio(0, 1)).toBeCloseTo(21);
+            expect(getContrastRatio(0.5, 0.5)).toBe(1);
+            expect(getContrastRatio(1, 0)).toBe(getContrastRatio(0, 1));
+        });
+    });
+
+    describe('blendLuminance', () => {
+        it('should move from the background to the overlay with the opacity', () => {
+            expect(blendLuminance(0.8, 0, 0)).toBeCloseTo(0.8);
+            expect(blendLuminance(0.8, 0, 1)).toBe(0);
+            expect(blendLuminance(0.8, 0, 0.5)).toBeLessThan(0.4);
+        });
+    });
+
+    describe('measureLuminance', () => {
+        it('should pool the regions of every image', () => {
+            const image = createPixels(4, 2, 0, 255);
+
+            expect(measureLuminance([image], [{ x: 0, y: 0, width: 2, height: 2 }])).toEqual({
+                luminance: 0,
+                variation: 0,
+            });
+
+            const stats = measureLuminance([image], [{ x: 0, y: 0, width: 4, height: 2 }]);
+            expect(stats.luminance).toBeCloseTo(0.5);
+            expect(stats.variation).toBeCloseTo(0.5);
+        });
+
+        it('should clip regions to the image', () => {
+            const image = createPixels(2, 2, 255, 255);
+
+            const stats = measureLuminance([image], [{ x: -10, y: -10, width: 100, height: 100 }]);
+            expect(stats.luminance).toBeCloseTo(1);
+        });
+    });
+
+    describe('chooseTextStyle', () => {
+        it('should leave dark backgrounds without an overlay', () => {
+            const style = chooseTextStyle({ luminance: 0.01, variation: 0 }, LIGHT_TEXT, 4.5);
+
+            expect(style.overlayOpacity).toBe(0);
+            expect(style.textColor).toBe('#FFFFFF');
+            expect(style.outline).toBe(false);
+        });
+
+        it('should darken bright backgrounds just enough to reach the ratio', () => {
+            const style = chooseTextStyle({ luminance: 0.9, variation: 0 }, LIGHT_TEXT, 4.5);
+
+            expect(style.overlayOpacity).toBeGreaterThan(0.4);
+            expect(style.overlayOpacity).toBeLessThan(0.6);
+            expect(style.ratio).toBeGreaterThanOrEqual(4.5);
+            expect(
+                chooseTextStyle({ luminance: 0.9, variation: 0 }, LIGHT_TEXT, 7).overlayOpacity
+            ).toBeGreaterThan(style.overlayOpacity);
+        });
+
+        it('should switch text that cannot reach the ratio to contrast with the overlay', () => {
+            const dark = { text: '#111111', overlay: '#000000' };
+            const style = chooseTextStyle({ luminance: 0.01, variation: 0 }, dark, 4.5);
+
+            expect(style.textColor).toBe('#FFFFFF');
+            expect(style.overlayOpacity).toBe(0);
+        });
+
+        it('should outline text on busy backgrounds', () => {
+            const style = chooseTextStyle({ luminance: 0.5, variation: 0.4 }, LIGHT_TEXT, 4.5);
+
+            expect(style.outline).toBe(true);
+            expect(style.ratio).toBeGreaterThanOrEqual(4.5);
+        });
+
+        it('should use the best it can and an outline when the ratio is out of reach', () => {
+            const gray = { text: '#808080', overlay: '#808080' };
+            const style = chooseTextStyle({ luminance: 1, variation: 0 }, gray, 4.5);
+
+            // Gray text on the bare white background beats white text over the gray overlay
+            expect(style.ratio).toBeLessThan(4.5);
+            expect(style).toMatchObject({ textColor: '#808080', overlayOpacity: 0, outline: true });
+        });
+    });
+});
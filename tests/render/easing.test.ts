@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { EASINGS, ease } from '../../src/render/easing.js';
+
+describe('easing', () => {
+    it('should start at 0 and end at 1 for every curve', () => {
+        for (const easing of Object.values(EASINGS)) {
+            expect(easing(0)).toBeCloseTo(0);
+            expect(easing(1)).toBeCloseTo(1);
+        }
+    });
+
+    it('should ease out and in-out', () => {
+        expect(EASINGS['ease-out-cubic'](0.5)).toBe(0.875);
+        expect(EASINGS['ease-in-out'](0.25)).toBe(0.0625);
+        expect(EASINGS['ease-in-out'](0.5)).toBe(0.5);
+    });
+
+    it('should go past the end before settling for elastic and overshoot', () => {
+        const samples = (name: keyof typeof EASINGS): number[] =>
+            Array.from({ length: 99 }, (_, i) => EASINGS[name]((i + 1) / 100));
+
+        expect(Math.max(...samples('elastic'))).toBeGreaterThan(1);
+        expect(Math.max(...samples('overshoot'))).toBeGreaterThan(1);
+        expect(Math.max(...samples('ease-out-cubic'))).toBeLessThan(1);
+    });
+
+    it('should clamp the animation time', () => {
+        expect(ease('linear', -0.5)).toBe(0);
+        expect(ease('overshoot', 2)).toBeCloseTo(1);
+    });
+});
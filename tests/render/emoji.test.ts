@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getEmojiSpriteName,
+    hasEmoji,
+    isEmojiCluster,
+    splitEmojiRuns,
+} from '../../src/render/emoji.js';
+
+describe('emoji', () => {
+    describe('splitEmojiRuns', () => {
+        it('should split text and emoji into runs', () => {
+            expect(splitEmojiRuns('Fresh start! 🌱')).toEqual([
+                { type: 'text', value: 'Fresh start! ' },
+                { type: 'emoji', value: '🌱' },
+            ]);
+            expect(splitEmojiRuns('🎉🚀 Go')).toEqual([
+                { type: 'emoji', value: '🎉' },
+                { type: 'emoji', value: '🚀' },
+                { type: 'text', value: ' Go' },
+            ]);
+        });
+
+        it('should keep multi-codepoint emoji together', () => {
+            const technologist = '\u{1f469}‍\u{1f4bb}';
+            const flag = '\u{1f1ea}\u{1f1f8}';
+            const thumbsUp = '\u{1f44d}\u{1f3fd}';
+
+            expect(splitEmojiRuns(`a${technologist}${flag}${thumbsUp}`)).toEqual([
+                { type: 'text', value: 'a' },
+                { type: 'emoji', value: technologist },
+                { type: 'emoji', value: flag },
+                { type: 'emoji', value: thumbsUp },
+            ]);
+        });
+
+        it('should return a single text run without emoji', () => {
+            expect(splitEmojiRuns('2026 is 37% complete')).toEqual([
+                { type: 'text', value: '2026 is 37% complete' },
+            ]);
+            expect(hasEmoji('2026 is 37% complete')).toBe(false);
+            expect(hasEmoji('Keep going 💪')).toBe(true);
+        });
+    });
+
+    describe('isEmojiCluster', () => {
+        it('should detect keycaps and respect text presentation', () => {
+            expect(isEmojiCluster('1️⃣')).toBe(true);
+            expect(isEmojiCluster('❤️')).toBe(true);
+            expect(isEmojiCluster('❤︎')).toBe(false);
+            expect(isEmojiCluster('A')).toBe(false);
+        });
+    });
+
+    describe('getEmojiSpriteName', () => {
+        it('should join codepoints without the emoji variation selector', () => {
+            expect(getEmojiSpriteName('🌱')).toBe('1f331');
+            expect(getEmojiSpriteName('❤️')).toBe('2764');
+            expect(getEmojiSpriteName('\u{1f469}‍\u{1f4bb}')).toBe('1f469-200d-1f4bb');
+        });
+    });
+});
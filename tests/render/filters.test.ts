@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import {
+    applyFilters,
+    applyLut,
+    blur,
+    contrast,
+    desaturate,
+    duotone,
+    parseCubeLut,
+    parseHexColor,
+    vignette,
+    type Pixels,
+} from '../../src/render/filters.js';
+
+/**
+ * Image filled with one opaque color
+ */
+function createPixels(width: number, height: number, color: [number, number, number]): Pixels {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < data.length; i += 4) {
+        data.set([...color, 255], i);
+    }
+    return { data, width, height };
+}
+
+/**
+ * RGB of the pixel at a position
+ */
+function pixelAt(pixels: Pixels, x: number, y: number): number[] {
+    const i = (y * pixels.width + x) * 4;
+    return [...pixels.data.slice(i, i + 3)];
+}
+
+/** Identity LUT with 2 entries per axis, red fastest */
+const IDENTITY_CUBE = [
+    'TITLE "Identity"',
+    '# comment',
+    'LUT_3D_SIZE 2',
+    '0 0 0',
+    '1 0 0',
+    '0 1 0',
+    '1 1 0',
+    '0 0 1',
+    '1 0 1',
+    '0 1 1',
+    '1 1 1',
+].join('\n');
+
+describe('background filters', () => {
+    describe('parseHexColor', () => {
+        it('should parse short and long hex colors', () => {
+            expect(parseHexColor('#1E3A8A')).toEqual([30, 58, 138]);
+            expect(parseHexColor('#fff')).toEqual([255, 255, 255]);
+        });
+    });
+
+    describe('blur', () => {
+        it('should spread a bright pixel to its neighbors', () => {
+            const pixels = createPixels(9, 9, [0, 0, 0]);
+            pixels.data.set([255, 255, 255], (4 * 9 + 4) * 4);
+
+            blur(pixels, 1);
+
+            const center = pixelAt(pixels, 4, 4)[0] ?? 0;
+            const neighbor = pixelAt(pixels, 5, 4)[0] ?? 0;
+            expect(center).toBeLessThan(255);
+            expect(neighbor).toBeGreaterThan(0);
+            expect(neighbor).toBeLessThanOrEqual(center);
+        });
+
+        it('should leave a flat image as is', () => {
+            const pixels = createPixels(5, 5, [40, 80, 120]);
+
+            blur(pixels, 3);
+
+            expect(pixelAt(pixels, 0, 0)).toEqual([40, 80, 120]);
+            expect(pixelAt(pixels, 2, 2)).toEqual([40, 80, 120]);
+        });
+    });
+
+    describe('vignette', () => {
+        it('should darken the corners but not the center', () => {
+            const pixels = createPixels(21, 21, [200, 200, 200]);
+
+            vignette(pixels, 0.5);
+
+            expect(pixelAt(pixels, 10, 10)).toEqual([200, 200, 200]);
+            expect(pixelAt(pixels, 0, 0)[0]).toBeLessThan(120);
+        });
+    });
+
+    describe('color filters', () => {
+        it('should remove color with desaturate', () => {
+            const pixels = createPixels(1, 1, [255, 0, 0]);
+
+            desaturate(pixels, 1);
+
+            const [r, g, b] = pixelAt(pixels, 0, 0);
+            expect(r).toBe(g);
+            expect(g).toBe(b);
+        });
+
+        it('should map black and white onto the duotone colors', () => {
+            const dark = createPixels(1, 1, [0, 0, 0]);
+            const light = createPixels(1, 1, [255, 255, 255]);
+
+            duotone(dark, '#1E3A8A', '#FDE68A');
+            duotone(light, '#1E3A8A', '#FDE68A');
+
+            expect(pixelAt(dark, 0, 0)).toEqual([30, 58, 138]);
+            expect(pixelAt(light, 0, 0)).toEqual([253, 230, 138]);
+        });
+
+        it('should spread tones away from mid gray with contrast', () => {
+            const pixels = createPixels(1, 1, [100, 128, 160]);
+
+            contrast(pixels, 2);
+
+            expect(pixelAt(pixels, 0, 0)).toEqual([72, 128, 192]);
+        });
+
+        it('should run filters in order', () => {
+            const pixels = createPixels(1, 1, [100, 100, 100]);
+
+            applyFilters(
+                pixels,
+                [
+                    { type: 'brightness', amount: 2 },
+                    { type: 'brightness', amount: 0.5 },
+                ],
+                new Map()
+            );
+
+            expect(pixelAt(pixels, 0, 0)).toEqual([100, 100, 100]);
+        });
+
+        it('should require the LUTs of LUT filters to be loaded', () => {
+            const pixels = createPixels(1, 1, [100, 100, 100]);
+            const filters = [{ type: 'lut' as const, file: 'warm.cube', intensity: 1 }];
+
+            expect(() => applyFilters(pixels, filters, new Map())).toThrow('LUT not loaded');
+        });
+    });
+
+    describe('parseCubeLut', () => {
+        it('should read the size, domain and entries', () => {
+            const lut = parseCubeLut(IDENTITY_CUBE);
+
+            expect(lut.size).toBe(2);
+            expect(lut.domainMin).toEqual([0, 0, 0]);
+            expect(lut.domainMax).toEqual([1, 1, 1]);
+            expect(lut.table).toHaveLength(24);
+        });
+
+        it('should reject 1D LUTs and missing entries', () => {
+            expect(() => parseCubeLut('LUT_1D_SIZE 2\n0 0 0\n1 1 1')).toThrow('only 3D LUTs');
+            expect(() => parseCubeLut('LUT_3D_SIZE 2\n0 0 0')).toThrow('expected 8 RGB entries');
+        });
+
+        it('should read the domain and reject invalid domains', () => {
+            const withDomain = (lines: string): string => `${lines}\n${IDENTITY_CUBE}`;
+
+            expect(
+                parseCubeLut(withDomain('DOMAIN_MIN 0 0 0\nDOMAIN_MAX 2 2 2')).domainMax
+            ).toEqual([2, 2, 2]);
+            expect(() => parseCubeLut(withDomain('DOMAIN_MIN 0 0'))).toThrow(
+                'DOMAIN_MIN must have three numbers'
+            );
+            expect(() => parseCubeLut(withDomain('DOMAIN_MAX 1 1 1 1'))).toThrow(
+                'DOMAIN_MAX must have three numbers'
+            );
+            expect(() => parseCubeLut(withDomain('DOMAIN_MAX 1 x 1'))).toThrow(
+                'DOMAIN_MAX must have three numbers'
+            );
+            expect(() => parseCubeLut(withDomain('DOMAIN_MIN 0 1 0'))).toThrow(
+                'DOMAIN_MAX must be above DOMAIN_MIN'
+            );
+        });
+    });
+
+    describe('applyLut', () => {
+        it('should leave colors as they are with an identity LUT', () => {
+            const pixels = createPixels(1, 1, [30, 128, 220]);
+
+            applyLut(pixels, parseCubeLut(IDENTITY_CUBE), 1);
+
+            expect(pixelAt(pixels, 0, 0)).toEqual([30, 128, 220]);
+        });
+
+        it('should mix the grade in by intensity', () => {
+            const invert = parseCubeLut(
+                IDENTITY_CUBE.replace(/^([01]) ([01]) ([01])$/gm, (_, r, g, b) =>
+                    [r, g, b].map((v: string) => 1 - Number(v)).join(' ')
+                )
+            );
+            const full = createPixels(1, 1, [0, 0, 0]);
+            const half = createPixels(1, 1, [0, 0, 0]);
+
+            applyLut(full, invert, 1);
+            applyLut(half, invert, 0.5);
+
+            expect(pixelAt(full, 0, 0)).toEqual([255, 255, 255]);
+            expect(pixelAt(half, 0, 0)).toEqual([128, 128, 128]);
+        });
+    });
+});
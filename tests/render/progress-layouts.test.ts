@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+    PROGRESS_LAYOUTS,
+    getDayCountFromPercent,
+    getDotPositions,
+    getCounterPlacement,
+    getFilledDays,
+    getSandLevel,
+} from '../../src/render/progress-layouts.js';
+
+const CONFIG = { width: 1080, height: 1920 };
+const YEAR = { day: 136, total: 365 };
+
+describe('progress-layouts', () => {
+    describe('getBounds', () => {
+        it('should center every layout on the canvas inside the edges', () => {
+            for (const layout of Object.values(PROGRESS_LAYOUTS)) {
+                const bounds = layout.getBounds(CONFIG, YEAR);
+
+                expect(bounds.x + bounds.width / 2).toBeCloseTo(CONFIG.width / 2);
+                expect(bounds.y + bounds.height / 2).toBeCloseTo(CONFIG.height / 2);
+                expect(bounds.x).toBeGreaterThanOrEqual(0);
+                expect(bounds.x + bounds.width).toBeLessThanOrEqual(CONFIG.width);
+            }
+        });
+
+        it('should keep the bar where it has always been', () => {
+            expect(PROGRESS_LAYOUTS.bar.getBounds(CONFIG, YEAR)).toEqual({
+                x: 120,
+                y: 930,
+                width: 840,
+                height: 60,
+            });
+        });
+
+        it('should draw the ring as a square', () => {
+            const bounds = PROGRESS_LAYOUTS.ring.getBounds(CONFIG, YEAR);
+
+            expect(bounds.width).toBe(bounds.height);
+        });
+
+        it('should size the day grid for leap years and short periods', () => {
+            const year = PROGRESS_LAYOUTS.dots.getBounds(CONFIG, { day: 1, total: 366 });
+            const week = PROGRESS_LAYOUTS.dots.getBounds(CONFIG, { day: 1, total: 7 });
+
+            expect(year.width).toBe(840);
+            expect(year.height).toBe(720);
+            expect(week.width).toBe(560);
+            expect(week.height).toBe(80);
+        });
+    });
+
+    describe('getTip', () => {
+        const bar = { x: 120, y: 930, width: 840, height: 60 };
+
+        it('should follow the leading edge of the bar fill', () => {
+            expect(PROGRESS_LAYOUTS.bar.getTip?.(bar, 0.5, 'ltr')).toEqual({ x: 540, y: 930 });
+            expect(PROGRESS_LAYOUTS.bar.getTip?.(bar, 0.25, 'ltr')).toEqual({ x: 330, y: 930 });
+            expect(PROGRESS_LAYOUTS.bar.getTip?.(bar, 0.25, 'rtl')).toEqual({ x: 750, y: 930 });
+        });
+
+        it('should not be defined for visuals without a leading edge', () => {
+            expect(PROGRESS_LAYOUTS.ring.getTip).toBeUndefined();
+        });
+    });
+
+    describe('getCounterPlacement', () => {
+        const bar = { x: 120, y: 930, width: 840, height: 60 };
+
+        it('should center the counter inside the visual', () => {
+            expect(getCounterPlacement('inside', bar, null)).toEqual({
+                x: 540,
+                y: 960,
+                fontSize: 36,
+            });
+        });
+
+        it('should place the counter above the visual', () => {
+            expect(getCounterPlacement('above', bar, { x: 330, y: 930 })).toEqual({
+                x: 540,
+                y: 898,
+                fontSize: 40,
+            });
+        });
+
+        it('should follow the tip and fall back to above without one', () => {
+            expect(getCounterPlacement('tip', bar, { x: 330, y: 930 }).x).toBe(330);
+            expect(getCounterPlacement('tip', bar, null).x).toBe(540);
+        });
+
+        it('should cap the size inside large visuals', () => {
+            const ring = { x: 216, y: 636, width: 648, height: 648 };
+
+            expect(getCounterPlacement('inside', ring, null).fontSize).toBe(72);
+        });
+    });
+
+    describe('getDotPositions', () => {
+        const bounds = { x: 120, y: 600, width: 840, height: 720 };
+
+        it('should lay out one dot per day in rows', () => {
+            const dots = getDotPositions(bounds, 366, 'ltr');
+
+            expect(dots).toHaveLength(366);
+            expect(dots[0]).toEqual({ x: 140, y: 620, radius: 14 });
+            expect(dots[20]?.x).toBe(940);
+            expect(dots[21]).toEqual({ x: 140, y: 660, radius: 14 });
+            expect(dots[365]?.y).toBe(1300);
+        });
+
+        it('should start from the right in right-to-left locales', () => {
+            const dots = getDotPositions(bounds, 365, 'rtl');
+
+            expect(dots[0]?.x).toBe(940);
+            expect(dots[20]?.x).toBe(140);
+        });
+    });
+
+    describe('getFilledDays', () => {
+        it('should fill day by day up to today as the animation runs', () => {
+            expect(getFilledDays(0, 0.37, YEAR)).toBe(0);
+            expect(getFilledDays(0.185, 0.37, YEAR)).toBe(68);
+            expect(getFilledDays(0.37, 0.37, YEAR)).toBe(136);
+        });
+
+        it('should show today when there is nothing to animate', () => {
+            expect(getFilledDays(0, 0, { day: 1, total: 365 })).toBe(1);
+        });
+    });
+
+    describe('getDayCountFromPercent', () => {
+        it('should count days of a year for content without days', () => {
+            expect(getDayCountFromPercent(37)).toEqual({ day: 135, total: 365 });
+            expect(getDayCountFromPercent(100)).toEqual({ day: 365, total: 365 });
+        });
+    });
+
+    describe('getSandLevel', () => {
+        it('should empty the top bulb as the sand falls', () => {
+            expect(getSandLevel(0)).toBe(1);
+            expect(getSandLevel(0.75)).toBe(0.5);
+            expect(getSandLevel(1)).toBe(0);
+        });
+
+        it('should clamp progress to 0-1', () => {
+            expect(getSandLevel(-0.5)).toBe(1);
+            expect(getSandLevel(1.5)).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+    compileSceneTemplates,
+    fitImage,
+    getElementState,
+    interpolateKeyframes,
+} from '../../src/render/scene.js';
+import type { Scene, SceneElement } from '../../src/types/index.js';
+
+const CONFIG = { width: 1080, height: 1920 };
+
+/**
+ * Shape element with the schema defaults
+ */
+function createShape(overrides: Partial<SceneElement> = {}): SceneElement {
+    return {
+        type: 'shape',
+        shape: 'rect',
+        color: '#FFFFFF',
+        radius: 0,
+        x: 100,
+        y: 200,
+        width: 300,
+        height: 400,
+        opacity: 1,
+        rotation: 0,
+        scale: 1,
+        keyframes: {},
+        ...overrides,
+    } as SceneElement;
+}
+
+describe('scene', () => {
+    describe('interpolateKeyframes', () => {
+        const keyframes = [
+            { time: 1, value: 0 },
+            { time: 2, value: 100 },
+            { time: 4, value: 50 },
+        ];
+
+        it('should interpolate linearly between keyframes', () => {
+            expect(interpolateKeyframes(keyframes, 1.5)).toBe(50);
+            expect(interpolateKeyframes(keyframes, 3)).toBe(75);
+        });
+
+        it('should hold the first and last values outside the keyframes', () => {
+            expect(interpolateKeyframes(keyframes, 0)).toBe(0);
+            expect(interpolateKeyframes(keyframes, 2)).toBe(100);
+            expect(interpolateKeyframes(keyframes, 10)).toBe(50);
+        });
+
+        it('should jump at keyframes with the same time', () => {
+            const step = [
+                { time: 1, value: 0 },
+                { time: 1, value: 1 },
+            ];
+
+            expect(interpolateKeyframes(step, 0.5)).toBe(0);
+            expect(interpolateKeyframes(step, 1)).toBe(1);
+        });
+    });
+
+    describe('getElementState', () => {
+        it('should use the static properties without keyframes', () => {
+            expect(getElementState(createShape(), 3, CONFIG)).toEqual({
+                bounds: { x: 100, y: 200, width: 300, height: 400 },
+                opacity: 1,
+                rotation: 0,
+                scale: 1,
+            });
+        });
+
+        it('should apply keyframes at the time', () => {
+            const element = createShape({
+                keyframes: {
+                    opacity: [
+                        { time: 0, value: 0 },
+                        { time: 1, value: 1 },
+                    ],
+                    rotation: [{ time: 0, value: 90 }],
+                    y: [
+                        { time: 0, value: 300 },
+                        { time: 1, value: 200 },
+                    ],
+                },
+            });
+            const state = getElementState(element, 0.5, CONFIG);
+
+            expect(state.opacity).toBe(0.5);
+            expect(state.rotation).toBeCloseTo(Math.PI / 2);
+            expect(state.bounds.y).toBe(250);
+        });
+
+        it('should clamp opacity overshoot', () => {
+            const element = createShape({ keyframes: { opacity: [{ time: 0, value: 1.2 }] } });
+
+            expect(getElementState(element, 0, CONFIG).opacity).toBe(1);
+        });
+
+        it('should cover the canvas with backgrounds and overlays', () => {
+            const overlay = { ...createShape(), type: 'overlay' } as SceneElement;
+
+            expect(getElementState(overlay, 0, CONFIG).bounds).toEqual({
+                x: 0,
+                y: 0,
+                width: 1080,
+                height: 1920,
+            });
+        });
+    });
+
+    describe('fitImage', () => {
+        const box = { x: 100, y: 100, width: 400, height: 400 };
+
+        it('should fit a wide image inside the box', () => {
+            expect(fitImage(800, 400, box, 'contain')).toEqual({
+                x: 100,
+                y: 200,
+                width: 400,
+                height: 200,
+            });
+        });
+
+        it('should cover the box with a wide image', () => {
+            expect(fitImage(800, 400, box, 'cover')).toEqual({
+                x: -100,
+                y: 100,
+                width: 800,
+                height: 400,
+            });
+        });
+    });
+
+    describe('compileSceneTemplates', () => {
+        const scene = (...templates: string[]): Scene => ({
+            name: 'card',
+            elements: templates.map(
+                (template) =>
+                    ({ type: 'text', template, fontSize: 80, align: 'center' }) as SceneElement
+            ),
+        });
+
+        it('should compile each template once', () => {
+            const templates = compileSceneTemplates(scene('{text}', '{progressLabel}', '{text}'), {
+                text: 'Hello',
+            });
+
+            expect([...templates.keys()]).toEqual(['{text}', '{progressLabel}']);
+            expect(templates.get('{text}')?.variables).toEqual(['text']);
+        });
+
+        it('should throw for variables the content does not provide', () => {
+            expect(() => compileSceneTemplates(scene('{sign}: {text}'), { text: 'Hi' })).toThrow(
+                'Scene "card": template "{sign}: {text}" uses variable(s) the content does not ' +
+                    'provide: sign (available: text, progressLabel)'
+            );
+        });
+    });
+});
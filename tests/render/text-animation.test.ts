@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getLineEntrance,
+    getLineProgress,
+    getStaggeredProgress,
+    getTextStartTime,
+    getTypedText,
+    getWordPop,
+    getWordSpans,
+} from '../../src/render/text-animation.js';
+import type { AnimationTiming } from '../../src/types/index.js';
+
+const TEXT: AnimationTiming['text'] = {
+    preset: 'fade',
+    anchor: 'video',
+    delay: 0,
+    duration: 0.5,
+    stagger: 0,
+    slide: 80,
+};
+
+const TIMING = { totalFrames: 210, animationFrames: 150, delayFrames: 30 };
+
+describe('text animation', () => {
+    describe('getTextStartTime', () => {
+        it('should count the delay from the anchor', () => {
+            expect(getTextStartTime({ ...TEXT, delay: 0.5 }, TIMING, 30)).toBe(0.5);
+            expect(getTextStartTime({ ...TEXT, anchor: 'bar-start' }, TIMING, 30)).toBe(1);
+            expect(getTextStartTime({ ...TEXT, anchor: 'bar-end' }, TIMING, 30)).toBe(5);
+        });
+
+        it('should let a negative delay land the text as the fill ends', () => {
+            const text = { ...TEXT, anchor: 'bar-end' as const, delay: -0.5 };
+
+            expect(getTextStartTime(text, TIMING, 30) + text.duration).toBe(5);
+        });
+
+        it('should not start before the video', () => {
+            expect(getTextStartTime({ ...TEXT, delay: -2 }, TIMING, 30)).toBe(0);
+        });
+    });
+
+    describe('getLineProgress', () => {
+        it('should run each line over the duration, a stagger apart', () => {
+            const text = { duration: 0.5, stagger: 0.25 };
+
+            expect(getLineProgress(1, 1, 0, text)).toBe(0);
+            expect(getLineProgress(1.25, 1, 0, text)).toBe(0.5);
+            expect(getLineProgress(1.25, 1, 1, text)).toBe(0);
+            expect(getLineProgress(1.5, 1, 1, text)).toBe(0.5);
+            expect(getLineProgress(3, 1, 1, text)).toBe(1);
+        });
+    });
+
+    describe('getStaggeredProgress', () => {
+        it('should start items one after another and finish them with the whole', () => {
+            expect(getStaggeredProgress(0, 0, 4)).toBe(0);
+            expect(getStaggeredProgress(0.2, 0, 4)).toBeGreaterThan(0);
+            expect(getStaggeredProgress(0.2, 3, 4)).toBe(0);
+            expect(getStaggeredProgress(1, 3, 4)).toBeCloseTo(1);
+        });
+
+        it('should run a single item over the whole', () => {
+            expect(getStaggeredProgress(0.5, 0, 1)).toBe(0.5);
+        });
+    });
+
+    describe('getLineEntrance', () => {
+        it('should fade in place', () => {
+            expect(getLineEntrance('fade', 0.25, 80)).toEqual({
+                opacity: 0.25,
+                offset: 0,
+                scale: 1,
+            });
+        });
+
+        it('should rise into place with slide-up', () => {
+            expect(getLineEntrance('slide-up', 0, 80).offset).toBe(80);
+            expect(getLineEntrance('slide-up', 0.5, 80).offset).toBe(10);
+            expect(getLineEntrance('slide-up', 1, 80).offset).toBe(0);
+        });
+
+        it('should grow past full size and settle with scale-bounce', () => {
+            const scales = [0.1, 0.2, 0.3, 0.4].map(
+                (p) => getLineEntrance('scale-bounce', p, 0).scale
+            );
+
+            expect(getLineEntrance('scale-bounce', 0, 0).scale).toBe(0);
+            expect(Math.max(...scales)).toBeGreaterThan(1);
+            expect(getLineEntrance('scale-bounce', 1, 0)).toEqual({
+                opacity: 1,
+                offset: 0,
+                scale: 1,
+            });
+        });
+    });
+
+    describe('getWordPop', () => {
+        it('should overshoot before settling at full size', () => {
+            expect(getWordPop(0).scale).toBeCloseTo(0);
+            expect(getWordPop(0.7).scale).toBeGreaterThan(1);
+            expect(getWordPop(1)).toEqual({ opacity: 1, offset: 0, scale: 1 });
+        });
+    });
+
+    describe('getTypedText', () => {
+        it('should type whole characters', () => {
+            expect(getTypedText('Hello', 0)).toBe('');
+            expect(getTypedText('Hello', 0.5)).toBe('He');
+            expect(getTypedText('Hello', 1)).toBe('Hello');
+        });
+
+        it('should type an emoji at once', () => {
+            const technologist = '\u{1f469}\u200d\u{1f4bb}';
+
+            expect(getTypedText(`a${technologist}`, 0.5)).toBe('a');
+            expect(getTypedText(`a${technologist}`, 1)).toBe(`a${technologist}`);
+        });
+    });
+
+    describe('getWordSpans', () => {
+        it('should measure words from the start of the line', () => {
+            expect(getWordSpans('Go  far', (prefix) => prefix.length * 10)).toEqual([
+                { start: 0, end: 20 },
+                { start: 40, end: 70 },
+            ]);
+        });
+    });
+});
@@ -0,0 +1,278 @@
+import { describe, it, expect } from 'vitest';
+import {
+    applyBaseDirection,
+    detectTextDirection,
+    fitTextBlock,
+    formatFontFamilies,
+    getFontFallbackChain,
+    getFontFamilyFromFileName,
+    getLocaleDirection,
+    getProgressBarBounds,
+    getTextPlacement,
+    layoutTextAroundBar,
+    layoutTextInBox,
+    removeTextBlockSeparators,
+    resolveTextDirection,
+    splitTextBlocks,
+    wrapText,
+} from '../../src/render/text-layout.js';
+
+/** Every character is half the font size wide */
+const measure = (text: string, fontSize: number): number => text.length * fontSize * 0.5;
+
+describe('text-layout', () => {
+    describe('getLocaleDirection', () => {
+        it('should detect right-to-left languages', () => {
+            expect(getLocaleDirection('ar')).toBe('rtl');
+            expect(getLocaleDirection('fa-IR')).toBe('rtl');
+            expect(getLocaleDirection('he')).toBe('rtl');
+            expect(getLocaleDirection('en-US')).toBe('ltr');
+            expect(getLocaleDirection('pt-BR')).toBe('ltr');
+        });
+    });
+
+    describe('detectTextDirection', () => {
+        it('should use the first strong character', () => {
+            expect(detectTextDirection('2026 اكتمل بنسبة 37%')).toBe('rtl');
+            expect(detectTextDirection('שנת 2026')).toBe('rtl');
+            expect(detectTextDirection('2026 is 37% complete')).toBe('ltr');
+            expect(detectTextDirection('Ψ 2026')).toBe('ltr');
+        });
+
+        it('should return null for numbers and symbols only', () => {
+            expect(detectTextDirection('37% - 2026')).toBeNull();
+            expect(detectTextDirection('')).toBeNull();
+        });
+    });
+
+    describe('resolveTextDirection', () => {
+        it('should fall back to the locale direction for neutral text', () => {
+            expect(resolveTextDirection('37%', 'ar')).toBe('rtl');
+            expect(resolveTextDirection('37%', 'en')).toBe('ltr');
+            expect(resolveTextDirection('Year 2026', 'ar')).toBe('ltr');
+        });
+    });
+
+    describe('applyBaseDirection', () => {
+        it('should prefix the direction mark', () => {
+            expect(applyBaseDirection('37%', 'rtl')).toBe('\u200f37%');
+            expect(applyBaseDirection('37%', 'ltr')).toBe('\u200e37%');
+        });
+    });
+
+    describe('getFontFallbackChain', () => {
+        const fallbacks = { ar: ['Noto Naskh Arabic'], 'fa-AF': ['Vazirmatn'] };
+
+        it('should try the primary font, the language fallbacks, then sans-serif', () => {
+            expect(getFontFallbackChain('ar-EG', 'Primary', fallbacks)).toEqual([
+                'Primary',
+                'Noto Naskh Arabic',
+                'sans-serif',
+            ]);
+            expect(getFontFallbackChain('fa-AF', 'Primary', fallbacks)).toEqual([
+                'Primary',
+                'Vazirmatn',
+                'sans-serif',
+            ]);
+            expect(getFontFallbackChain('en', 'Primary', fallbacks)).toEqual([
+                'Primary',
+                'sans-serif',
+            ]);
+        });
+    });
+
+    describe('formatFontFamilies', () => {
+        it('should quote named families but not generic ones', () => {
+            expect(formatFontFamilies(['Primary', 'Noto Sans Hebrew', 'sans-serif'])).toBe(
+                '"Primary", "Noto Sans Hebrew", sans-serif'
+            );
+        });
+    });
+
+    describe('getFontFamilyFromFileName', () => {
+        it('should derive the family from the file name', () => {
+            expect(getFontFamilyFromFileName('Noto_Naskh_Arabic-Bold.ttf')).toBe(
+                'Noto Naskh Arabic'
+            );
+            expect(getFontFamilyFromFileName('Vazirmatn.otf')).toBe('Vazirmatn');
+        });
+    });
+
+    describe('getTextPlacement', () => {
+        it('should center regardless of direction', () => {
+            expect(getTextPlacement('center', 'rtl', 1080, 80)).toEqual({
+                textAlign: 'center',
+                x: 540,
+            });
+        });
+
+        it('should mirror start and end alignment for right-to-left text', () => {
+            expect(getTextPlacement('start', 'ltr', 1080, 80)).toEqual({ textAlign: 'left', x: 80 });
+            expect(getTextPlacement('start', 'rtl', 1080, 80)).toEqual({
+                textAlign: 'right',
+                x: 1000,
+            });
+            expect(getTextPlacement('end', 'rtl', 1080, 80)).toEqual({ textAlign: 'left', x: 80 });
+        });
+    });
+
+    describe('splitTextBlocks', () => {
+        it('should put the first line above the bar and the rest below', () => {
+            expect(splitTextBlocks('2026 is 37% complete\n230 days left\nKeep going')).toEqual({
+                above: ['2026 is 37% complete'],
+                below: ['230 days left', 'Keep going'],
+            });
+        });
+
+        it('should split at a separator line', () => {
+            expect(splitTextBlocks('Day 136\n2026 is 37% complete\n---\n230 days left')).toEqual({
+                above: ['Day 136', '2026 is 37% complete'],
+                below: ['230 days left'],
+            });
+            expect(splitTextBlocks('---\nOnly below')).toEqual({ above: [], below: ['Only below'] });
+        });
+
+        it('should remove separators from captions', () => {
+            expect(removeTextBlockSeparators('Day 136\n---\n230 days left')).toBe(
+                'Day 136\n230 days left'
+            );
+        });
+    });
+
+    describe('wrapText', () => {
+        it('should wrap at word boundaries to fit the width', () => {
+            // 10 characters fit at font size 20
+            expect(wrapText('the year is almost over', 100, 20, measure)).toEqual([
+                'the year',
+                'is almost',
+                'over',
+            ]);
+        });
+
+        it('should keep a word wider than the width on its own line', () => {
+            expect(wrapText('a extraordinarily b', 100, 20, measure)).toEqual([
+                'a',
+                'extraordinarily',
+                'b',
+            ]);
+        });
+    });
+
+    describe('fitTextBlock', () => {
+        it('should keep the font size when the text fits', () => {
+            expect(fitTextBlock(['short'], { width: 500, height: 200 }, 80, measure)).toEqual({
+                fontSize: 80,
+                lines: ['short'],
+                sourceLines: [0],
+            });
+        });
+
+        it('should shrink the font until the wrapped lines fit the box', () => {
+            const layout = fitTextBlock(
+                ['a fairly long caption that needs wrapping'],
+                { width: 400, height: 200 },
+                80,
+                measure
+            );
+
+            expect(layout.fontSize).toBeLessThan(80);
+            expect(layout.lines.length * layout.fontSize * 1.2).toBeLessThanOrEqual(200);
+            for (const line of layout.lines) {
+                expect(measure(line, layout.fontSize)).toBeLessThanOrEqual(400);
+            }
+        });
+
+        it('should stop at the minimum font size', () => {
+            const layout = fitTextBlock(['x'.repeat(500)], { width: 100, height: 50 }, 80, measure);
+
+            expect(layout.fontSize).toBe(32);
+        });
+    });
+
+    describe('layoutTextAroundBar', () => {
+        const config = { width: 1080, height: 1920, fontSize: 80, textMargin: 80 };
+
+        it('should place blocks above and below the bar without overlapping it', () => {
+            const bar = getProgressBarBounds(config);
+            const lines = layoutTextAroundBar(
+                'Day 136 of 365\n2026 is 37% complete\n---\n230 days left\n33 weekends left',
+                config,
+                measure
+            );
+
+            expect(lines.map((l) => l.text)).toEqual([
+                'Day 136 of 365',
+                '2026 is 37% complete',
+                '230 days left',
+                '33 weekends left',
+            ]);
+            for (const line of lines.slice(0, 2)) {
+                expect(line.y + line.fontSize / 2).toBeLessThan(bar.y);
+            }
+            for (const line of lines.slice(2)) {
+                expect(line.y - line.fontSize / 2).toBeGreaterThan(bar.y + bar.height);
+            }
+            expect(lines[0]?.y).toBeLessThan(lines[1]?.y ?? 0);
+            expect(lines[2]?.fontSize).toBe(64);
+        });
+
+        it('should place blocks around a taller visual', () => {
+            const visual = { x: 340, y: 760, width: 400, height: 400 };
+            const lines = layoutTextAroundBar(
+                'Day 136 of 365\n---\n230 days left',
+                config,
+                measure,
+                visual
+            );
+
+            expect(lines[0]?.y).toBeLessThan(visual.y - 40);
+            expect(lines[1]?.y).toBeGreaterThan(visual.y + visual.height + 40);
+        });
+
+        it('should wrap long lines to the width between the margins', () => {
+            const lines = layoutTextAroundBar(
+                'This template is much too long to fit on a single line of the video',
+                config,
+                measure
+            );
+
+            expect(lines.length).toBeGreaterThan(1);
+            for (const line of lines) {
+                expect(measure(line.text, line.fontSize)).toBeLessThanOrEqual(920);
+            }
+        });
+
+        it('should keep the source line of wrapped lines for per-line styles', () => {
+            const lines = layoutTextAroundBar(
+                'Title\n---\nA subtitle that is far too long to fit on one line\nFooter',
+                config,
+                measure
+            );
+
+            expect(lines.map((l) => l.line)).toEqual([0, 1, 1, 2]);
+        });
+    });
+
+    describe('layoutTextInBox', () => {
+        const box = { x: 100, y: 500, width: 400, height: 300 };
+
+        it('should center the lines vertically in the box', () => {
+            const lines = layoutTextInBox('Day 136\n230 days left', box, 40, measure);
+
+            expect(lines.map((l) => l.text)).toEqual(['Day 136', '230 days left']);
+            expect(lines.map((l) => l.y)).toEqual([626, 674]);
+            expect(lines.map((l) => l.line)).toEqual([0, 1]);
+        });
+
+        it('should shrink text that does not fit the box', () => {
+            const short = { ...box, height: 120 };
+            const lines = layoutTextInBox('A very long line of text', short, 80, measure);
+
+            expect(lines[0]?.fontSize).toBeLessThan(80);
+            expect(lines.length * (lines[0]?.fontSize ?? 0) * 1.2).toBeLessThanOrEqual(120);
+            for (const line of lines) {
+                expect(measure(line.text, line.fontSize)).toBeLessThanOrEqual(box.width);
+            }
+        });
+    });
+});
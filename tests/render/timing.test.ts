@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+    calculateRenderDuration,
+    clampPercent,
+    getDecimalPlaces,
+    getFramePercent,
+    getFrameProgress,
+    getFrameTiming,
+    mergeAnimation,
+} from '../../src/render/timing.js';
+import type { AnimationTiming } from '../../src/types/index.js';
+
+const CONFIG = { fps: 30, minDuration: 3, animationSpeed: 10, pauseDuration: 2 };
+
+describe('render timing', () => {
+    describe('calculateRenderDuration', () => {
+        it('should add the hold time to the animation time', () => {
+            expect(calculateRenderDuration(50, true, CONFIG)).toBe(7);
+        });
+
+        it('should round fractional percents up to a whole frame', () => {
+            const duration = calculateRenderDuration(37.26, true, CONFIG);
+
+            expect(duration).toBeCloseTo(5.7333, 3);
+            expect(Number.isInteger(duration * CONFIG.fps)).toBe(true);
+        });
+
+        it('should add the start delay to the animation time', () => {
+            expect(calculateRenderDuration(50, true, CONFIG, 1.5)).toBe(8.5);
+            expect(calculateRenderDuration(90, false, CONFIG, 1.5)).toBe(3);
+        });
+
+        it('should respect the minimum duration', () => {
+            expect(calculateRenderDuration(5, true, CONFIG)).toBe(3);
+            expect(calculateRenderDuration(90, false, CONFIG)).toBe(3);
+        });
+    });
+
+    describe('getFrameTiming', () => {
+        it('should split frames into animation and hold', () => {
+            expect(getFrameTiming(5.7333333, CONFIG)).toEqual({
+                totalFrames: 172,
+                animationFrames: 112,
+                delayFrames: 0,
+            });
+        });
+
+        it('should count delay frames, leaving at least one frame to fill', () => {
+            expect(getFrameTiming(7, CONFIG, 1).delayFrames).toBe(30);
+            expect(getFrameTiming(3, CONFIG, 10).delayFrames).toBe(29);
+        });
+    });
+
+    describe('getFrameProgress', () => {
+        it('should fill up to a fractional percent and hold', () => {
+            const timing = { totalFrames: 172, animationFrames: 112, delayFrames: 0 };
+
+            expect(getFrameProgress(0, timing, 37.26)).toBe(0);
+            expect(getFrameProgress(56, timing, 37.26)).toBeCloseTo(0.1863, 4);
+            expect(getFrameProgress(112, timing, 37.26)).toBeCloseTo(0.3726, 4);
+            expect(getFrameProgress(171, timing, 37.26)).toBeCloseTo(0.3726, 4);
+        });
+
+        it('should stay empty during the delay', () => {
+            const timing = { totalFrames: 160, animationFrames: 100, delayFrames: 20 };
+
+            expect(getFrameProgress(10, timing, 50)).toBe(0);
+            expect(getFrameProgress(20, timing, 50)).toBe(0);
+            expect(getFrameProgress(60, timing, 50)).toBeCloseTo(0.25);
+        });
+
+        it('should follow the easing curve', () => {
+            const timing = { totalFrames: 160, animationFrames: 100, delayFrames: 0 };
+
+            expect(getFrameProgress(50, timing, 40, 'ease-out-cubic')).toBeCloseTo(0.35);
+            expect(getFrameProgress(50, timing, 40, 'ease-in-out')).toBeCloseTo(0.2);
+        });
+
+        it('should overshoot past the percent and settle on it', () => {
+            const timing = { totalFrames: 160, animationFrames: 100, delayFrames: 0 };
+            const frames = Array.from({ length: 160 }, (_, frame) =>
+                getFrameProgress(frame, timing, 40, 'overshoot')
+            );
+
+            expect(Math.max(...frames)).toBeGreaterThan(0.4);
+            expect(frames[100]).toBe(0.4);
+            expect(frames[159]).toBe(0.4);
+        });
+
+        it('should cap overshoot at a full bar', () => {
+            const timing = { totalFrames: 160, animationFrames: 100, delayFrames: 0 };
+
+            expect(getFrameProgress(80, timing, 100, 'overshoot')).toBe(1);
+        });
+    });
+
+    describe('mergeAnimation', () => {
+        const base: AnimationTiming = {
+            easing: 'linear',
+            delay: 0,
+            text: {
+                preset: 'fade',
+                anchor: 'video',
+                delay: 0,
+                duration: 0.5,
+                stagger: 0,
+                slide: 80,
+            },
+        };
+
+        it('should override only the values that are set', () => {
+            expect(
+                mergeAnimation(base, {
+                    easing: 'elastic',
+                    delay: undefined,
+                    text: { preset: 'word-pop', anchor: undefined, slide: 40 },
+                })
+            ).toEqual({
+                easing: 'elastic',
+                delay: 0,
+                text: { ...base.text, preset: 'word-pop', slide: 40 },
+            });
+        });
+    });
+
+    describe('getFramePercent', () => {
+        it('should count up at the precision of the final percent', () => {
+            expect(getFramePercent(0, 37)).toBe(0);
+            expect(getFramePercent(0.1863, 37.26)).toBe(18.63);
+            expect(getFramePercent(0.18639, 37)).toBe(18);
+            expect(getFramePercent(0.3726, 37.26)).toBe(37.26);
+        });
+
+        it('should count at the given precision and settle on the exact percent', () => {
+            expect(getFramePercent(0.1863, 37.6, 0)).toBe(18);
+            expect(getFramePercent(0.376, 37.6, 0)).toBe(37.6);
+            expect(getFramePercent(0.2, 37.5, 2)).toBe(20);
+        });
+
+        it('should reach the final percent despite floating point error', () => {
+            expect(getFramePercent((112 / 112) * 0.29, 29)).toBe(29);
+            expect(getFramePercent(0.57, 57)).toBe(57);
+        });
+    });
+
+    describe('getDecimalPlaces', () => {
+        it('should count decimal places up to the maximum precision', () => {
+            expect(getDecimalPlaces(37)).toBe(0);
+            expect(getDecimalPlaces(37.25)).toBe(2);
+            expect(getDecimalPlaces(1 / 3)).toBe(4);
+        });
+    });
+
+    describe('clampPercent', () => {
+        it('should clamp to 0-100', () => {
+            expect(clampPercent(-1)).toBe(0);
+            expect(clampPercent(100.5)).toBe(100);
+            expect(clampPercent(42.5)).toBe(42.5);
+        });
+    });
+});
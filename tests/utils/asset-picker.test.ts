@@ -12,9 +12,35 @@ vi.mock('path', async () => {
     };
 });
 
+// Themes are read with the real schema in themes.test.ts
+vi.mock('../../src/utils/themes.js', async () => {
+    const actual = await vi.importActual<typeof import('../../src/utils/themes.js')>(
+        '../../src/utils/themes.js'
+    );
+    return { ...actual, loadThemes: vi.fn(() => [{ name: 'default', milestones: [] }]) };
+});
+
+// Scenes are read with the real schema in scenes.test.ts
+vi.mock('../../src/utils/scenes.js', async () => {
+    const actual = await vi.importActual<typeof import('../../src/utils/scenes.js')>(
+        '../../src/utils/scenes.js'
+    );
+    return { ...actual, loadScenes: vi.fn(() => [{ name: 'card', elements: [] }]) };
+});
+
 // We need to import after mocking
 const mockFs = vi.mocked(fs);
 
+/** One file of each asset type, with the Arabic and Hebrew fallback fonts */
+const ASSET_FILES = [
+    'asset.jpg',
+    '1f331.png',
+    'asset.mp3',
+    'asset.ttf',
+    'Noto_Naskh_Arabic-Bold.ttf',
+    'Noto_Sans_Hebrew-Bold.ttf',
+];
+
 describe('asset-picker', () => {
     beforeEach(() => {
         vi.resetModules();
@@ -61,6 +87,50 @@ describe('asset-picker', () => {
         });
     });
 
+    describe('getRandomBackgroundImages', () => {
+        it('should pick distinct images other than the excluded ones', async () => {
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readdirSync.mockReturnValue(['a.jpg', 'b.png', 'c.jpg', 'loop.mp4'] as any);
+
+            const { getRandomBackgroundImages } = await import('../../src/utils/asset-picker.js');
+            const images = getRandomBackgroundImages(5);
+            const first = images.find((p) => p.endsWith('a.jpg')) ?? '';
+            const others = getRandomBackgroundImages(5, [first]);
+
+            expect(images).toHaveLength(3);
+            expect(new Set(images).size).toBe(3);
+            expect(others).toHaveLength(2);
+            expect(others).not.toContain(first);
+            expect(getRandomBackgroundImages(1)).toHaveLength(1);
+        });
+    });
+
+    describe('getFontPath', () => {
+        it('should not pick a fallback font as the primary font', async () => {
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readdirSync.mockReturnValue([
+                'Noto_Naskh_Arabic-Bold.ttf',
+                'Noto_Sans_Hebrew-Bold.ttf',
+                'Roboto_Condensed-Black.ttf',
+            ] as any);
+
+            const { getFontPath, getFallbackFontPaths } =
+                await import('../../src/utils/asset-picker.js');
+
+            expect(getFontPath()).toContain('Roboto_Condensed-Black.ttf');
+            expect(getFallbackFontPaths()).toHaveLength(2);
+        });
+    });
+
+    describe('isVideoBackground', () => {
+        it('should recognize video files', async () => {
+            const { isVideoBackground } = await import('../../src/utils/asset-picker.js');
+
+            expect(isVideoBackground('assets/backgrounds/loop.MP4')).toBe(true);
+            expect(isVideoBackground('assets/backgrounds/still.jpg')).toBe(false);
+        });
+    });
+
     describe('validateAssets', () => {
         it('should return valid when all assets present', async () => {
             mockFs.existsSync.mockReturnValue(true);
@@ -72,11 +142,21 @@ describe('asset-picker', () => {
                 if (pathStr.includes('audio')) {
                     return ['audio1.mp3'] as any;
                 }
+                if (pathStr.includes('emoji')) {
+                    return ['1f331.png'] as any;
+                }
                 if (pathStr.includes('fonts')) {
-                    return ['font.ttf'] as any;
+                    return [
+                        'font.ttf',
+                        'Noto_Naskh_Arabic-Bold.ttf',
+                        'Noto_Sans_Hebrew-Bold.ttf',
+                    ] as any;
                 }
                 return [];
             });
+            mockFs.readFileSync.mockReturnValue(
+                JSON.stringify({ yearProgress: { templates: ['{percent}%'], hashtags: [] } })
+            );
 
             const { validateAssets } = await import('../../src/utils/asset-picker.js');
             const result = validateAssets();
@@ -85,7 +165,7 @@ describe('asset-picker', () => {
             expect(result.errors).toHaveLength(0);
             expect(result.assets.backgrounds).toBe(1);
             expect(result.assets.audio).toBe(1);
-            expect(result.assets.fonts).toBe(1);
+            expect(result.assets.fonts).toBe(3);
         });
 
         it('should return errors when assets missing', async () => {
@@ -100,6 +180,135 @@ describe('asset-picker', () => {
             expect(result.valid).toBe(false);
             expect(result.errors.length).toBeGreaterThan(0);
         });
+
+        it('should return errors when a language has no fallback font', async () => {
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readdirSync.mockReturnValue(['asset.jpg', 'asset.mp3', 'asset.ttf'] as any);
+            mockFs.readFileSync.mockReturnValue(JSON.stringify({}));
+
+            const { validateAssets } = await import('../../src/utils/asset-picker.js');
+            const result = validateAssets();
+
+            expect(result.valid).toBe(false);
+            expect(result.errors).toContainEqual(
+                expect.stringContaining('No fallback font for "ar"')
+            );
+            expect(result.errors).toContainEqual(
+                expect.stringContaining('No fallback font for "he"')
+            );
+        });
+
+        it('should accept the emoji font instead of emoji sprites', async () => {
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readFileSync.mockReturnValue(JSON.stringify({}));
+            mockFs.readdirSync.mockImplementation((dirPath) =>
+                String(dirPath).includes('emoji') ? [] : (ASSET_FILES as any)
+            );
+
+            const { validateAssets } = await import('../../src/utils/asset-picker.js');
+
+            expect(validateAssets().errors).toEqual([
+                'No emoji sprites in assets/emoji and no Noto Color Emoji font in assets/fonts',
+            ]);
+
+            mockFs.readdirSync.mockImplementation((dirPath) =>
+                String(dirPath).includes('emoji')
+                    ? []
+                    : ([...ASSET_FILES, 'Noto_Color_Emoji-Regular.ttf'] as any)
+            );
+
+            expect(validateAssets().errors).toEqual([]);
+        });
+
+        it('should return errors for an unknown theme or invalid themes', async () => {
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readdirSync.mockReturnValue(ASSET_FILES as any);
+            mockFs.readFileSync.mockReturnValue(JSON.stringify({}));
+
+            const { validateAssets } = await import('../../src/utils/asset-picker.js');
+            const { loadThemes } = await import('../../src/utils/themes.js');
+
+            expect(validateAssets('random').errors).toEqual([]);
+            expect(validateAssets('neon').errors).toEqual([
+                'Unknown theme: "neon". Defined themes: default',
+            ]);
+
+            vi.mocked(loadThemes).mockImplementationOnce(() => {
+                throw new Error('Invalid theme in config/themes/gold.json');
+            });
+            expect(validateAssets().errors).toEqual(['Invalid theme in config/themes/gold.json']);
+        });
+
+        it('should return errors for an unknown scene or invalid scenes', async () => {
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readdirSync.mockReturnValue(ASSET_FILES as any);
+            mockFs.readFileSync.mockReturnValue(JSON.stringify({}));
+
+            const { validateAssets } = await import('../../src/utils/asset-picker.js');
+            const { loadScenes } = await import('../../src/utils/scenes.js');
+
+            expect(validateAssets('default', 'card').errors).toEqual([]);
+            expect(validateAssets('default', 'poster').errors).toEqual([
+                'Unknown scene: "poster". Defined scenes: card',
+            ]);
+
+            vi.mocked(loadScenes).mockImplementationOnce(() => {
+                throw new Error('Invalid scene in config/scenes/card.json');
+            });
+            expect(validateAssets('default', 'card').errors).toEqual([
+                'Invalid scene in config/scenes/card.json',
+            ]);
+        });
+
+        it('should return errors for invalid templates', async () => {
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readdirSync.mockReturnValue(ASSET_FILES as any);
+            mockFs.readFileSync.mockReturnValue(
+                JSON.stringify({
+                    yearProgress: {
+                        templates: ['{percent | shout}%', { text: '{year}', weight: 0 }],
+                        hashtags: [],
+                        locales: { es: { templates: ['{year'] } },
+                    },
+                })
+            );
+
+            const { validateAssets } = await import('../../src/utils/asset-picker.js');
+            const result = validateAssets();
+
+            expect(result.valid).toBe(false);
+            expect(result.errors).toEqual([
+                expect.stringContaining('Unknown filter "shout"'),
+                expect.stringContaining('must have a positive weight'),
+                expect.stringContaining('yearProgress (es)'),
+            ]);
+        });
+
+        it('should return errors for variables the generator does not provide', async () => {
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readdirSync.mockReturnValue(ASSET_FILES as any);
+            mockFs.readFileSync.mockReturnValue(
+                JSON.stringify({
+                    quote: {
+                        templates: ['{quote} - {author}'],
+                        hashtags: [],
+                        locales: { es: { templates: ['{qoute} - {author}'] } },
+                    },
+                    custom: { templates: ['{anything}'], hashtags: [] },
+                })
+            );
+
+            const { registerTextVariables } = await import('../../src/utils/text-variables.js');
+            registerTextVariables('quote', ['quote', 'author']);
+            const { validateAssets } = await import('../../src/utils/asset-picker.js');
+            const result = validateAssets();
+
+            expect(result.valid).toBe(false);
+            expect(result.errors).toEqual([
+                'quote (es): "{qoute} - {author}" uses unknown variable(s): qoute ' +
+                    '(available: quote, author)',
+            ]);
+        });
     });
 
     describe('getRandomText', () => {
@@ -128,5 +337,104 @@ describe('asset-picker', () => {
 
             expect(() => getRandomText('unknown', {})).toThrow('No templates found');
         });
+
+        it('should reject variables that are not provided in any template', async () => {
+            const mockConfig = {
+                yearProgress: {
+                    templates: ['{year} is {percent}% done', '{daysleft} days left'],
+                    hashtags: [],
+                },
+            };
+
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readFileSync.mockReturnValue(JSON.stringify(mockConfig));
+
+            const { getRandomText } = await import('../../src/utils/asset-picker.js');
+
+            expect(() =>
+                getRandomText('yearProgress', { year: 2026, percent: 80, daysLeft: 73 })
+            ).toThrow('"{daysleft} days left" uses daysleft');
+        });
+
+        it('should pick templates by weight', async () => {
+            const mockConfig = {
+                yearProgress: {
+                    templates: [{ text: 'rare', weight: 1 }, { text: 'common', weight: 9 }],
+                    hashtags: [],
+                },
+            };
+
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readFileSync.mockReturnValue(JSON.stringify(mockConfig));
+
+            const { getRandomText } = await import('../../src/utils/asset-picker.js');
+            const randomSpy = vi.spyOn(Math, 'random');
+
+            try {
+                randomSpy.mockReturnValue(0.05);
+                expect(getRandomText('yearProgress', {})).toBe('rare');
+                randomSpy.mockReturnValue(0.15);
+                expect(getRandomText('yearProgress', {})).toBe('common');
+            } finally {
+                randomSpy.mockRestore();
+            }
+        });
+        it('should use localized templates and hashtags with fallback', async () => {
+            const mockConfig = {
+                yearProgress: {
+                    templates: ['{year} is {percentLabel} complete'],
+                    hashtags: ['#yearProgress'],
+                    locales: {
+                        es: { templates: ['{year} está completo al {percentLabel}'] },
+                        pt: {
+                            templates: ['{year} está {percentLabel} completo'],
+                            hashtags: ['#progressoDoAno'],
+                        },
+                    },
+                },
+            };
+
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readFileSync.mockReturnValue(JSON.stringify(mockConfig));
+
+            const { getRandomText, getHashtags } = await import(
+                '../../src/utils/asset-picker.js'
+            );
+
+            expect(getRandomText('yearProgress', { year: 2026, percentLabel: '37 %' }, 'es')).toBe(
+                '2026 está completo al 37 %'
+            );
+            expect(getRandomText('yearProgress', { year: 2026, percentLabel: '37%' }, 'pt-BR')).toBe(
+                '2026 está 37% completo'
+            );
+            expect(getRandomText('yearProgress', { year: 2026, percentLabel: '37%' }, 'fr')).toBe(
+                '2026 is 37% complete'
+            );
+            expect(getHashtags('yearProgress', 'es')).toEqual(['#yearProgress']);
+            expect(getHashtags('yearProgress', 'pt-BR')).toEqual(['#progressoDoAno']);
+        });
+
+        it('should format English fallback templates in English', async () => {
+            const mockConfig = {
+                yearProgress: {
+                    templates: ['{year} is {percent}% complete'],
+                    hashtags: [],
+                    locales: { es: { templates: ['{year} está completo al {percent} %'] } },
+                },
+                weekProgress: { templates: ['Week {week} is {percent}% complete'], hashtags: [] },
+            };
+
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readFileSync.mockReturnValue(JSON.stringify(mockConfig));
+
+            const { getRandomText } = await import('../../src/utils/asset-picker.js');
+
+            expect(getRandomText('yearProgress', { year: 2026, percent: 37.5 }, 'es')).toBe(
+                '2026 está completo al 37,5 %'
+            );
+            expect(getRandomText('weekProgress', { week: 42, percent: 37.5 }, 'es')).toBe(
+                'Week 42 is 37.5% complete'
+            );
+        });
     });
 });
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+    calculateCalendarYearProgress,
+    getCalendarName,
+    isSupportedCalendar,
+} from '../../src/utils/calendar-progress.js';
+
+const DATE = new Date('2026-10-19T12:00:00Z');
+
+describe('calendar-progress', () => {
+    describe('calculateCalendarYearProgress', () => {
+        it('should count the Hijri year', () => {
+            const result = calculateCalendarYearProgress('islamic-umalqura', DATE, 'UTC');
+
+            expect(result.year).toBe(1448);
+            expect(result.calendarName).toBe('Hijri');
+            expect(result.startDate).toBe('2026-06-16');
+            expect(result.dayOfYear).toBe(126);
+            expect(result.totalDays).toBeGreaterThanOrEqual(354);
+            expect(result.totalDays).toBeLessThanOrEqual(355);
+        });
+
+        it('should count the Hebrew year and detect leap months', () => {
+            const result = calculateCalendarYearProgress('hebrew', DATE, 'UTC');
+
+            expect(result.year).toBe(5787);
+            expect(result.monthName).toBe('Heshvan');
+            expect(result.startDate).toBe('2026-09-12');
+            expect(result.dayOfYear).toBe(38);
+            expect(result.totalDays).toBe(385);
+            expect(result.isLeapYear).toBe(true);
+        });
+
+        it('should count the Persian year from Nowruz', () => {
+            const result = calculateCalendarYearProgress('persian', DATE, 'UTC');
+
+            expect(result.year).toBe(1405);
+            expect(result.monthName).toBe('Mehr');
+            expect(result.startDate).toBe('2026-03-21');
+            expect(result.endDate).toBe('2027-03-20');
+            expect(result.percent).toBe(58);
+        });
+
+        it('should count the Chinese lunar year with its cyclic name', () => {
+            const result = calculateCalendarYearProgress('chinese', DATE, 'UTC');
+
+            expect(result.year).toBe(2026);
+            expect(result.yearName).toBeDefined();
+            expect(result.startDate).toBe('2026-02-17');
+            expect(result.totalDays).toBeGreaterThanOrEqual(353);
+            expect(result.totalDays).toBeLessThanOrEqual(385);
+        });
+
+        it('should match the Gregorian calculation for gregory', () => {
+            const result = calculateCalendarYearProgress('gregory', DATE, 'UTC');
+
+            expect(result.year).toBe(2026);
+            expect(result.dayOfYear).toBe(292);
+            expect(result.totalDays).toBe(365);
+            expect(result.percent).toBe(80);
+        });
+
+        it('should use the date in the configured timezone', () => {
+            // Still Sept 11 in Los Angeles, the last day of Hebrew year 5786
+            const result = calculateCalendarYearProgress(
+                'hebrew',
+                new Date('2026-09-12T03:00:00Z'),
+                'America/Los_Angeles'
+            );
+
+            expect(result.year).toBe(5786);
+        });
+
+        it('should reject unsupported calendars', () => {
+            expect(() => calculateCalendarYearProgress('klingon', DATE)).toThrow(
+                'Unsupported calendar'
+            );
+        });
+    });
+
+    describe('helpers', () => {
+        it('should check calendar support', () => {
+            expect(isSupportedCalendar('hebrew')).toBe(true);
+            expect(isSupportedCalendar('klingon')).toBe(false);
+        });
+
+        it('should name calendars', () => {
+            expect(getCalendarName('islamic-civil')).toBe('Hijri');
+            expect(getCalendarName('persian')).toBe('Persian');
+        });
+    });
+});
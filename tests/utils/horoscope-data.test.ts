@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getHoroscopeReading,
+    parseHoroscopeCsv,
+    parseHoroscopeJson,
+} from '../../src/utils/horoscope-data.js';
+
+describe('horoscope data', () => {
+    it('should parse daily and general readings from JSON', () => {
+        const dataset = parseHoroscopeJson(
+            JSON.stringify({ Leo: { '2026-10-19': 'Shine.', general: ['Rest.', 'Lead.'] } })
+        );
+
+        expect(dataset.leo).toEqual({
+            daily: { '2026-10-19': 'Shine.' },
+            general: ['Rest.', 'Lead.'],
+        });
+    });
+
+    it('should read rows without a date from CSV as general readings', () => {
+        const dataset = parseHoroscopeCsv('sign,date,content\nleo,,"Rest, then lead."');
+
+        expect(dataset.leo?.general).toEqual(['Rest, then lead.']);
+    });
+
+    it('should reject unknown signs', () => {
+        expect(() => parseHoroscopeJson(JSON.stringify({ ophiuchus: { general: ['x'] } }))).toThrow(
+            'Unknown zodiac sign'
+        );
+    });
+
+    describe('getHoroscopeReading', () => {
+        const dataset = parseHoroscopeJson(
+            JSON.stringify({ leo: { '2026-10-19': 'Shine.', general: ['Rest.', 'Lead.'] } })
+        );
+
+        it('should prefer the reading for the date', () => {
+            expect(getHoroscopeReading(dataset, 'leo', '2026-10-19')).toBe('Shine.');
+        });
+
+        it('should rotate through general readings on other days', () => {
+            const first = getHoroscopeReading(dataset, 'leo', '2026-10-20');
+            const second = getHoroscopeReading(dataset, 'leo', '2026-10-21');
+
+            expect([first, second].sort()).toEqual(['Lead.', 'Rest.']);
+            expect(getHoroscopeReading(dataset, 'leo', '2026-10-22')).toBe(first);
+        });
+
+        it('should throw when a sign has no reading for the day', () => {
+            expect(() => getHoroscopeReading(dataset, 'aries', '2026-10-19')).toThrow(
+                'No horoscope reading for aries on 2026-10-19'
+            );
+        });
+    });
+});
@@ -0,0 +1,82 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { loadJsonDirectory, loadJsonFile } from '../../src/utils/json-directory.js';
+
+const schema = z.object({ name: z.string().min(1), size: z.number().optional().default(1) });
+
+describe('json-directory', () => {
+    let dir: string;
+
+    const write = (file: string, content: unknown): void =>
+        fs.writeFileSync(path.join(dir, file), JSON.stringify(content));
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-directory-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('loadJsonFile', () => {
+        it('should load one file with defaults applied', () => {
+            write('widget.json', { name: 'only' });
+
+            expect(loadJsonFile(path.join(dir, 'widget.json'), schema, 'widget')).toEqual({
+                name: 'only',
+                size: 1,
+            });
+        });
+
+        it('should name the kind and the file in errors', () => {
+            const file = path.join(dir, 'widget.json');
+            write('widget.json', { name: '' });
+
+            expect(() => loadJsonFile(file, schema, 'widget')).toThrow(
+                `Invalid widget in ${file}:\nname:`
+            );
+            expect(() => loadJsonFile(path.join(dir, 'missing.json'), schema, 'widget')).toThrow(
+                'Widget not found'
+            );
+        });
+    });
+
+    describe('loadJsonDirectory', () => {
+        it('should load the JSON files sorted by file name with defaults applied', () => {
+            write('b.json', { name: 'second', size: 2 });
+            write('a.json', { name: 'first' });
+            write('notes.txt', 'not json');
+
+            expect(loadJsonDirectory(dir, schema, 'widget')).toEqual([
+                { name: 'first', size: 1 },
+                { name: 'second', size: 2 },
+            ]);
+        });
+
+        it('should name the kind and the file in errors', () => {
+            write('broken.json', { name: '' });
+
+            expect(() => loadJsonDirectory(dir, schema, 'widget')).toThrow(
+                `Invalid widget in ${path.join(dir, 'broken.json')}:\nname:`
+            );
+        });
+
+        it('should throw when names repeat', () => {
+            write('a.json', { name: 'same' });
+            write('b.json', { name: 'same' });
+
+            expect(() => loadJsonDirectory(dir, schema, 'widget')).toThrow(
+                'Widget name "same" is used more than once'
+            );
+        });
+
+        it('should throw when the directory does not exist', () => {
+            expect(() => loadJsonDirectory(path.join(dir, 'missing'), schema, 'widget')).toThrow(
+                'Widgets directory not found'
+            );
+        });
+    });
+});
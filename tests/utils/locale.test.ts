@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+    formatLocalizedNumber,
+    formatLocalizedPercent,
+    formatMonthName,
+    getLocaleChain,
+    getPercentVariables,
+    groupPlatformsByLocale,
+    isValidLocale,
+    parsePlatformLocales,
+} from '../../src/utils/locale.js';
+import { renderTemplate } from '../../src/utils/template-engine.js';
+
+describe('locale', () => {
+    describe('isValidLocale', () => {
+        it('should accept BCP 47 locales', () => {
+            expect(isValidLocale('en')).toBe(true);
+            expect(isValidLocale('pt-BR')).toBe(true);
+            expect(isValidLocale('not a locale')).toBe(false);
+            expect(isValidLocale('')).toBe(false);
+        });
+    });
+
+    describe('getLocaleChain', () => {
+        it('should list the locale and its parents', () => {
+            expect(getLocaleChain('pt-BR')).toEqual(['pt-BR', 'pt']);
+            expect(getLocaleChain('es')).toEqual(['es']);
+        });
+    });
+
+    describe('formatLocalizedNumber', () => {
+        it('should use the locale decimal separator without grouping', () => {
+            expect(formatLocalizedNumber(37.5, 'en')).toBe('37.5');
+            expect(formatLocalizedNumber(37.5, 'es')).toBe('37,5');
+            expect(formatLocalizedNumber(2026, 'pt')).toBe('2026');
+        });
+
+        it('should keep trailing zeros for fixed decimals', () => {
+            expect(formatLocalizedNumber(37.2, 'en', 2)).toBe('37.20');
+            expect(formatLocalizedNumber(20, 'pt', 1)).toBe('20,0');
+            expect(formatLocalizedNumber(20, 'en', 0)).toBe('20');
+        });
+    });
+
+    describe('formatLocalizedPercent', () => {
+        it('should place the percent sign the way the locale does', () => {
+            expect(formatLocalizedPercent(37, 'en')).toBe('37%');
+            expect(formatLocalizedPercent(37, 'es')).toBe('37\u00a0%');
+            expect(formatLocalizedPercent(37.25, 'pt', 2)).toBe('37,25%');
+        });
+    });
+
+    describe('getPercentVariables', () => {
+        it('should keep the number numeric and format the label', () => {
+            expect(getPercentVariables(37.2, 'es', 1)).toEqual({
+                percent: 37.2,
+                percentLabel: '37,2\u00a0%',
+            });
+        });
+
+        it('should let templates format and compare the percent in any locale', () => {
+            const vars = getPercentVariables(37.5, 'es', 1);
+
+            expect(renderTemplate('{percent}', vars, 'es')).toBe('37,5');
+            expect(renderTemplate('{percent | number:2}', vars, 'es')).toBe('37,50');
+            expect(renderTemplate('{#if percent > 9}más{#else}menos{/if}', vars, 'es')).toBe('más');
+        });
+    });
+
+    describe('formatMonthName', () => {
+        it('should name months in the locale', () => {
+            expect(formatMonthName(10, 'en')).toBe('October');
+            expect(formatMonthName(10, 'es')).toBe('octubre');
+            expect(formatMonthName(3, 'pt-BR')).toBe('março');
+        });
+    });
+
+    describe('parsePlatformLocales', () => {
+        it('should parse platform:locale pairs', () => {
+            expect(parsePlatformLocales('instagram:es, youtube:pt-BR')).toEqual({
+                instagram: 'es',
+                youtube: 'pt-BR',
+            });
+            expect(parsePlatformLocales('')).toEqual({});
+        });
+
+        it('should reject unknown platforms and invalid locales', () => {
+            expect(() => parsePlatformLocales('myspace:es')).toThrow('Unknown platform');
+            expect(() => parsePlatformLocales('instagram')).toThrow('Invalid locale');
+        });
+    });
+
+    describe('groupPlatformsByLocale', () => {
+        it('should group platforms with the default locale first', () => {
+            const groups = groupPlatformsByLocale(['instagram', 'facebook', 'youtube'], 'en', {
+                instagram: 'es',
+                youtube: 'pt-BR',
+            });
+
+            expect([...groups]).toEqual([
+                ['en', ['facebook']],
+                ['es', ['instagram']],
+                ['pt-BR', ['youtube']],
+            ]);
+        });
+
+        it('should drop the default locale when every platform is overridden', () => {
+            const groups = groupPlatformsByLocale(['instagram'], 'en', { instagram: 'es' });
+
+            expect([...groups]).toEqual([['es', ['instagram']]]);
+        });
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getMilestoneTextKey,
+    getYearMilestone,
+    isForcedMilestone,
+} from '../../src/utils/milestones.js';
+import { calculateYearProgress } from '../../src/utils/progress-calculator.js';
+
+function milestoneOn(iso: string): ReturnType<typeof getYearMilestone> {
+    return getYearMilestone(calculateYearProgress(new Date(iso), 'UTC'));
+}
+
+describe('milestones', () => {
+    describe('getYearMilestone', () => {
+        it('should find the first and last day of the year', () => {
+            expect(milestoneOn('2026-01-01T12:00:00Z')).toBe('firstDay');
+            expect(milestoneOn('2026-12-31T12:00:00Z')).toBe('lastDay');
+            expect(milestoneOn('2028-12-31T12:00:00Z')).toBe('lastDay');
+        });
+
+        it('should find percent milestones', () => {
+            expect(milestoneOn('2026-04-02T12:00:00Z')).toBe('quarter');
+            expect(milestoneOn('2026-07-02T12:00:00Z')).toBe('half');
+            expect(milestoneOn('2026-10-01T12:00:00Z')).toBe('threeQuarters');
+            expect(milestoneOn('2026-12-28T12:00:00Z')).toBe('almostDone');
+        });
+
+        it('should return null for ordinary days', () => {
+            expect(milestoneOn('2026-01-02T12:00:00Z')).toBeNull();
+            expect(milestoneOn('2026-10-19T12:00:00Z')).toBeNull();
+        });
+
+        it('should only reach 100% on the last day', () => {
+            expect(getYearMilestone({ percent: 100, dayOfYear: 366, totalDays: 366 })).toBe(
+                'lastDay'
+            );
+            expect(getYearMilestone({ percent: 99, dayOfYear: 363, totalDays: 366 })).toBe(
+                'almostDone'
+            );
+        });
+
+        it('should only mark the first day reaching a percent milestone', () => {
+            expect(milestoneOn('2026-07-02T12:00:00Z')).toBe('half');
+            expect(milestoneOn('2026-07-03T12:00:00Z')).toBeNull();
+            expect(milestoneOn('2026-07-04T12:00:00Z')).toBeNull();
+        });
+
+        it('should ignore decimals in the percent', () => {
+            expect(getYearMilestone({ percent: 25.2, dayOfYear: 92, totalDays: 365 })).toBe(
+                'quarter'
+            );
+        });
+    });
+
+    describe('isForcedMilestone', () => {
+        it('should force only the first and last day', () => {
+            expect(isForcedMilestone('firstDay')).toBe(true);
+            expect(isForcedMilestone('lastDay')).toBe(true);
+            expect(isForcedMilestone('half')).toBe(false);
+            expect(isForcedMilestone(null)).toBe(false);
+        });
+    });
+
+    describe('getMilestoneTextKey', () => {
+        it('should map milestones to texts.json keys', () => {
+            expect(getMilestoneTextKey('threeQuarters')).toBe('threeQuartersMilestone');
+        });
+    });
+});
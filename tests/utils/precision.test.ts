@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+    calculatePercent,
+    getGranularityValue,
+    isPostGranularity,
+} from '../../src/utils/precision.js';
+
+describe('precision', () => {
+    describe('calculatePercent', () => {
+        it('should floor to the requested decimal places', () => {
+            expect(calculatePercent(136, 365)).toBe(37);
+            expect(calculatePercent(136, 365, 1)).toBe(37.2);
+            expect(calculatePercent(136, 365, 2)).toBe(37.26);
+        });
+
+        it('should be exact on whole percents', () => {
+            expect(calculatePercent(73, 365)).toBe(20);
+            expect(calculatePercent(73, 365, 3)).toBe(20);
+            expect(calculatePercent(365, 365, 2)).toBe(100);
+        });
+    });
+
+    describe('isPostGranularity', () => {
+        it('should accept percent, day and tenths:N', () => {
+            expect(isPostGranularity('percent')).toBe(true);
+            expect(isPostGranularity('day')).toBe(true);
+            expect(isPostGranularity('tenths:5')).toBe(true);
+        });
+
+        it('should reject anything else', () => {
+            expect(isPostGranularity('hour')).toBe(false);
+            expect(isPostGranularity('tenths:0')).toBe(false);
+            expect(isPostGranularity('tenths:1.5')).toBe(false);
+            expect(isPostGranularity('tenths:')).toBe(false);
+        });
+    });
+
+    describe('getGranularityValue', () => {
+        const progress = { percent: 37.26, dayOfYear: 136, totalDays: 365 };
+
+        it('should use the integer percent', () => {
+            expect(getGranularityValue(progress, 'percent')).toBe(37);
+        });
+
+        it('should use the day of the year', () => {
+            expect(getGranularityValue(progress, 'day')).toBe(136);
+        });
+
+        it('should use the last step of N tenths reached', () => {
+            expect(getGranularityValue(progress, 'tenths:1')).toBe(37.2);
+            expect(getGranularityValue(progress, 'tenths:5')).toBe(37);
+            expect(getGranularityValue({ ...progress, dayOfYear: 138 }, 'tenths:5')).toBe(37.5);
+            expect(getGranularityValue(progress, 'tenths:25')).toBe(35);
+        });
+    });
+});
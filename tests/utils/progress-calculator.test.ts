@@ -5,6 +5,14 @@ import {
     getDaysInYear,
     formatPercent,
     getProgressMessage,
+    calculateCountdownProgress,
+    parseDateKey,
+    calculateMonthProgress,
+    calculateQuarterProgress,
+    calculateWeekProgress,
+    calculatePeriodProgress,
+    parseMonthDay,
+    isValidTimezone,
 } from '../../src/utils/progress-calculator.js';
 
 describe('progress-calculator', () => {
@@ -56,6 +64,14 @@ describe('progress-calculator', () => {
             expect(result.percent).toBeLessThanOrEqual(100);
         });
 
+        it('should keep decimal places when a precision is given', () => {
+            const date = new Date('2025-05-16T12:00:00Z');
+
+            expect(calculateYearProgress(date, 'UTC', 1).percent).toBe(37.2);
+            expect(calculateYearProgress(date, 'UTC', 2).percent).toBe(37.26);
+            expect(calculateYearProgress(date, 'UTC').percent).toBe(37);
+        });
+
         it('should include ISO date string', () => {
             const date = new Date(2025, 5, 15);
             const result = calculateYearProgress(date);
@@ -64,6 +80,356 @@ describe('progress-calculator', () => {
         });
     });
 
+    describe('calculateYearProgress with timezones', () => {
+        it.each([
+            // Instant shortly after midnight UTC on New Year's Day
+            ['UTC', '2026-01-01T00:30:00Z', 2026, 1],
+            ['Europe/London', '2026-01-01T00:30:00Z', 2026, 1],
+            ['America/New_York', '2026-01-01T00:30:00Z', 2025, 365],
+            ['America/Los_Angeles', '2026-01-01T00:30:00Z', 2025, 365],
+            ['Pacific/Honolulu', '2026-01-01T00:30:00Z', 2025, 365],
+            ['Asia/Tokyo', '2026-01-01T00:30:00Z', 2026, 1],
+            // Last minutes of the year in UTC are already next year further east
+            ['Pacific/Kiritimati', '2025-12-31T10:30:00Z', 2026, 1],
+            ['Asia/Kolkata', '2025-12-31T18:45:00Z', 2026, 1],
+            ['Australia/Adelaide', '2025-12-31T13:30:00Z', 2026, 1],
+            ['Asia/Kathmandu', '2025-12-31T18:14:00Z', 2025, 365],
+            ['Asia/Kathmandu', '2025-12-31T18:15:00Z', 2026, 1],
+        ])('should use the date in %s at %s', (timezone, iso, year, dayOfYear) => {
+            const result = calculateYearProgress(new Date(iso), timezone);
+
+            expect(result.year).toBe(year);
+            expect(result.dayOfYear).toBe(dayOfYear);
+        });
+
+        it('should count days correctly across DST transitions', () => {
+            // US spring forward (March 8) and fall back (November 1) in 2026
+            expect(
+                calculateYearProgress(new Date('2026-03-08T12:00:00Z'), 'America/New_York')
+                    .dayOfYear
+            ).toBe(67);
+            expect(
+                calculateYearProgress(new Date('2026-03-09T04:30:00Z'), 'America/New_York')
+                    .dayOfYear
+            ).toBe(68);
+            expect(
+                calculateYearProgress(new Date('2026-11-02T04:30:00Z'), 'America/New_York')
+                    .dayOfYear
+            ).toBe(305);
+            expect(
+                calculateYearProgress(new Date('2026-11-02T05:30:00Z'), 'America/New_York')
+                    .dayOfYear
+            ).toBe(306);
+        });
+
+        it('should count days correctly across southern hemisphere DST', () => {
+            // Sydney moves clocks forward on October 4, 2026
+            const result = calculateYearProgress(
+                new Date('2026-10-04T14:00:00Z'),
+                'Australia/Sydney'
+            );
+
+            expect(result.dayOfYear).toBe(278);
+            expect(result.percent).toBe(76);
+        });
+
+        it('should reach the last day of leap years in any timezone', () => {
+            const result = calculateYearProgress(
+                new Date('2029-01-01T03:00:00Z'),
+                'America/Chicago'
+            );
+
+            expect(result.year).toBe(2028);
+            expect(result.dayOfYear).toBe(366);
+            expect(result.totalDays).toBe(366);
+            expect(result.percent).toBe(100);
+        });
+
+        it('should treat UTC as a real timezone rather than the host timezone', () => {
+            const result = calculateYearProgress(new Date('2026-12-31T23:59:59Z'), 'UTC');
+
+            expect(result.year).toBe(2026);
+            expect(result.dayOfYear).toBe(365);
+        });
+    });
+
+    describe('isValidTimezone', () => {
+        it('should accept IANA names and reject anything else', () => {
+            expect(isValidTimezone('UTC')).toBe(true);
+            expect(isValidTimezone('America/Argentina/Buenos_Aires')).toBe(true);
+            expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+            expect(isValidTimezone('')).toBe(false);
+        });
+    });
+
+    describe('calculatePeriodProgress', () => {
+        const fiscalYear = {
+            name: 'fiscal-year-april',
+            label: 'Fiscal Year',
+            type: 'recurring' as const,
+            start: '04-01',
+            end: '03-31',
+        };
+
+        it('should calculate progress through a fiscal year spanning two years', () => {
+            const result = calculatePeriodProgress(fiscalYear, new Date('2026-10-19T12:00:00Z'), 'UTC');
+
+            expect(result.period).toBe('fiscal-year-april');
+            expect(result.year).toBe(2026);
+            expect(result.startDate).toBe('2026-04-01');
+            expect(result.endDate).toBe('2027-03-31');
+            expect(result.dayOfYear).toBe(202);
+            expect(result.totalDays).toBe(365);
+            expect(result.percent).toBe(55);
+            expect(result.isActive).toBe(true);
+        });
+
+        it('should use the previous occurrence before the start rule in a year', () => {
+            const result = calculatePeriodProgress(fiscalYear, new Date('2027-02-01T12:00:00Z'), 'UTC');
+
+            expect(result.startDate).toBe('2026-04-01');
+            expect(result.endDate).toBe('2027-03-31');
+        });
+
+        it('should name the occurrence after its end year when configured', () => {
+            const result = calculatePeriodProgress(
+                { ...fiscalYear, labelYear: 'end' },
+                new Date('2026-10-19T12:00:00Z'),
+                'UTC'
+            );
+
+            expect(result.year).toBe(2027);
+        });
+
+        it('should detect leap days inside the occurrence', () => {
+            const result = calculatePeriodProgress(fiscalYear, new Date('2027-10-19T12:00:00Z'), 'UTC');
+
+            expect(result.totalDays).toBe(366);
+            expect(result.isLeapYear).toBe(true);
+        });
+
+        it('should mark seasons as inactive outside their dates', () => {
+            const spring = {
+                name: 'spring',
+                label: 'Spring',
+                type: 'recurring' as const,
+                start: '03-20',
+                end: '06-20',
+            };
+
+            const during = calculatePeriodProgress(spring, new Date('2026-05-05T12:00:00Z'), 'UTC');
+            const after = calculatePeriodProgress(spring, new Date('2026-10-19T12:00:00Z'), 'UTC');
+
+            expect(during.isActive).toBe(true);
+            expect(during.dayOfYear).toBe(47);
+            expect(after.isActive).toBe(false);
+            expect(after.percent).toBe(100);
+        });
+
+        it('should calculate progress through fixed ranges', () => {
+            const term = {
+                name: 'fall-term',
+                label: 'Fall Term',
+                type: 'fixed' as const,
+                start: '2026-09-01',
+                end: '2026-12-18',
+            };
+
+            const during = calculatePeriodProgress(term, new Date('2026-10-19T12:00:00Z'), 'UTC');
+            const before = calculatePeriodProgress(term, new Date('2026-08-01T12:00:00Z'), 'UTC');
+
+            expect(during.totalDays).toBe(109);
+            expect(during.dayOfYear).toBe(49);
+            expect(during.percent).toBe(44);
+            expect(before.isActive).toBe(false);
+            expect(before.percent).toBe(0);
+        });
+
+        it('should validate month-day rules', () => {
+            expect(parseMonthDay('02-29')).toEqual({ month: 2, day: 29 });
+            expect(() => parseMonthDay('13-01')).toThrow('Invalid month-day');
+        });
+    });
+
+    describe('calculateMonthProgress', () => {
+        it('should calculate progress through the month', () => {
+            const result = calculateMonthProgress(new Date('2026-10-19T12:00:00Z'), 'UTC');
+
+            expect(result.year).toBe(2026);
+            expect(result.month).toBe(10);
+            expect(result.monthName).toBe('October');
+            expect(result.dayOfPeriod).toBe(19);
+            expect(result.totalDays).toBe(31);
+            expect(result.percent).toBe(61);
+            expect(result.startDate).toBe('2026-10-01');
+            expect(result.endDate).toBe('2026-10-31');
+        });
+
+        it('should handle February in leap years', () => {
+            const result = calculateMonthProgress(new Date('2028-02-29T12:00:00Z'), 'UTC');
+
+            expect(result.totalDays).toBe(29);
+            expect(result.percent).toBe(100);
+        });
+
+        it('should use the month in the configured timezone', () => {
+            const result = calculateMonthProgress(new Date('2026-11-01T02:00:00Z'), 'America/Chicago');
+
+            expect(result.month).toBe(10);
+            expect(result.dayOfPeriod).toBe(31);
+        });
+    });
+
+    describe('calculateQuarterProgress', () => {
+        it('should calculate progress through the quarter', () => {
+            const result = calculateQuarterProgress(new Date('2026-10-19T12:00:00Z'), 'UTC');
+
+            expect(result.quarter).toBe(4);
+            expect(result.dayOfPeriod).toBe(19);
+            expect(result.totalDays).toBe(92);
+            expect(result.percent).toBe(20);
+            expect(result.endDate).toBe('2026-12-31');
+        });
+
+        it('should reach a whole percent exactly on its day', () => {
+            const february = calculateMonthProgress(new Date('2026-02-07T12:00:00Z'), 'UTC');
+            const quarter = calculateQuarterProgress(new Date('2026-02-14T12:00:00Z'), 'UTC');
+
+            expect(february).toMatchObject({ dayOfPeriod: 7, totalDays: 28, percent: 25 });
+            expect(quarter).toMatchObject({ dayOfPeriod: 45, totalDays: 90, percent: 50 });
+        });
+
+        it('should handle the first quarter of a leap year', () => {
+            const result = calculateQuarterProgress(new Date('2028-03-31T12:00:00Z'), 'UTC');
+
+            expect(result.quarter).toBe(1);
+            expect(result.totalDays).toBe(91);
+            expect(result.percent).toBe(100);
+        });
+    });
+
+    describe('calculateWeekProgress', () => {
+        it('should start weeks on Monday', () => {
+            const monday = calculateWeekProgress(new Date('2026-10-19T12:00:00Z'), 'UTC');
+            const sunday = calculateWeekProgress(new Date('2026-10-25T12:00:00Z'), 'UTC');
+
+            expect(monday.dayOfPeriod).toBe(1);
+            expect(monday.percent).toBe(14);
+            expect(monday.startDate).toBe('2026-10-19');
+            expect(sunday.dayOfPeriod).toBe(7);
+            expect(sunday.percent).toBe(100);
+            expect(monday.week).toBe(sunday.week);
+        });
+
+        it('should use ISO week numbers', () => {
+            expect(calculateWeekProgress(new Date('2026-10-19T12:00:00Z'), 'UTC').week).toBe(43);
+        });
+
+        it('should assign New Year days to the ISO week-year', () => {
+            // Jan 1, 2027 is a Friday and belongs to week 53 of 2026
+            const result = calculateWeekProgress(new Date('2027-01-01T12:00:00Z'), 'UTC');
+
+            expect(result.isoYear).toBe(2026);
+            expect(result.week).toBe(53);
+            // Dec 29, 2025 is a Monday and belongs to week 1 of 2026
+            const next = calculateWeekProgress(new Date('2025-12-29T12:00:00Z'), 'UTC');
+            expect(next.isoYear).toBe(2026);
+            expect(next.week).toBe(1);
+        });
+    });
+
+    describe('calculateCountdownProgress', () => {
+        it('should calculate days remaining and percent elapsed', () => {
+            const result = calculateCountdownProgress(
+                '2026-01-01',
+                '2026-01-11',
+                new Date('2026-01-04T12:00:00Z'),
+                'UTC'
+            );
+
+            expect(result.totalDays).toBe(10);
+            expect(result.daysElapsed).toBe(3);
+            expect(result.daysRemaining).toBe(7);
+            expect(result.percent).toBe(30);
+            expect(result.isTargetDay).toBe(false);
+            expect(result.isPast).toBe(false);
+        });
+
+        it('should not lose a percent to floating-point error', () => {
+            const day = new Date('2026-01-30T12:00:00Z');
+            const hundredDays = calculateCountdownProgress('2026-01-01', '2026-04-11', day, 'UTC');
+            const fiftyDays = calculateCountdownProgress('2026-01-01', '2026-02-20', day, 'UTC');
+
+            expect(hundredDays).toMatchObject({ daysElapsed: 29, totalDays: 100, percent: 29 });
+            expect(fiftyDays).toMatchObject({ daysElapsed: 29, totalDays: 50, percent: 58 });
+        });
+
+        it('should flag the target day', () => {
+            const result = calculateCountdownProgress(
+                '2026-01-01',
+                '2026-01-11',
+                new Date('2026-01-11T08:00:00Z'),
+                'UTC'
+            );
+
+            expect(result.daysRemaining).toBe(0);
+            expect(result.percent).toBe(100);
+            expect(result.isTargetDay).toBe(true);
+        });
+
+        it('should flag countdowns that have passed', () => {
+            const result = calculateCountdownProgress(
+                '2026-01-01',
+                '2026-01-11',
+                new Date('2026-01-12T08:00:00Z'),
+                'UTC'
+            );
+
+            expect(result.daysRemaining).toBe(0);
+            expect(result.isPast).toBe(true);
+        });
+
+        it('should clamp progress before the start date', () => {
+            const result = calculateCountdownProgress(
+                '2026-01-01',
+                '2026-01-11',
+                new Date('2025-12-20T08:00:00Z'),
+                'UTC'
+            );
+
+            expect(result.percent).toBe(0);
+            expect(result.daysRemaining).toBe(22);
+        });
+
+        it('should count days in the configured timezone', () => {
+            const result = calculateCountdownProgress(
+                '2026-01-01',
+                '2026-01-11',
+                new Date('2026-01-11T03:00:00Z'),
+                'America/New_York'
+            );
+
+            expect(result.daysRemaining).toBe(1);
+        });
+
+        it('should reject targets before the start', () => {
+            expect(() => calculateCountdownProgress('2026-02-01', '2026-01-01')).toThrow(
+                'must be after start'
+            );
+        });
+    });
+
+    describe('parseDateKey', () => {
+        it('should parse valid dates', () => {
+            expect(parseDateKey('2028-02-29')).toEqual({ year: 2028, month: 2, day: 29 });
+        });
+
+        it('should reject invalid dates', () => {
+            expect(() => parseDateKey('2026-02-29')).toThrow('Invalid date');
+            expect(() => parseDateKey('01/02/2026')).toThrow('Invalid date');
+        });
+    });
+
     describe('isLeapYear', () => {
         it('should return true for year divisible by 4 but not 100', () => {
             expect(isLeapYear(2024)).toBe(true);
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getQuoteOrder,
+    getNextRotation,
+    getRotationFromState,
+    getQuoteAt,
+} from '../../src/utils/quotes.js';
+
+describe('quotes', () => {
+    describe('getQuoteOrder', () => {
+        it('should contain every index exactly once', () => {
+            const order = getQuoteOrder(20, 3);
+
+            expect([...order].sort((a, b) => a - b)).toEqual(
+                Array.from({ length: 20 }, (_, i) => i)
+            );
+        });
+
+        it('should be stable for the same cycle', () => {
+            expect(getQuoteOrder(10, 1)).toEqual(getQuoteOrder(10, 1));
+        });
+
+        it('should shuffle differently per cycle', () => {
+            expect(getQuoteOrder(10, 0)).not.toEqual(getQuoteOrder(10, 1));
+        });
+    });
+
+    describe('getNextRotation', () => {
+        it('should start at the beginning without previous rotation', () => {
+            expect(getNextRotation(null, 5)).toEqual({ position: 0, cycle: 0 });
+        });
+
+        it('should advance the position', () => {
+            expect(getNextRotation({ position: 2, cycle: 1 }, 5)).toEqual({
+                position: 3,
+                cycle: 1,
+            });
+        });
+
+        it('should start a new cycle when the pool is used up', () => {
+            expect(getNextRotation({ position: 4, cycle: 1 }, 5)).toEqual({
+                position: 0,
+                cycle: 2,
+            });
+        });
+
+        it('should not repeat a quote within a cycle', () => {
+            const quotes = Array.from({ length: 6 }, (_, i) => ({
+                text: `Quote ${i}`,
+                author: 'Author',
+            }));
+            const seen = new Set<string>();
+            let rotation = getNextRotation(null, quotes.length);
+
+            for (let i = 0; i < quotes.length; i++) {
+                seen.add(getQuoteAt(quotes, rotation).text);
+                rotation = getNextRotation(rotation, quotes.length);
+            }
+
+            expect(seen.size).toBe(quotes.length);
+            expect(rotation.cycle).toBe(1);
+        });
+    });
+
+    describe('getRotationFromState', () => {
+        it('should read the rotation for the same content type', () => {
+            const state = {
+                lastValue: '2026-10-19',
+                lastDate: '2026-10-19T00:00:00.000Z',
+                contentType: 'quote',
+                quotePosition: 4,
+                quoteCycle: 2,
+            };
+
+            expect(getRotationFromState(state, 'quote')).toEqual({ position: 4, cycle: 2 });
+        });
+
+        it('should ignore state from other content types', () => {
+            const state = {
+                lastValue: 50,
+                lastDate: '2026-10-19T00:00:00.000Z',
+                contentType: 'year-progress',
+            };
+
+            expect(getRotationFromState(state, 'quote')).toBeNull();
+            expect(getRotationFromState(null, 'quote')).toBeNull();
+        });
+    });
+});
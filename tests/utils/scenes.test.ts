@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { findScene, loadScenes } from '../../src/utils/scenes.js';
+import type { Scene } from '../../src/types/index.js';
+
+describe('scenes', () => {
+    describe('loadScenes', () => {
+        it('should load the bundled scenes with defaults applied', () => {
+            const scenes = loadScenes('config/scenes');
+            const card = scenes.find((s) => s.name === 'card');
+
+            expect(card?.elements.map((e) => e.type)).toEqual([
+                'background',
+                'overlay',
+                'confetti',
+                'text',
+                'shape',
+                'progress',
+                'text',
+            ]);
+            expect(card?.elements[0]).toMatchObject({ opacity: 1, scale: 1, keyframes: {} });
+            expect(card?.elements[3]).toMatchObject({ align: 'center', fontSize: 80 });
+        });
+
+        it('should throw when the directory does not exist', () => {
+            expect(() => loadScenes('config/no-such-scenes')).toThrow('Scenes directory not found');
+        });
+    });
+
+    describe('findScene', () => {
+        const scene = (name: string): Scene => ({ name, elements: [] });
+        const scenes = [scene('card'), scene('minimal')];
+
+        it('should find a scene by name', () => {
+            expect(findScene(scenes, 'minimal').name).toBe('minimal');
+        });
+
+        it('should throw for an unknown scene', () => {
+            expect(() => findScene(scenes, 'poster')).toThrow(
+                'Unknown scene: "poster". Defined scenes: card, minimal'
+            );
+        });
+    });
+});
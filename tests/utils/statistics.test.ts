@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { calculateProgressStatistics } from '../../src/utils/statistics.js';
+import { getHolidayDateKeys, loadHolidays } from '../../src/utils/holidays.js';
+
+const END_OF_2026 = { year: 2026, month: 12, day: 31 };
+
+describe('statistics', () => {
+    describe('calculateProgressStatistics', () => {
+        it('should count the time left in the year', () => {
+            // Monday, October 19, 2026 at 18:00
+            const result = calculateProgressStatistics(
+                END_OF_2026,
+                new Date('2026-10-19T18:00:00Z'),
+                'UTC'
+            );
+
+            expect(result).toEqual({
+                daysLeft: 73,
+                weeksLeft: 10,
+                weekendsLeft: 10,
+                workdaysLeft: 53,
+                hoursLeft: 73 * 24 + 6,
+                quarter: 4,
+                month: 10,
+                monthName: 'October',
+            });
+        });
+
+        it('should skip holidays in the workday count', () => {
+            const date = new Date('2026-10-19T12:00:00Z');
+            const holidays = [
+                { name: 'Christmas Day', date: '12-25' },
+                { name: 'Boxing Day', date: '12-26' },
+                { name: 'Company Day', date: '2026-11-02' },
+            ];
+
+            const result = calculateProgressStatistics(END_OF_2026, date, 'UTC', holidays);
+
+            // Boxing Day 2026 is a Saturday, so only two workdays are removed
+            expect(result.workdaysLeft).toBe(51);
+        });
+
+        it('should count a weekend that is already half over', () => {
+            // Saturday, October 24, 2026: only Sunday is left of this weekend
+            const result = calculateProgressStatistics(
+                { year: 2026, month: 10, day: 26 },
+                new Date('2026-10-24T12:00:00Z'),
+                'UTC'
+            );
+
+            expect(result.daysLeft).toBe(2);
+            expect(result.weekendsLeft).toBe(1);
+            expect(result.workdaysLeft).toBe(1);
+        });
+
+        it('should use the date and time in the configured timezone', () => {
+            const date = new Date('2026-12-31T20:30:00Z');
+
+            expect(calculateProgressStatistics(END_OF_2026, date, 'UTC').hoursLeft).toBe(3);
+            expect(
+                calculateProgressStatistics(
+                    { year: 2027, month: 12, day: 31 },
+                    date,
+                    'Asia/Tokyo'
+                ).daysLeft
+            ).toBe(364);
+        });
+
+        it('should return zeros once the end date has passed', () => {
+            const result = calculateProgressStatistics(
+                { year: 2026, month: 3, day: 31 },
+                new Date('2026-10-19T12:00:00Z'),
+                'UTC'
+            );
+
+            expect(result.daysLeft).toBe(0);
+            expect(result.weekendsLeft).toBe(0);
+            expect(result.workdaysLeft).toBe(0);
+            expect(result.hoursLeft).toBe(0);
+        });
+    });
+
+    describe('holidays', () => {
+        it('should resolve yearly and fixed holidays', () => {
+            const keys = getHolidayDateKeys(
+                [
+                    { name: 'Christmas Day', date: '12-25' },
+                    { name: 'Leap Day', date: '02-29' },
+                    { name: 'Good Friday', date: '2026-04-03' },
+                ],
+                2027,
+                2028
+            );
+
+            expect([...keys].sort()).toEqual([
+                '2026-04-03',
+                '2027-12-25',
+                '2028-02-29',
+                '2028-12-25',
+            ]);
+        });
+
+        it('should load the default holiday calendar', () => {
+            const holidays = loadHolidays('config/holidays.json');
+
+            expect(holidays.length).toBeGreaterThan(0);
+            expect(holidays[0]).toHaveProperty('name');
+        });
+
+        it('should reject invalid holiday files', () => {
+            expect(() => loadHolidays('config/missing-holidays.json')).toThrow(
+                'Holiday calendar not found'
+            );
+        });
+    });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+    compileTemplate,
+    findMissingVariables,
+    pickWeighted,
+    renderTemplate,
+} from '../../src/utils/template-engine.js';
+
+describe('template-engine', () => {
+    describe('renderTemplate', () => {
+        it('should replace variables', () => {
+            const vars = { year: 2026, percent: 80 };
+
+            expect(renderTemplate('{year} is {percent}% complete', vars)).toBe(
+                '2026 is 80% complete'
+            );
+        });
+
+        it('should insert literal braces', () => {
+            expect(renderTemplate('{{year}} = {year}', { year: 2026 })).toBe('{year} = 2026');
+        });
+
+        it('should pluralize', () => {
+            expect(renderTemplate('{n | plural:day:days} left', { n: 1 })).toBe('1 day left');
+            expect(renderTemplate('{n | plural:day:days} left', { n: 2 })).toBe('2 days left');
+            expect(renderTemplate('{n | plural:day:days} left', { n: 0 })).toBe('0 days left');
+        });
+
+        it('should format numbers and dates', () => {
+            expect(renderTemplate('{hours | number}', { hours: 1752 })).toBe('1,752');
+            expect(renderTemplate('{percent | number:1}', { percent: 37 })).toBe('37.0');
+            const vars = { date: '2026-10-19' };
+
+            expect(renderTemplate('{date | date}', vars)).toBe('October 19, 2026');
+            expect(renderTemplate('{date | date:short}', vars)).toBe('10/19/26');
+        });
+
+        it('should apply text filters in order', () => {
+            expect(renderTemplate('{name | upper}', { name: 'aries' })).toBe('ARIES');
+            expect(renderTemplate('{name | capitalize}', { name: 'aries' })).toBe('Aries');
+            expect(renderTemplate('{day | pad:2}', { day: 7 })).toBe('07');
+            expect(renderTemplate('{yearName | default:none | upper}', { yearName: '' })).toBe(
+                'NONE'
+            );
+        });
+
+        it('should show conditional text', () => {
+            const template = '{#if daysLeft < 30}Only {daysLeft} left!{#else}Keep going{/if}';
+
+            expect(renderTemplate(template, { daysLeft: 12 })).toBe('Only 12 left!');
+            expect(renderTemplate(template, { daysLeft: 73 })).toBe('Keep going');
+        });
+
+        it('should support every comparison and truthiness', () => {
+            const vars = { a: 5, b: 10, sign: 'aries', empty: '' };
+
+            expect(renderTemplate('{#if a <= 5}y{/if}', vars)).toBe('y');
+            expect(renderTemplate('{#if a >= b}y{#else}n{/if}', vars)).toBe('n');
+            expect(renderTemplate('{#if a != b}y{/if}', vars)).toBe('y');
+            expect(renderTemplate("{#if sign == 'aries'}y{/if}", vars)).toBe('y');
+            expect(renderTemplate('{#if empty}y{#else}n{/if}', vars)).toBe('n');
+            expect(renderTemplate('{#if !empty}y{/if}', vars)).toBe('y');
+        });
+
+        it('should nest conditionals and collapse leftover whitespace', () => {
+            const template = 'Day {day} {#if day > 1}{#if day < 10}early{/if}{/if} done';
+
+            expect(renderTemplate(template, { day: 5 })).toBe('Day 5 early done');
+            expect(renderTemplate(template, { day: 20 })).toBe('Day 20 done');
+            expect(renderTemplate('{#if day > 9}Late: {/if}day {day}', { day: 5 })).toBe('day 5');
+            expect(renderTemplate('Day {day} {#if day > 9}late{/if}\nnext', { day: 5 })).toBe(
+                'Day 5\nnext'
+            );
+        });
+
+        it('should keep the spacing of variables', () => {
+            const vars = { quote: 'Wait  for it.\tThen  go. ', late: 0 };
+
+            expect(renderTemplate('“{quote}”', vars)).toBe('“Wait  for it.\tThen  go. ”');
+            expect(renderTemplate('{#if late}Late: {/if}{quote}', vars)).toBe(
+                'Wait  for it.\tThen  go. '
+            );
+        });
+
+        it('should format numbers, plurals and dates for the locale', () => {
+            expect(renderTemplate('{percent}', { percent: 37.5 }, 'es')).toBe('37,5');
+            expect(renderTemplate('{hours | number}', { hours: 1234567 }, 'de')).toBe('1.234.567');
+            expect(renderTemplate('{n | plural:dia:dias}', { n: 1 }, 'pt')).toBe('1 dia');
+            expect(renderTemplate('{n | plural:día:días}', { n: 3 }, 'es')).toBe('3 días');
+            expect(renderTemplate('{d | date}', { d: '2026-10-19' }, 'es')).toBe(
+                '19 de octubre de 2026'
+            );
+        });
+
+        it('should reject variables that are not provided', () => {
+            expect(() => renderTemplate('{daysleft} days left', { daysLeft: 3 })).toThrow(
+                'unknown variable(s): daysleft'
+            );
+        });
+    });
+
+    describe('compileTemplate', () => {
+        it('should list the variables used, including in conditions', () => {
+            const template = compileTemplate('{#if daysLeft < limit}{label | upper}{/if} {year}');
+
+            expect(template.variables.sort()).toEqual(['daysLeft', 'label', 'limit', 'year']);
+        });
+
+        it.each([
+            ['{percent', 'Unclosed "{"'],
+            ['percent}', 'Unexpected "}"'],
+            ['{percent | shout}', 'Unknown filter "shout"'],
+            ['{n | plural:day}', 'takes 2-2 arguments'],
+            ['{d | date:tiny}', 'Unknown date style "tiny"'],
+            ['{#if a}x', 'Missing {/if}'],
+            ['x{/if}', 'Unexpected {/if}'],
+            ['{#if a}x{#else}y{#else}z{/if}', 'Unexpected {#else}'],
+            ['{days left}', 'Invalid variable name "days left"'],
+        ])('should reject %s', (source, message) => {
+            expect(() => compileTemplate(source)).toThrow(message);
+        });
+    });
+
+    describe('findMissingVariables', () => {
+        it('should report unknown variables', () => {
+            const template = compileTemplate('{year} {daysleft}');
+
+            expect(findMissingVariables(template, { year: 2026, daysLeft: 3 })).toEqual([
+                'daysleft',
+            ]);
+        });
+    });
+
+    describe('pickWeighted', () => {
+        const items = [
+            { text: 'a', weight: 1 },
+            { text: 'b', weight: 3 },
+        ];
+
+        it('should pick items in proportion to their weight', () => {
+            expect(pickWeighted(items, () => 0).text).toBe('a');
+            expect(pickWeighted(items, () => 0.24).text).toBe('a');
+            expect(pickWeighted(items, () => 0.25).text).toBe('b');
+            expect(pickWeighted(items, () => 0.99).text).toBe('b');
+        });
+
+        it('should reject empty lists', () => {
+            expect(() => pickWeighted([], () => 0)).toThrow('empty list');
+        });
+    });
+});
@@ -0,0 +1,137 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import { loadThemes, selectTheme } from '../../src/utils/themes.js';
+import type { Theme, YearMilestone } from '../../src/types/index.js';
+
+/**
+ * Minimal valid theme
+ */
+function createTheme(name: string, milestones: YearMilestone[] = []): Theme {
+    return {
+        name,
+        milestones,
+        layout: 'bar',
+        counter: 'none',
+        animation: {
+            easing: 'linear',
+            delay: 0,
+            text: {
+                preset: 'fade',
+                anchor: 'video',
+                delay: 0,
+                duration: 0.5,
+                stagger: 0,
+                slide: 80,
+            },
+        },
+        background: { filters: [], motion: 'none', zoom: 1.15, slides: 1, crossfade: 1 },
+        overlay: { color: '#000000', opacity: 0.4 },
+        bar: {
+            colors: ['#00C9FF', '#FFD700'],
+            trackColor: 'rgba(255, 255, 255, 0.2)',
+            borderColor: '#FFFFFF',
+            borderWidth: 4,
+            radius: 15,
+        },
+        text: {
+            color: '#FFFFFF',
+            weights: ['bold'],
+            shadow: { color: '#000000', blur: 20 },
+        },
+        contrast: { adaptive: true, ratio: 4.5 },
+        confetti: { colors: ['#FFD700'] },
+    };
+}
+
+describe('themes', () => {
+    describe('loadThemes', () => {
+        it('should load the bundled themes', () => {
+            const themes = loadThemes('config/themes');
+            const names = themes.map((t) => t.name);
+
+            expect(names).toContain('default');
+            expect(new Set(names).size).toBe(names.length);
+            expect(themes.find((t) => t.name === 'default')?.bar.colors).toEqual([
+                '#00C9FF',
+                '#92FE9D',
+                '#FFD700',
+            ]);
+            expect(themes.every((t) => t.layout === 'bar')).toBe(true);
+            expect(themes.find((t) => t.name === 'default')?.counter).toBe('none');
+            expect(themes.every((t) => t.contrast.adaptive && t.contrast.ratio === 4.5)).toBe(true);
+            expect(themes.find((t) => t.name === 'gold')?.background.filters[0]).toEqual({
+                type: 'lut',
+                file: 'warm.cube',
+                intensity: 0.7,
+            });
+            expect(themes.find((t) => t.name === 'default')?.background).toEqual({
+                filters: [],
+                motion: 'none',
+                zoom: 1.15,
+                slides: 1,
+                crossfade: 1,
+            });
+            expect(themes.find((t) => t.name === 'default')?.animation).toEqual({
+                easing: 'linear',
+                delay: 0,
+                text: {
+                    preset: 'fade',
+                    anchor: 'video',
+                    delay: 0,
+                    duration: 0.5,
+                    stagger: 0,
+                    slide: 80,
+                },
+            });
+        });
+
+        it('should reject milestones that do not exist', () => {
+            const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'themes-'));
+            const theme = JSON.parse(fs.readFileSync('config/themes/gold.json', 'utf-8'));
+            fs.writeFileSync(
+                path.join(dir, 'gold.json'),
+                JSON.stringify({ ...theme, milestones: ['lastDay', 'newYear'] })
+            );
+
+            try {
+                expect(() => loadThemes(dir)).toThrow('milestones.1');
+            } finally {
+                fs.rmSync(dir, { recursive: true, force: true });
+            }
+        });
+
+        it('should throw when the directory does not exist', () => {
+            expect(() => loadThemes('config/no-such-themes')).toThrow('Themes directory not found');
+        });
+    });
+
+    describe('selectTheme', () => {
+        const themes = [
+            createTheme('default'),
+            createTheme('midnight'),
+            createTheme('gold', ['firstDay', 'lastDay']),
+        ];
+
+        it('should select a theme by name', () => {
+            expect(selectTheme(themes, 'midnight').name).toBe('midnight');
+        });
+
+        it('should pick any theme at random', () => {
+            expect(selectTheme(themes, 'random', null, () => 0).name).toBe('default');
+            expect(selectTheme(themes, 'random', null, () => 0.99).name).toBe('gold');
+        });
+
+        it('should prefer a theme made for the milestone', () => {
+            expect(selectTheme(themes, 'midnight', 'lastDay').name).toBe('gold');
+            expect(selectTheme(themes, 'midnight', 'half').name).toBe('midnight');
+        });
+
+        it('should throw for an unknown theme', () => {
+            expect(() => selectTheme(themes, 'neon')).toThrow(
+                'Unknown theme: "neon". Defined themes: default, midnight, gold'
+            );
+        });
+    });
+});
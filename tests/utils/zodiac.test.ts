@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getZodiacSign,
+    getZodiacSeason,
+    getSignProgress,
+    isZodiacSign,
+    formatSignName,
+} from '../../src/utils/zodiac.js';
+
+describe('zodiac', () => {
+    describe('getZodiacSign', () => {
+        it('should return the sign for dates inside a season', () => {
+            expect(getZodiacSign({ year: 2026, month: 4, day: 1 })).toBe('aries');
+            expect(getZodiacSign({ year: 2026, month: 10, day: 19 })).toBe('libra');
+        });
+
+        it('should switch signs on the first day of a season', () => {
+            expect(getZodiacSign({ year: 2026, month: 10, day: 22 })).toBe('libra');
+            expect(getZodiacSign({ year: 2026, month: 10, day: 23 })).toBe('scorpio');
+        });
+
+        it('should handle capricorn across the year boundary', () => {
+            expect(getZodiacSign({ year: 2026, month: 12, day: 25 })).toBe('capricorn');
+            expect(getZodiacSign({ year: 2027, month: 1, day: 5 })).toBe('capricorn');
+            expect(getZodiacSign({ year: 2027, month: 1, day: 20 })).toBe('aquarius');
+        });
+    });
+
+    describe('getZodiacSeason', () => {
+        it('should calculate progress through the season', () => {
+            const season = getZodiacSeason({ year: 2026, month: 10, day: 19 });
+
+            expect(season.sign).toBe('libra');
+            expect(season.startDate).toBe('2026-09-23');
+            expect(season.endDate).toBe('2026-10-22');
+            expect(season.dayOfSeason).toBe(27);
+            expect(season.totalDays).toBe(30);
+            expect(season.percent).toBe(90);
+        });
+
+        it('should start capricorn season in the previous year during January', () => {
+            const season = getZodiacSeason({ year: 2027, month: 1, day: 5 });
+
+            expect(season.startDate).toBe('2026-12-22');
+            expect(season.endDate).toBe('2027-01-19');
+            expect(season.dayOfSeason).toBe(15);
+        });
+
+        it('should include leap days in pisces season', () => {
+            const season = getZodiacSeason({ year: 2028, month: 3, day: 20 });
+
+            expect(season.sign).toBe('pisces');
+            expect(season.totalDays).toBe(31);
+            expect(season.percent).toBe(100);
+        });
+    });
+
+    describe('getSignProgress', () => {
+        it('should match the season progress while the season runs', () => {
+            expect(getSignProgress('libra', { year: 2026, month: 10, day: 19 })).toBe(90);
+        });
+
+        it('should count the wait for the next season once it is over', () => {
+            expect(getSignProgress('leo', { year: 2026, month: 8, day: 23 })).toBe(0);
+            expect(getSignProgress('leo', { year: 2026, month: 10, day: 19 })).toBe(17);
+            expect(getSignProgress('leo', { year: 2027, month: 7, day: 22 })).toBe(100);
+        });
+
+        it('should handle capricorn across the year boundary', () => {
+            expect(getSignProgress('capricorn', { year: 2027, month: 1, day: 5 })).toBe(51);
+        });
+
+        it('should reach a whole percent exactly on its day', () => {
+            const season = getZodiacSeason({ year: 2026, month: 4, day: 4 });
+
+            expect(season).toMatchObject({ sign: 'aries', dayOfSeason: 15, totalDays: 30 });
+            expect(season.percent).toBe(50);
+            expect(getSignProgress('aries', { year: 2026, month: 4, day: 4 })).toBe(50);
+        });
+    });
+
+    describe('helpers', () => {
+        it('should validate sign names', () => {
+            expect(isZodiacSign('leo')).toBe(true);
+            expect(isZodiacSign('ophiuchus')).toBe(false);
+        });
+
+        it('should format sign names for display', () => {
+            expect(formatSignName('sagittarius')).toBe('Sagittarius');
+        });
+    });
+});